@@ -40,6 +40,9 @@ export class StoryGraphDatabase {
     // Create all tables
     this.createTables();
 
+    // Bring databases created by earlier versions up to date
+    this.migrateSchema();
+
     // Start automatic backup system (every 15 minutes)
     this.startBackupSystem();
 
@@ -88,6 +91,24 @@ export class StoryGraphDatabase {
         duration REAL,
         size INTEGER,
         metadata_raw TEXT,
+        proxy_path TEXT,
+        video_codec TEXT,
+        pixel_format TEXT,
+        bit_depth INTEGER,
+        color_space TEXT,
+        color_transfer TEXT,
+        color_primaries TEXT,
+        pixel_aspect TEXT,
+        rotation INTEGER,
+        audio_codec TEXT,
+        audio_channels INTEGER,
+        audio_channel_layout TEXT,
+        audio_sample_rate INTEGER,
+        audio_streams TEXT,
+        creation_date TEXT,
+        camera_make TEXT,
+        camera_model TEXT,
+        reel_name TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
       );
@@ -96,6 +117,7 @@ export class StoryGraphDatabase {
       CREATE INDEX IF NOT EXISTS idx_media_clean_name ON media_library(clean_name);
       CREATE INDEX IF NOT EXISTS idx_media_type ON media_library(media_type);
     `);
+    // Indexes on probed columns live in migrateSchema(), after older databases gain the columns
 
     // ========================================================================
     // TABLE 3: transcripts
@@ -107,6 +129,7 @@ export class StoryGraphDatabase {
           source_type TEXT NOT NULL,
           raw_text TEXT,
           word_map_json TEXT NOT NULL,
+          sync_offset_frames INTEGER NOT NULL DEFAULT 0,
           created_at INTEGER DEFAULT (unixepoch()),
           FOREIGN KEY(media_id) REFERENCES media_library(id) ON DELETE CASCADE
       );
@@ -174,6 +197,7 @@ export class StoryGraphDatabase {
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS story_nodes (
         id TEXT PRIMARY KEY,
+        canvas_id TEXT,
         asset_id TEXT,
         act_id TEXT,
         scene_id TEXT,
@@ -197,6 +221,7 @@ export class StoryGraphDatabase {
         clip_out REAL,
 
         internal_state JSON,
+        FOREIGN KEY (canvas_id) REFERENCES canvases(id) ON DELETE CASCADE,
         FOREIGN KEY (asset_id) REFERENCES media_library(id) ON DELETE SET NULL,
         FOREIGN KEY (act_id) REFERENCES fractal_containers(id) ON DELETE SET NULL,
         FOREIGN KEY (scene_id) REFERENCES fractal_containers(id) ON DELETE SET NULL,
@@ -222,6 +247,8 @@ export class StoryGraphDatabase {
         member_media_id TEXT NOT NULL,
         angle_label TEXT NOT NULL,
         sync_offset REAL DEFAULT 0,
+        sync_method TEXT,
+        sync_confidence REAL,
         audio_channel_map TEXT,
         PRIMARY KEY (multicam_media_id, member_media_id),
         FOREIGN KEY(multicam_media_id) REFERENCES media_library(id) ON DELETE CASCADE,
@@ -239,14 +266,185 @@ export class StoryGraphDatabase {
         render_preview_path TEXT,
         proxy_mode_enabled INTEGER DEFAULT 0,
         last_canvas_id TEXT,
+        transcription_engine_path TEXT,
+        transcription_model_path TEXT,
+        transcription_language TEXT,
         FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
         FOREIGN KEY (last_canvas_id) REFERENCES canvases(id) ON DELETE SET NULL
       );
     `);
 
+    // ========================================================================
+    // TABLE 9: jobs
+    // Persistent background queue (import, probe, proxy, thumbnail, ...)
+    // ========================================================================
+    this.createJobsTable();
+
+    // ========================================================================
+    // TABLE 10: transcript_search
+    // FTS5 index of transcript passages (runs of words from the word map)
+    // ========================================================================
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS transcript_search USING fts5(
+        text,
+        media_id UNINDEXED,
+        speaker UNINDEXED,
+        first_word UNINDEXED,
+        last_word UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS trg_transcripts_search_delete AFTER DELETE ON transcripts
+      BEGIN
+        DELETE FROM transcript_search WHERE media_id = old.media_id;
+      END;
+    `);
+
+    // ========================================================================
+    // TABLE 11: transcript_revisions
+    // Snapshot of a word map after every import, transcription or correction
+    // ========================================================================
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS transcript_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        media_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        source_type TEXT NOT NULL,
+        note TEXT,
+        word_map_json TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch()),
+        FOREIGN KEY(media_id) REFERENCES media_library(id) ON DELETE CASCADE,
+        UNIQUE(media_id, revision)
+      );
+    `);
+
+    // ========================================================================
+    // TABLE 12: speaker_names
+    // Project-wide display names for transcript speaker labels; several labels
+    // sharing a name are one (merged) speaker
+    // ========================================================================
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS speaker_names (
+        project_id TEXT NOT NULL,
+        label TEXT NOT NULL,
+        name TEXT NOT NULL,
+        PRIMARY KEY(project_id, label),
+        FOREIGN KEY(project_id) REFERENCES projects(id) ON DELETE CASCADE
+      );
+    `);
+
     console.log('All tables created successfully');
   }
 
+  // The CHECK on type lists every job type, so adding one rebuilds the table
+  // (see migrateSchema)
+  private createJobsTable() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        project_id TEXT,
+        type TEXT CHECK(type IN ('import', 'probe', 'proxy', 'thumbnail', 'waveform', 'transcript', 'multicam-sync')) NOT NULL,
+        status TEXT CHECK(status IN ('queued', 'running', 'done', 'failed', 'cancelled')) NOT NULL DEFAULT 'queued',
+        payload TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        progress REAL NOT NULL DEFAULT 0,
+        message TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_jobs_project ON jobs(project_id);
+    `);
+  }
+
+  // ========================================================================
+  // SCHEMA MIGRATIONS
+  // Additive column changes for databases created before a column existed
+  // ========================================================================
+  private migrateSchema() {
+    // story_nodes.canvas_id: scopes nodes to a canvas (flattening & export)
+    this.addColumnIfMissing('story_nodes', 'canvas_id', 'TEXT REFERENCES canvases(id) ON DELETE CASCADE');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_node_canvas ON story_nodes(canvas_id);');
+
+    // media_library.proxy_path: lightweight transcode used when proxy mode is on
+    this.addColumnIfMissing('media_library', 'proxy_path', 'TEXT');
+
+    // media_library technical metadata: queryable codec, color, audio layout and
+    // camera/reel columns (filled at import; re-probe older assets to populate)
+    const probedColumns: Array<[string, string]> = [
+      ['video_codec', 'TEXT'],
+      ['pixel_format', 'TEXT'],
+      ['bit_depth', 'INTEGER'],
+      ['color_space', 'TEXT'],
+      ['color_transfer', 'TEXT'],
+      ['color_primaries', 'TEXT'],
+      ['pixel_aspect', 'TEXT'],
+      ['rotation', 'INTEGER'],
+      ['audio_codec', 'TEXT'],
+      ['audio_channels', 'INTEGER'],
+      ['audio_channel_layout', 'TEXT'],
+      ['audio_sample_rate', 'INTEGER'],
+      ['audio_streams', 'TEXT'],
+      ['creation_date', 'TEXT'],
+      ['camera_make', 'TEXT'],
+      ['camera_model', 'TEXT'],
+      ['reel_name', 'TEXT'],
+    ];
+    for (const [column, definition] of probedColumns) {
+      this.addColumnIfMissing('media_library', column, definition);
+    }
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_media_video_codec ON media_library(video_codec);
+      CREATE INDEX IF NOT EXISTS idx_media_reel ON media_library(reel_name);
+      CREATE INDEX IF NOT EXISTS idx_media_camera ON media_library(camera_model);
+    `);
+
+    // project_settings transcription engine: local command-line engine per machine
+    this.addColumnIfMissing('project_settings', 'transcription_engine_path', 'TEXT');
+    this.addColumnIfMissing('project_settings', 'transcription_model_path', 'TEXT');
+    this.addColumnIfMissing('project_settings', 'transcription_language', 'TEXT');
+
+    // transcripts.sync_offset_frames: nudge for transcripts of separately recorded audio
+    this.addColumnIfMissing('transcripts', 'sync_offset_frames', 'INTEGER NOT NULL DEFAULT 0');
+
+    // multicam_members sync result: how each angle's offset was found and how sure it is
+    this.addColumnIfMissing('multicam_members', 'sync_method', 'TEXT');
+    this.addColumnIfMissing('multicam_members', 'sync_confidence', 'REAL');
+
+    // jobs.type: 'multicam-sync' added; SQLite cannot alter a CHECK, so copy into a new table
+    const jobsTable = this.db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'jobs'").get() as
+      | { sql: string }
+      | undefined;
+    if (jobsTable && !jobsTable.sql.includes("'multicam-sync'")) {
+      this.db.transaction(() => {
+        this.db.exec(`
+          DROP INDEX IF EXISTS idx_jobs_status;
+          DROP INDEX IF EXISTS idx_jobs_project;
+          ALTER TABLE jobs RENAME TO jobs_old;
+        `);
+        this.createJobsTable();
+        this.db.exec(`
+          INSERT INTO jobs SELECT * FROM jobs_old;
+          DROP TABLE jobs_old;
+        `);
+      })();
+      console.log('Schema migrated: jobs.type accepts multicam-sync');
+    }
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const columns = this.db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`Schema migrated: ${table}.${column} added`);
+    }
+  }
+
   // ========================================================================
   // BACKUP SYSTEM
   // Auto-backup every 15 minutes, keep last 10 backups
@@ -298,6 +496,20 @@ export class StoryGraphDatabase {
     });
   }
 
+  // ========================================================================
+  // MEDIA CACHE
+  // Derived media (proxies, thumbnails, waveforms) lives beside the databases
+  // ========================================================================
+  getCacheDir(kind: string): string {
+    const cacheDir = path.join(path.dirname(path.dirname(this.dbPath)), 'cache', kind);
+
+    if (!fs.existsSync(cacheDir)) {
+      fs.mkdirSync(cacheDir, { recursive: true });
+    }
+
+    return cacheDir;
+  }
+
   listBackups(): string[] {
     const backupDir = path.join(path.dirname(this.dbPath), 'backups');
 
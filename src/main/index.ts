@@ -6,6 +6,7 @@
 import { app, BrowserWindow } from 'electron';
 import path from 'path';
 import { initializeDatabase, registerIpcHandlers } from './ipc/handlers';
+import { registerMediaScheme, registerMediaProtocol } from './protocol';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -47,6 +48,9 @@ function createWindow() {
 // APP LIFECYCLE
 // ============================================================================
 
+// media:// must be privileged before the app is ready
+registerMediaScheme();
+
 app.whenReady().then(() => {
   // Initialize database
   const db = initializeDatabase('default');
@@ -60,6 +64,7 @@ app.whenReady().then(() => {
 
   // Register IPC handlers
   registerIpcHandlers();
+  registerMediaProtocol();
 
   // Create main window
   createWindow();
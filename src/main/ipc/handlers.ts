@@ -3,18 +3,50 @@
  * Main process handlers for all IPC channels
  */
 
-import { ipcMain, dialog } from 'electron';
+import { ipcMain, dialog, BrowserWindow } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
-import type { Project, Canvas, StoryNode, MediaAsset, ConnectionMode, FractalContainer } from '../../shared/types';
+import type { Project, ProjectSettings, ProxyCodec, ThumbnailRequest, Job, Canvas, StoryNode, MediaAsset, ConnectionMode, FractalContainer, TranscriptEdit } from '../../shared/types';
 import StoryGraphDatabase from '../database/schema';
-import { extractMetadata, isSupportedMediaFile, generateCleanName, calculateEndTimecode } from '../services/ffmpeg';
 import {
   validateAnchorChain,
   validateSemanticRules,
 } from '../services/topology';
-import { importTranscript, getTranscriptForNode } from '../services/transcriptService';
-import { parseMulticamXml } from '../services/multicamService';
-import { generateFCPXML } from '../services/exportService';
+import {
+  importTranscript,
+  getTranscriptForNode,
+  getTranscriptForAsset,
+  editTranscript,
+  listTranscriptRevisions,
+  restoreTranscriptRevision,
+  setTranscriptSyncOffset,
+} from '../services/transcriptService';
+import { transcribeAsset, getTranscriptionEngine } from '../services/transcriptionService';
+import { searchTranscripts, indexMissingTranscripts } from '../services/transcriptSearchService';
+import { listProjectSpeakers, setSpeakerName } from '../services/speakerService';
+import { parseMulticamXml, getMulticamAngles, createMulticamFromAssets } from '../services/multicamService';
+import { syncMulticamAngles, setAngleSyncOffset } from '../services/multicamSyncService';
+import { generateFCPXML, parseMediaFlags } from '../services/exportService';
+import { generateEDL } from '../services/edlService';
+import { generateXMEML } from '../services/xmemlService';
+import { generateOTIO, importOTIO } from '../services/otioService';
+import { importPaperEdit } from '../services/paperEditService';
+import { generateSRT, generateWebVTT, generatePaperEdit } from '../services/captionService';
+import { validateGraphForExport } from '../services/validationService';
+import { renderRoughCut } from '../services/renderService';
+import { generateProxyForAsset, getAssetsMissingProxies, needsProxy } from '../services/proxyService';
+import { importMediaFile, probeAsset } from '../services/importService';
+import { extractThumbnail, findCachedThumbnail } from '../services/thumbnailService';
+import { extractWaveform, readWaveform } from '../services/waveformService';
+import {
+  registerJobHandler,
+  startJobQueue,
+  enqueueJob,
+  cancelJob,
+  retryJob,
+  listJobs,
+  clearFinishedJobs,
+} from '../services/jobService';
+import { flattenGraph, getCanvasNodes } from '../services/flattenService';
 import {
   executeCommand,
   undo,
@@ -27,10 +59,67 @@ import {
   unlinkNodeCommand,
 } from '../services/historyService';
 import fs from 'fs/promises';
-import path from 'path';
+import { existsSync } from 'fs';
 
 let db: StoryGraphDatabase | null = null;
 
+// Jobs outlive the request that queued them, so their events go to every window
+const broadcastJob = (channel: 'job:progress' | 'job:done', job: Job) => {
+  BrowserWindow.getAllWindows().forEach(window => {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send(channel, job);
+    }
+  });
+};
+
+// One proxy job per asset with picture; already-queued assets are skipped
+const queueProxyJobs = (db: StoryGraphDatabase, assetIds: string[], codec: ProxyCodec): number => {
+  let queued = 0;
+  assetIds.forEach(assetId => {
+    const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+    if (!asset || !needsProxy(asset)) return;
+    enqueueJob(db, 'proxy', { assetId, codec }, { projectId: asset.project_id, unique: true });
+    queued++;
+  });
+  return queued;
+};
+
+// One transcription job per DIALOGUE asset; already-queued assets are skipped
+const queueTranscriptionJobs = (db: StoryGraphDatabase, assetIds: string[]): number => {
+  let queued = 0;
+  assetIds.forEach(assetId => {
+    const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+    if (!asset || asset.media_type !== 'DIALOGUE') return;
+    enqueueJob(db, 'transcript', { assetId }, { projectId: asset.project_id, unique: true, maxAttempts: 1 });
+    queued++;
+  });
+  return queued;
+};
+
+// Assets imported before codec/colour/audio columns existed have them all
+// NULL; re-probe those that are online. Already-queued assets are skipped
+const queueProbeJobs = (db: StoryGraphDatabase, projectId: string): number => {
+  const assets: MediaAsset[] = db.query(
+    `SELECT * FROM media_library
+     WHERE project_id = ? AND media_type != 'MULTICAM' AND file_path != ''
+       AND video_codec IS NULL AND audio_codec IS NULL`,
+    [projectId]
+  );
+  const online = assets.filter(asset => existsSync(asset.file_path));
+  online.forEach(asset => {
+    enqueueJob(db, 'probe', { assetId: asset.id }, { projectId, unique: true, maxAttempts: 1 });
+  });
+  return online.length;
+};
+
+// Angle sync for a multicam clip; a clip already queued is not queued twice.
+// Offsets set by hand are kept unless resync asks for every angle again.
+const queueMulticamSync = (db: StoryGraphDatabase, multicamMediaId: string, resync = false): Job => {
+  const multicam = db.query('SELECT project_id FROM media_library WHERE id = ?', [multicamMediaId])[0];
+  const payload = resync ? { multicamMediaId, resync } : { multicamMediaId };
+  return enqueueJob(db, 'multicam-sync', payload, { projectId: multicam?.project_id ?? null, unique: true, maxAttempts: 1 });
+};
+
 export function initializeDatabase(projectName: string = 'default') {
   db = new StoryGraphDatabase(projectName);
   return db;
@@ -53,9 +142,188 @@ export function registerIpcHandlers() {
   // ===========================================================================
   // EXPORT OPERATIONS
   // ===========================================================================
-  ipcMain.handle('export:generate-fcpxml', async (_event, projectId: string, filePath: string) => {
+  ipcMain.handle('export:validate', async (_event, canvasId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return validateGraphForExport(db, canvasId);
+  });
+
+  ipcMain.handle('export:generate-fcpxml', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateFCPXML(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('export:generate-edl', async (_event, canvasId: string, folderPath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateEDL(db, canvasId, folderPath);
+  });
+
+  ipcMain.handle('export:generate-xmeml', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateXMEML(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('export:generate-otio', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateOTIO(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('export:generate-srt', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateSRT(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('export:generate-vtt', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generateWebVTT(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('export:generate-paper-edit', async (_event, canvasId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return generatePaperEdit(db, canvasId, filePath);
+  });
+
+  ipcMain.handle('import:otio', async (_event, projectId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return importOTIO(db, projectId, filePath);
+  });
+
+  ipcMain.handle('import:paper-edit', async (_event, projectId: string, filePath: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return importPaperEdit(db, projectId, filePath);
+  });
+
+  // ===========================================================================
+  // RENDER OPERATIONS
+  // ===========================================================================
+  ipcMain.handle('render:rough-cut', async (event, canvasId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return renderRoughCut(db, canvasId, progress => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('render:progress', progress);
+      }
+    });
+  });
+
+  // ===========================================================================
+  // PROXY OPERATIONS
+  // ===========================================================================
+  ipcMain.handle('proxy:generate', async (_event, assetIds: string[], codec: ProxyCodec = 'h264') => {
+    if (!db) throw new Error('Database not initialized');
+    return { queued: queueProxyJobs(db, assetIds, codec) };
+  });
+
+  ipcMain.handle('proxy:generate-missing', async (_event, projectId: string, codec: ProxyCodec = 'h264') => {
+    if (!db) throw new Error('Database not initialized');
+    return { queued: queueProxyJobs(db, getAssetsMissingProxies(db, projectId), codec) };
+  });
+
+  // ===========================================================================
+  // THUMBNAIL OPERATIONS
+  // ===========================================================================
+  // Cached thumbnails come back immediately; anything else is queued and
+  // arrives on job:done with { url } as the result
+  ipcMain.handle('thumbnail:get', async (_event, request: ThumbnailRequest) => {
+    if (!db) throw new Error('Database not initialized');
+
+    const url = findCachedThumbnail(db, request);
+    if (url) return { url };
+
+    const asset = db.query('SELECT project_id FROM media_library WHERE id = ?', [request.assetId])[0];
+    if (!asset) return { url: null };
+
+    const job = enqueueJob(db, 'thumbnail', request, { projectId: asset.project_id, unique: true, maxAttempts: 1 });
+    return { url: null, jobId: job.id };
+  });
+
+  // ===========================================================================
+  // WAVEFORM OPERATIONS
+  // ===========================================================================
+  // Same contract as thumbnails: cached peaks now, otherwise a job to wait on
+  ipcMain.handle('waveform:get', async (_event, assetId: string) => {
+    if (!db) throw new Error('Database not initialized');
+
+    const waveform = readWaveform(db, assetId);
+    if (waveform) return { waveform };
+
+    const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+    if (!asset || !parseMediaFlags(asset).hasAudio) return { waveform: null };
+
+    const job = enqueueJob(db, 'waveform', { assetId }, { projectId: asset.project_id, unique: true, maxAttempts: 1 });
+    return { waveform: null, jobId: job.id };
+  });
+
+  // ===========================================================================
+  // JOB OPERATIONS
+  // ===========================================================================
+  registerJobHandler('import', async (db, job) => {
+    const asset = await importMediaFile(db, job.payload.projectId, job.payload.filePath);
+
+    enqueueJob(db, 'thumbnail', { assetId: asset.id, kind: 'poster' }, { projectId: asset.project_id, unique: true });
+    if (parseMediaFlags(asset).hasAudio) {
+      enqueueJob(db, 'waveform', { assetId: asset.id }, { projectId: asset.project_id, unique: true });
+    }
+
+    // Projects in proxy mode get proxies for new media straight away
+    const settings = db.query('SELECT proxy_mode_enabled FROM project_settings WHERE project_id = ?', [asset.project_id])[0];
+    if (settings?.proxy_mode_enabled) {
+      queueProxyJobs(db, [asset.id], 'h264');
+    }
+
+    return asset;
+  });
+
+  registerJobHandler('probe', async (db, job) => probeAsset(db, job.payload.assetId));
+
+  registerJobHandler('proxy', async (db, job, { signal, reportProgress }) =>
+    generateProxyForAsset(db, job.payload.assetId, job.payload.codec, reportProgress, signal)
+  );
+
+  registerJobHandler('thumbnail', async (db, job, { signal }) =>
+    extractThumbnail(db, job.payload as ThumbnailRequest, signal)
+  );
+
+  registerJobHandler('waveform', async (db, job, { signal, reportProgress }) =>
+    extractWaveform(db, job.payload.assetId, reportProgress, signal)
+  );
+
+  registerJobHandler('transcript', async (db, job, { signal, reportProgress }) =>
+    transcribeAsset(db, job.payload.assetId, reportProgress, signal)
+  );
+
+  registerJobHandler('multicam-sync', async (db, job, { signal, reportProgress }) =>
+    syncMulticamAngles(db, job.payload.multicamMediaId, reportProgress, signal, { resync: !!job.payload.resync })
+  );
+
+  ipcMain.handle('job:list', async (_event, projectId?: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return listJobs(db, projectId);
+  });
+
+  ipcMain.handle('job:cancel', async (_event, jobId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    cancelJob(db, jobId);
+  });
+
+  ipcMain.handle('job:retry', async (_event, jobId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    retryJob(db, jobId);
+  });
+
+  ipcMain.handle('job:clear-finished', async (_event, projectId?: string) => {
+    if (!db) throw new Error('Database not initialized');
+    clearFinishedJobs(db, projectId);
+  });
+
+  if (db) {
+    startJobQueue(db, broadcastJob);
+  }
+
+  // ===========================================================================
+  // TIMELINE OPERATIONS
+  // ===========================================================================
+  ipcMain.handle('timeline:flatten', async (_event, canvasId: string) => {
     if (!db) throw new Error('Database not initialized');
-    return generateFCPXML(db, projectId, filePath);
+    return flattenGraph(db, canvasId);
   });
 
   // ===========================================================================
@@ -64,14 +332,41 @@ export function registerIpcHandlers() {
   ipcMain.handle('multicam:import-xml', async (_event, filePath: string) => {
     if (!db) throw new Error('Database not initialized');
     const xmlContent = await fs.readFile(filePath, 'utf-8');
-    return parseMulticamXml(db, xmlContent);
+    const result = await parseMulticamXml(db, xmlContent);
+    result.multicamIds.forEach(multicamId => queueMulticamSync(db!, multicamId));
+    return result;
   });
 
+  ipcMain.handle(
+    'multicam:create',
+    async (_event, projectId: string, name: string, angles: Array<{ mediaId: string; label: string; syncOffset?: number }>) => {
+      if (!db) throw new Error('Database not initialized');
+      const multicamId = createMulticamFromAssets(db, projectId, name, angles);
+      const job = angles.some(angle => angle.syncOffset === undefined) ? queueMulticamSync(db, multicamId) : undefined;
+      return { multicamId, jobId: job?.id };
+    }
+  );
+
   ipcMain.handle('multicam:get-members', async (_event, multicamMediaId: string) => {
     if (!db) throw new Error('Database not initialized');
-    return db.query('SELECT * FROM multicam_members WHERE multicam_media_id = ?', [multicamMediaId]);
+    return getMulticamAngles(db, multicamMediaId);
+  });
+
+  // Timecode first, audio for the rest; runs as a job (progress via job events).
+  // An explicit re-sync replaces offsets set by hand too
+  ipcMain.handle('multicam:sync', async (_event, multicamMediaId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return queueMulticamSync(db, multicamMediaId, true);
   });
 
+  ipcMain.handle(
+    'multicam:set-sync-offset',
+    async (_event, multicamMediaId: string, memberMediaId: string, syncOffset: number) => {
+      if (!db) throw new Error('Database not initialized');
+      return setAngleSyncOffset(db, multicamMediaId, memberMediaId, syncOffset);
+    }
+  );
+
   ipcMain.handle('node:set-angle', async (_event, nodeId: string, memberMediaId: string) => {
     if (!db) throw new Error('Database not initialized');
     db.execute(
@@ -83,9 +378,9 @@ export function registerIpcHandlers() {
   // ===========================================================================
   // TRANSCRIPT OPERATIONS
   // ===========================================================================
-  ipcMain.handle('transcript:import', async (_event, mediaId: string, filePath: string) => {
+  ipcMain.handle('transcript:import', async (_event, mediaId: string, filePath: string, overwriteEdits?: boolean) => {
     if (!db) throw new Error('Database not initialized');
-    return importTranscript(db, mediaId, filePath);
+    return importTranscript(db, mediaId, filePath, overwriteEdits);
   });
 
   ipcMain.handle('transcript:get-for-node', async (_event, nodeId: string) => {
@@ -93,6 +388,64 @@ export function registerIpcHandlers() {
     return getTranscriptForNode(db, nodeId);
   });
 
+  ipcMain.handle('transcript:get-for-asset', async (_event, mediaId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return getTranscriptForAsset(db, mediaId);
+  });
+
+  ipcMain.handle('transcript:edit', async (_event, mediaId: string, edit: TranscriptEdit) => {
+    if (!db) throw new Error('Database not initialized');
+    return editTranscript(db, mediaId, edit);
+  });
+
+  ipcMain.handle('transcript:list-revisions', async (_event, mediaId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return listTranscriptRevisions(db, mediaId);
+  });
+
+  ipcMain.handle('transcript:restore-revision', async (_event, mediaId: string, revisionId: number) => {
+    if (!db) throw new Error('Database not initialized');
+    return restoreTranscriptRevision(db, mediaId, revisionId);
+  });
+
+  ipcMain.handle('transcript:set-sync-offset', async (_event, mediaId: string, offsetFrames: number) => {
+    if (!db) throw new Error('Database not initialized');
+    return setTranscriptSyncOffset(db, mediaId, offsetFrames);
+  });
+
+  // Fails fast when the project has no engine, rather than queueing jobs that will
+  ipcMain.handle('transcript:transcribe', async (_event, projectId: string, assetIds: string[]) => {
+    if (!db) throw new Error('Database not initialized');
+    try {
+      getTranscriptionEngine(db, projectId);
+    } catch (error) {
+      return { queued: 0, error: (error as Error).message };
+    }
+    return { queued: queueTranscriptionJobs(db, assetIds) };
+  });
+
+  ipcMain.handle(
+    'transcript:search',
+    async (_event, projectId: string, query: string, options?: { speaker?: string; limit?: number }) => {
+      if (!db) throw new Error('Database not initialized');
+      return searchTranscripts(db, projectId, query, options);
+    }
+  );
+
+  ipcMain.handle('transcript:list-speakers', async (_event, projectId: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return listProjectSpeakers(db, projectId);
+  });
+
+  ipcMain.handle('transcript:set-speaker-name', async (_event, projectId: string, labels: string[], name: string) => {
+    if (!db) throw new Error('Database not initialized');
+    return setSpeakerName(db, projectId, labels, name);
+  });
+
+  if (db) {
+    indexMissingTranscripts(db);
+  }
+
   // ===========================================================================
   // FILE OPERATIONS
   // ===========================================================================
@@ -108,6 +461,15 @@ export function registerIpcHandlers() {
     return result.canceled ? [] : result.filePaths;
   });
 
+  ipcMain.handle('select-file', async (_event, filters?: Array<{ name: string; extensions: string[] }>) => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: filters || [{ name: 'All Files', extensions: ['*'] }],
+    });
+
+    return result.canceled ? null : result.filePaths[0];
+  });
+
   ipcMain.handle('select-folder', async () => {
     const result = await dialog.showOpenDialog({
       properties: ['openDirectory'],
@@ -177,11 +539,18 @@ export function registerIpcHandlers() {
     return project;
   });
 
+  // Opening a project also brings older assets' probe metadata up to date
   ipcMain.handle('project-get', async (_event, id: string) => {
     if (!db) throw new Error('Database not initialized');
 
     const results = db.query('SELECT * FROM projects WHERE id = ?', [id]);
-    return results.length > 0 ? results[0] : null;
+    if (results.length === 0) return null;
+
+    const queued = queueProbeJobs(db, id);
+    if (queued > 0) {
+      console.log(`[Media Import] Queued re-probe of ${queued} assets missing codec metadata`);
+    }
+    return results[0];
   });
 
   ipcMain.handle('project-list', async () => {
@@ -234,131 +603,57 @@ export function registerIpcHandlers() {
     console.log(`Project deleted: ${id}`);
   });
 
-  // ===========================================================================
-  // MEDIA OPERATIONS
-  // ===========================================================================
-  ipcMain.handle('media-import', async (_event, projectId: string, filePaths: string[]) => {
+  ipcMain.handle('project-settings-get', async (_event, projectId: string) => {
     if (!db) throw new Error('Database not initialized');
 
-    console.log('[Media Import] Starting import for', filePaths.length, 'files');
-
-    const importedAssets: MediaAsset[] = [];
-    const errors: Array<{ file: string; error: string }> = [];
-
-    for (const filePath of filePaths) {
-      try {
-        // Validate file is supported
-        if (!isSupportedMediaFile(filePath)) {
-          console.warn(`[Media Import] Unsupported file type: ${filePath}`);
-          errors.push({ file: filePath, error: 'Unsupported file type' });
-          continue;
-        }
+    const settings = db.query('SELECT * FROM project_settings WHERE project_id = ?', [projectId])[0];
+    if (!settings) return null;
+    return { ...settings, proxy_mode_enabled: !!settings.proxy_mode_enabled } as ProjectSettings;
+  });
 
-        // Extract forensic metadata via FFprobe
-        const metadata = await extractMetadata(filePath);
-
-        // Generate IDs and names
-        const id = uuidv4();
-        const fileName = path.basename(filePath);
-        const cleanName = generateCleanName(fileName);
-        const format = path.extname(filePath).toLowerCase().replace('.', '');
-
-        // Determine media type based on metadata
-        let media_type: 'BROLL' | 'DIALOGUE' | 'MUSIC' | 'IMAGE' | 'MULTICAM' = 'BROLL';
-        if (!metadata.has_video && metadata.has_audio) {
-          media_type = 'MUSIC'; // Audio-only defaults to MUSIC
-        } else if (metadata.has_video && !metadata.has_audio) {
-          media_type = 'BROLL'; // Video-only (B-Roll)
-        } else if (metadata.width === 0 && metadata.height === 0) {
-          media_type = 'IMAGE'; // Image file
-        }
-        // DIALOGUE and MULTICAM types will be set manually by user later
-
-        // Use total_frames from FFprobe if available, otherwise calculate
-        const total_frames = metadata.total_frames ||
-          (metadata.duration > 0 && metadata.fps > 0
-            ? Math.floor(metadata.duration * metadata.fps)
-            : null);
-
-        // Extract start timecode and calculate end timecode
-        const start_tc = metadata.timecode_start;
-        const end_tc = start_tc && metadata.fps > 0
-          ? calculateEndTimecode(start_tc, metadata.duration, metadata.fps)
-          : null;
-
-        // Create MediaAsset object
-        const asset: MediaAsset = {
-          id,
-          project_id: projectId,
-          file_name: fileName,
-          clean_name: cleanName,
-          file_path: filePath,
-          format,
-          media_type,
-          fps: metadata.fps || null,
-          resolution: metadata.resolution,
-          start_tc,
-          end_tc,
-          total_frames,
-          duration: metadata.duration,
-          size: metadata.file_size,
-          metadata_raw: JSON.stringify({
-            mime_type: metadata.mime_type,
-            has_video: metadata.has_video,
-            has_audio: metadata.has_audio,
-            width: metadata.width,
-            height: metadata.height,
-            timecode_start: metadata.timecode_start,
-            total_frames: metadata.total_frames,
-          }),
-          created_at: new Date().toISOString(),
-        };
+  ipcMain.handle('project-settings-update', async (_event, projectId: string, updates: Partial<ProjectSettings>) => {
+    if (!db) throw new Error('Database not initialized');
 
-        // Insert into database
-        db.execute(
-          `INSERT INTO media_library (
-            id, project_id, file_name, clean_name, file_path, format, media_type,
-            fps, resolution, start_tc, end_tc, total_frames, duration, size, metadata_raw, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            asset.id,
-            asset.project_id,
-            asset.file_name,
-            asset.clean_name,
-            asset.file_path,
-            asset.format,
-            asset.media_type,
-            asset.fps,
-            asset.resolution,
-            asset.start_tc,
-            asset.end_tc,
-            asset.total_frames,
-            asset.duration,
-            asset.size,
-            asset.metadata_raw,
-            asset.created_at,
-          ]
-        );
+    // Older projects may predate their settings row
+    db.execute('INSERT OR IGNORE INTO project_settings (project_id, proxy_mode_enabled) VALUES (?, 0)', [projectId]);
 
-        importedAssets.push(asset);
+    const fields: string[] = [];
+    const values: any[] = [];
 
-        console.log(`[Media Import] ✓ Imported: ${cleanName} (${metadata.resolution} @ ${metadata.fps}fps)`);
-      } catch (error) {
-        console.error(`[Media Import] ✗ Failed to import ${filePath}:`, error);
-        errors.push({
-          file: filePath,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+    if (updates.render_preview_path !== undefined) {
+      fields.push('render_preview_path = ?');
+      values.push(updates.render_preview_path || null);
+    }
+    if (updates.proxy_mode_enabled !== undefined) {
+      fields.push('proxy_mode_enabled = ?');
+      values.push(updates.proxy_mode_enabled ? 1 : 0);
+    }
+    if (updates.last_canvas_id !== undefined) {
+      fields.push('last_canvas_id = ?');
+      values.push(updates.last_canvas_id || null);
+    }
+    for (const key of ['transcription_engine_path', 'transcription_model_path', 'transcription_language'] as const) {
+      if (updates[key] !== undefined) {
+        fields.push(`${key} = ?`);
+        values.push(updates[key] || null);
       }
     }
 
-    console.log(`[Media Import] Complete: ${importedAssets.length} imported, ${errors.length} failed`);
-
-    if (errors.length > 0) {
-      console.warn('[Media Import] Errors:', errors);
+    if (fields.length > 0) {
+      values.push(projectId);
+      db.execute(`UPDATE project_settings SET ${fields.join(', ')} WHERE project_id = ?`, values);
     }
+  });
 
-    return importedAssets;
+  // ===========================================================================
+  // MEDIA OPERATIONS
+  // ===========================================================================
+  // Each file is probed and inserted by its own import job; results arrive on job:done
+  ipcMain.handle('media-import', async (_event, projectId: string, filePaths: string[]) => {
+    if (!db) throw new Error('Database not initialized');
+
+    console.log('[Media Import] Queueing import for', filePaths.length, 'files');
+    return filePaths.map(filePath => enqueueJob(db!, 'import', { projectId, filePath }, { projectId, maxAttempts: 2 }));
   });
 
   // Get all media assets for a project
@@ -480,8 +775,6 @@ export function registerIpcHandlers() {
   ipcMain.handle('node-create', async (_event, canvasId: string, nodeData: Omit<StoryNode, 'id'>) => {
     if (!db) throw new Error('Database not initialized');
 
-    // Note: canvasId is passed for future use (Phase 5: Containers)
-    // For now, nodes aren't directly linked to canvas, but to containers
     console.log(`[Node Create] Creating node for canvas: ${canvasId}`);
 
     const id = uuidv4();
@@ -489,6 +782,7 @@ export function registerIpcHandlers() {
     const node: StoryNode = {
       id,
       ...nodeData,
+      canvas_id: canvasId,
     };
 
     await executeCommand(db, createNodeCommand(node));
@@ -618,21 +912,9 @@ export function registerIpcHandlers() {
   ipcMain.handle('node-list', async (_event, canvasId: string) => {
     if (!db) throw new Error('Database not initialized');
 
-    // Phase 3: Get all nodes for this canvas
-    // For now, we get:
-    // 1. Global nodes (is_global = 1) - nodes in "The Bucket"
-    // 2. Nodes linked to containers on this canvas
-    // 3. Nodes without containers (phase 3 nodes) - we'll add a canvas_id field later
-    //
-    // TEMPORARY SOLUTION: Return all nodes for now since we haven't added canvas_id to story_nodes yet
-    // In Phase 5 (Containers), we'll fix this query to properly filter by canvas
-
-    const nodes = db.query(
-      `SELECT sn.* FROM story_nodes sn
-       LEFT JOIN fractal_containers fc ON sn.scene_id = fc.id OR sn.act_id = fc.id
-       WHERE fc.canvas_id = ? OR sn.is_global = 1 OR (sn.act_id IS NULL AND sn.scene_id IS NULL)`,
-      [canvasId]
-    );
+    // Nodes are scoped by canvas_id, bucket nodes by project; legacy nodes
+    // without a canvas fall back to container membership (see getCanvasNodes)
+    const nodes = getCanvasNodes(db, canvasId);
 
     console.log(`[Node List] Found ${nodes.length} nodes for canvas ${canvasId}`);
     return nodes;
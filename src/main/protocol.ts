@@ -0,0 +1,58 @@
+/**
+ * Media Protocol
+ * Streams library media to the renderer without exposing file:// URLs
+ *
+ *   media://asset/<assetId>?proxy=1   → proxy if generated, else original
+ *   media://asset/<assetId>?proxy=0   → camera original
+ *   media://thumbnail/<assetId>/<file> → cached poster or filmstrip
+ */
+
+import { protocol, net } from 'electron';
+import { pathToFileURL } from 'url';
+import path from 'path';
+import { getDatabaseInstance } from './ipc/handlers';
+import { resolvePlaybackPath } from './services/proxyService';
+
+export const MEDIA_SCHEME = 'media';
+
+/**
+ * Must run before app 'ready'
+ */
+export function registerMediaScheme() {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: MEDIA_SCHEME,
+      privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true, bypassCSP: true },
+    },
+  ]);
+}
+
+export function registerMediaProtocol() {
+  protocol.handle(MEDIA_SCHEME, request => {
+    const db = getDatabaseInstance();
+    if (!db) return new Response('Database not initialized', { status: 503 });
+
+    const url = new URL(request.url);
+
+    if (url.hostname === 'thumbnail') {
+      // Only plain file names inside the thumbnail cache are served
+      const [assetId, fileName] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+      if (!assetId || !fileName || path.basename(assetId) !== assetId || path.basename(fileName) !== fileName) {
+        return new Response('Not found', { status: 404 });
+      }
+      const filePath = path.join(db.getCacheDir('thumbnails'), assetId, fileName);
+      return net.fetch(pathToFileURL(filePath).toString());
+    }
+
+    const assetId = decodeURIComponent(url.pathname.replace(/^\//, ''));
+    if (url.hostname !== 'asset' || !assetId) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const filePath = resolvePlaybackPath(db, assetId, url.searchParams.get('proxy') === '1');
+    if (!filePath) return new Response('Not found', { status: 404 });
+
+    // Forward Range headers so <video> can seek
+    return net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers });
+  });
+}
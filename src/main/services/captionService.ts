@@ -0,0 +1,300 @@
+/**
+ * Caption Service
+ * SRT / WebVTT captions and a paper-edit script for the assembled cut
+ * Phase 9: Export & Flattening
+ *
+ * Each placed clip contributes the words of its asset's transcript that fall
+ * between clip_in and clip_out, moved to the clip's record position. Clips
+ * without a transcript (B-roll, music) contribute nothing.
+ */
+
+import fs from 'fs/promises';
+import StoryGraphDatabase from '../database/schema';
+import { Canvas, FlattenedClip, MediaAsset, StoryNode, WordToken } from '../../shared/types';
+import { loadCanvasTimeline } from './flattenService';
+import { convertWordMapFPS, loadWordMap } from './wordMapService';
+import {
+  FrameRate,
+  toFrameRate,
+  framesToSeconds,
+  secondsToFrames,
+  framesToTimecode,
+  secondsToTimecode,
+  timecodeToFrames,
+  supportsDropFrame,
+  isDropFrameTimecode,
+  withTimecodeNotation,
+} from '../../shared/timecode';
+
+// Record timecode of the first frame, as in the EDL and XML exports
+const RECORD_START_TC = '01:00:00:00';
+
+// Broadcast-style caption limits
+const CUE_MAX_LINE_CHARS = 42;
+const CUE_MAX_LINES = 2;
+const CUE_MAX_DURATION = 7; // Seconds
+const CUE_MAX_GAP = 1; // Seconds of silence that end a cue
+
+interface RecordWord {
+  text: string;
+  start: number; // Record seconds from the start of the cut
+  end: number;
+  speaker?: string;
+  clipIndex: number;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker?: string;
+  lines: string[];
+}
+
+interface CutTranscript {
+  canvas: Canvas;
+  rate: FrameRate;
+  dropFrame: boolean;
+  clips: Array<{ clip: FlattenedClip; node: StoryNode; asset: MediaAsset; words: RecordWord[] }>;
+}
+
+/**
+ * Transcript words of every placed clip, on the record timeline
+ * Word maps are converted to canvas frames (sync offset included). A word
+ * belongs to a clip when its midpoint is inside the trim; its edges are
+ * clamped to the trim so cues never outlast the shot.
+ */
+const loadCutTranscript = (db: StoryGraphDatabase, canvasId: string): CutTranscript => {
+  const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+  const rate = toFrameRate(canvas.FPS);
+  const dropFrame = canvas.Timecode_mode === 'DROP' && supportsDropFrame(rate);
+  const wordMaps = new Map<string, WordToken[]>();
+
+  const placed = clips
+    .filter(clip => clip.endFrame > clip.startFrame)
+    .sort((a, b) => a.startFrame - b.startFrame || b.track - a.track)
+    .flatMap((clip, clipIndex) => {
+      const node = nodes.get(clip.nodeId);
+      const asset = node?.asset_id ? assets.get(node.asset_id) : undefined;
+      if (!node || !asset) return [];
+
+      if (!wordMaps.has(asset.id)) {
+        const wordMap = loadWordMap(db, asset.id);
+        wordMaps.set(asset.id, wordMap ? convertWordMapFPS(wordMap.words, wordMap.rate, rate) : []);
+      }
+
+      const trimIn = secondsToFrames(node.clip_in || 0, rate);
+      const trimOut = trimIn + clip.endFrame - clip.startFrame;
+      const toRecord = (frame: number) => framesToSeconds(clip.startFrame + frame - trimIn, rate);
+
+      const words = wordMaps
+        .get(asset.id)!
+        .filter(word => {
+          const midpoint = (word.frame_in! + word.frame_out!) / 2;
+          return midpoint >= trimIn && midpoint < trimOut;
+        })
+        .map(word => ({
+          text: word.text,
+          start: toRecord(Math.max(word.frame_in!, trimIn)),
+          end: toRecord(Math.min(word.frame_out!, trimOut)),
+          speaker: word.speaker,
+          clipIndex,
+        }));
+
+      return words.length > 0 ? [{ clip, node, asset, words }] : [];
+    });
+
+  return { canvas, rate, dropFrame, clips: placed };
+};
+
+/**
+ * Wrap words to at most CUE_MAX_LINES of CUE_MAX_LINE_CHARS; null when they do not fit
+ */
+const wrapLines = (texts: string[]): string[] | null => {
+  const lines: string[] = [];
+  for (const text of texts) {
+    const current = lines[lines.length - 1];
+    if (current !== undefined && current.length + 1 + text.length <= CUE_MAX_LINE_CHARS) {
+      lines[lines.length - 1] = `${current} ${text}`;
+    } else {
+      lines.push(text);
+    }
+  }
+  return lines.length <= CUE_MAX_LINES ? lines : null;
+};
+
+/**
+ * Group record-timed words into caption cues
+ * A cue ends at a speaker change, a cut, a pause, a full caption or a
+ * sentence end once the first line is full.
+ */
+const buildCues = (words: RecordWord[]): Cue[] => {
+  const cues: Cue[] = [];
+  let pending: RecordWord[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    cues.push({
+      start: pending[0].start,
+      end: pending[pending.length - 1].end,
+      speaker: pending[0].speaker,
+      lines: wrapLines(pending.map(w => w.text)) || [pending.map(w => w.text).join(' ')],
+    });
+    pending = [];
+  };
+
+  words.forEach(word => {
+    const previous = pending[pending.length - 1];
+    if (
+      previous &&
+      (word.speaker !== previous.speaker ||
+        word.clipIndex !== previous.clipIndex ||
+        word.start - previous.end > CUE_MAX_GAP ||
+        word.end - pending[0].start > CUE_MAX_DURATION ||
+        !wrapLines([...pending, word].map(w => w.text)))
+    ) {
+      flush();
+    }
+    pending.push(word);
+
+    const lines = wrapLines(pending.map(w => w.text));
+    if (/[.!?]["')\]]?$/.test(word.text) && lines && lines[0].length >= CUE_MAX_LINE_CHARS / 2) {
+      flush();
+    }
+  });
+  flush();
+
+  // Overlapping dialogue tracks: a cue ends where the next begins
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    if (next && cue.end > next.start) cue.end = Math.max(cue.start, next.start);
+  });
+  return cues;
+};
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+const cutWords = (cut: CutTranscript): RecordWord[] =>
+  cut.clips.flatMap(c => c.words).sort((a, b) => a.start - b.start);
+
+const writeExport = async (
+  label: string,
+  filePath: string,
+  build: () => string | null
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const content = build();
+    if (content === null) {
+      return { success: false, error: 'No clip on this canvas has a transcript' };
+    }
+    await fs.writeFile(filePath, content, 'utf-8');
+    console.log(`[Captions] ${label} exported to ${filePath}`);
+    return { success: true };
+  } catch (error) {
+    console.error(`[Captions] Error generating ${label}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
+/**
+ * SubRip captions for the cut, timed from 00:00:00,000
+ * The speaker is named at the start of a cue when it changes.
+ */
+export const generateSRT = (db: StoryGraphDatabase, canvasId: string, filePath: string) =>
+  writeExport('SRT', filePath, () => {
+    const cues = buildCues(cutWords(loadCutTranscript(db, canvasId)));
+    if (cues.length === 0) return null;
+
+    return cues
+      .map((cue, index) => {
+        const [first, ...rest] = cue.lines;
+        const speakerChanged = !!cue.speaker && cue.speaker !== cues[index - 1]?.speaker;
+        return [
+          String(index + 1),
+          `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+          speakerChanged ? `${cue.speaker}: ${first}` : first,
+          ...rest,
+          '',
+        ].join('\r\n');
+      })
+      .join('\r\n');
+  });
+
+/**
+ * WebVTT captions for the cut, with speakers as <v> voice spans
+ */
+export const generateWebVTT = (db: StoryGraphDatabase, canvasId: string, filePath: string) =>
+  writeExport('WebVTT', filePath, () => {
+    const cut = loadCutTranscript(db, canvasId);
+    const cues = buildCues(cutWords(cut));
+    if (cues.length === 0) return null;
+
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const blocks = cues.map(cue => {
+      const text = cue.lines.map(escape).join('\n');
+      return [
+        `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+        cue.speaker ? `<v ${escape(cue.speaker)}>${text}</v>` : text,
+      ].join('\n');
+    });
+
+    return [`WEBVTT - ${cut.canvas.name}`, ...blocks].join('\n\n') + '\n';
+  });
+
+/**
+ * Plain-text paper edit: one block per clip in record order, with record and
+ * source timecode, the source name and the dialogue by speaker
+ */
+export const generatePaperEdit = (db: StoryGraphDatabase, canvasId: string, filePath: string) =>
+  writeExport('Paper edit', filePath, () => {
+    const cut = loadCutTranscript(db, canvasId);
+    if (cut.clips.length === 0) return null;
+
+    const { canvas, rate, dropFrame } = cut;
+    const recordStart = timecodeToFrames(withTimecodeNotation(RECORD_START_TC, dropFrame), rate);
+    const recordTc = (frames: number) => framesToTimecode(recordStart + frames, rate, dropFrame);
+
+    const lines: string[] = [
+      `PAPER EDIT: ${canvas.name}`,
+      `${canvas.FPS} fps ${dropFrame ? 'DF' : 'NDF'} · ${cut.clips.length} dialogue clip(s) · ${new Date().toLocaleDateString()}`,
+      '',
+    ];
+
+    cut.clips.forEach(({ clip, node, asset, words }, index) => {
+      const assetRate = toFrameRate(asset.fps || canvas.FPS);
+      const assetDropFrame = isDropFrameTimecode(asset.start_tc);
+      const clipIn = node.clip_in || 0;
+      const clipOut = clipIn + framesToSeconds(clip.endFrame - clip.startFrame, rate);
+
+      lines.push(
+        `${String(index + 1).padStart(3, '0')}  ${recordTc(clip.startFrame)} - ${recordTc(clip.endFrame)}  ` +
+          `${asset.clean_name || asset.file_name}  ` +
+          `[SRC ${secondsToTimecode(clipIn, assetRate, assetDropFrame, asset.start_tc)} - ` +
+          `${secondsToTimecode(clipOut, assetRate, assetDropFrame, asset.start_tc)}]`
+      );
+
+      // One paragraph per speaker turn
+      let turn: RecordWord[] = [];
+      const flushTurn = () => {
+        if (turn.length === 0) return;
+        const text = turn.map(w => w.text).join(' ');
+        lines.push(turn[0].speaker ? `    ${turn[0].speaker.toUpperCase()}: ${text}` : `    ${text}`);
+        turn = [];
+      };
+      words.forEach(word => {
+        if (turn.length > 0 && word.speaker !== turn[0].speaker) flushTurn();
+        turn.push(word);
+      });
+      flushTurn();
+      lines.push('');
+    });
+
+    return lines.join('\n');
+  });
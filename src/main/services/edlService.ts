@@ -0,0 +1,158 @@
+/**
+ * EDL Service
+ * CMX3600 edit decision lists for Resolve / Avid conform
+ * Phase 9: Export & Flattening
+ *
+ * CMX3600 has a single video channel per list, so a flattened canvas is
+ * written as one EDL per video track: V1 is the spine, V2+ are satellites
+ * stacked above it and B1+ are tracks below the spine.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, FlattenedClip } from '../../shared/types';
+import { loadCanvasTimeline } from './flattenService';
+import {
+  toFrameRate,
+  timecodeToFrames,
+  framesToTimecode,
+  secondsToFrames,
+  supportsDropFrame,
+  withTimecodeNotation,
+} from '../../shared/timecode';
+import { parseMediaFlags } from './exportService';
+
+// Record timecode of the first frame, the usual broadcast programme start
+const RECORD_START_TC = '01:00:00:00';
+
+const REEL_NAME_LENGTH = 8;
+
+/**
+ * Derive a CMX3600-safe reel name (8 uppercase alphanumerics) per asset
+ * Files with a camera reel tag share that reel, since reel + source TC
+ * already identifies the take; untagged files fall back to the clean name,
+ * with a numeric suffix on collisions so each keeps a distinct reel.
+ */
+const buildReelNames = (assets: MediaAsset[]): Map<string, string> => {
+  const reels = new Map<string, string>();
+  const used = new Set<string>();
+  const tagged = new Map<string, string>(); // Camera reel tag → EDL reel
+
+  assets.forEach(asset => {
+    const existing = asset.reel_name ? tagged.get(asset.reel_name) : undefined;
+    if (existing) {
+      reels.set(asset.id, existing);
+      return;
+    }
+
+    const base = (asset.reel_name || asset.clean_name || asset.file_name || 'AX')
+      .replace(/\.[^.]+$/, '')
+      .replace(/[^a-zA-Z0-9]/g, '')
+      .toUpperCase()
+      .slice(0, REEL_NAME_LENGTH) || 'AX';
+
+    let reel = base;
+    for (let i = 1; used.has(reel); i++) {
+      const suffix = String(i);
+      reel = base.slice(0, REEL_NAME_LENGTH - suffix.length) + suffix;
+    }
+
+    used.add(reel);
+    reels.set(asset.id, reel);
+    if (asset.reel_name) tagged.set(asset.reel_name, reel);
+  });
+
+  return reels;
+};
+
+const trackLabel = (track: number): string => (track >= 0 ? `V${track + 1}` : `B${-track}`);
+
+/**
+ * Generate CMX3600 EDLs for a canvas, one file per video track
+ *
+ * Source timecode is the asset's start_tc plus the node's clip_in; record
+ * timecode follows the flattened timeline from 01:00:00:00. Drop-frame
+ * numbering follows the canvas Timecode_mode.
+ */
+export const generateEDL = async (
+  db: StoryGraphDatabase,
+  canvasId: string,
+  folderPath: string
+): Promise<{ success: boolean; files?: string[]; error?: string }> => {
+  try {
+    const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+    const rate = toFrameRate(canvas.FPS);
+    const dropFrame = canvas.Timecode_mode === 'DROP' && supportsDropFrame(rate);
+    // Counted in the list's own numbering, so DF lists start on 01:00:00;00
+    const recordStart = timecodeToFrames(withTimecodeNotation(RECORD_START_TC, dropFrame), rate);
+
+    // Only media-backed clips become events; gaps are implied by record TC
+    const exportable = clips.filter(clip => {
+      const assetId = nodes.get(clip.nodeId)?.asset_id;
+      return assetId && assets.has(assetId) && clip.endFrame > clip.startFrame;
+    });
+    if (exportable.length === 0) {
+      return { success: false, error: 'Canvas has no media clips to export' };
+    }
+
+    const usedAssets = Array.from(new Set(exportable.map(c => nodes.get(c.nodeId)!.asset_id!)))
+      .map(id => assets.get(id)!);
+    const reels = buildReelNames(usedAssets);
+
+    const byTrack = new Map<number, FlattenedClip[]>();
+    exportable.forEach(clip => {
+      const trackClips = byTrack.get(clip.track) || [];
+      trackClips.push(clip);
+      byTrack.set(clip.track, trackClips);
+    });
+
+    const safeName = (canvas.name || 'Canvas').replace(/[^a-zA-Z0-9_-]+/g, '_');
+    const files: string[] = [];
+
+    for (const [track, trackClips] of Array.from(byTrack.entries()).sort((a, b) => b[0] - a[0])) {
+      const label = trackLabel(track);
+      const lines: string[] = [
+        `TITLE: ${canvas.name} ${label}`,
+        `FCM: ${dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+        '',
+      ];
+
+      trackClips
+        .sort((a, b) => a.startFrame - b.startFrame)
+        .forEach((clip, index) => {
+          const node = nodes.get(clip.nodeId)!;
+          const asset = assets.get(node.asset_id!)!;
+          const duration = clip.endFrame - clip.startFrame;
+
+          // Source side is counted at the canvas rate so in/out durations match record
+          const assetRate = toFrameRate(asset.fps || canvas.FPS);
+          const assetStart = Math.round(timecodeToFrames(asset.start_tc, assetRate) * rate.nominal / assetRate.nominal);
+          const sourceIn = assetStart + secondsToFrames(node.clip_in || 0, rate);
+
+          const { hasVideo, hasAudio } = parseMediaFlags(asset);
+          const channel = !hasVideo ? 'AA' : track === 0 && hasAudio ? 'AA/V' : 'V';
+
+          const event = String(index + 1).padStart(3, '0');
+          const reel = reels.get(asset.id)!.padEnd(REEL_NAME_LENGTH);
+          const sourceTc = `${framesToTimecode(sourceIn, rate, dropFrame)} ${framesToTimecode(sourceIn + duration, rate, dropFrame)}`;
+          const recordTc = `${framesToTimecode(recordStart + clip.startFrame, rate, dropFrame)} ${framesToTimecode(recordStart + clip.endFrame, rate, dropFrame)}`;
+
+          lines.push(`${event}  ${reel} ${channel.padEnd(5)} C        ${sourceTc} ${recordTc}`);
+          lines.push(`* FROM CLIP NAME: ${asset.clean_name || asset.file_name}`);
+          lines.push(`* SOURCE FILE: ${asset.file_path}`);
+          lines.push('');
+        });
+
+      const filePath = path.join(folderPath, `${safeName}_${label}.edl`);
+      await fs.writeFile(filePath, lines.join('\r\n'));
+      files.push(filePath);
+    }
+
+    console.log(`[EDL] Exported ${exportable.length} events across ${files.length} track(s) to ${folderPath}`);
+    return { success: true, files };
+  } catch (error) {
+    console.error('[EDL] Error generating EDL:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
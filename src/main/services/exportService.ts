@@ -1,90 +1,249 @@
 import { create } from 'xmlbuilder2';
+import type { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
 import fs from 'fs/promises';
+import { pathToFileURL } from 'url';
 import StoryGraphDatabase from '../database/schema';
-import { StoryNode, MediaAsset } from '../../shared/types';
+import { MediaAsset, FlattenedClip, AudioStreamInfo } from '../../shared/types';
+import {
+  Rational,
+  FrameRate,
+  reduceRational,
+  addRational,
+  toFrameRate,
+  framesToTime,
+  secondsToFrames,
+  timecodeToFrames,
+} from '../../shared/timecode';
+import { loadCanvasTimeline } from './flattenService';
 
-interface AssetInfo {
-  xml_id: string;
-  file_path: string;
-  duration: number;
-  fps_base: number;
-}
+// ============================================================================
+// RATIONAL TIME
+// FCPXML expresses every time value as a rational number of seconds ("1001/24000s")
+// ============================================================================
 
-export const generateFCPXML = async (db: StoryGraphDatabase, projectId: string, filePath: string): Promise<{ success: boolean; error?: string }> => {
+const formatRational = (value: Rational): string => {
+  const { num, den } = reduceRational(value);
+  if (num === 0) return '0s';
+  return den === 1 ? `${num}s` : `${num}/${den}s`;
+};
+
+export const parseResolution = (resolution: string | null | undefined): { width: number; height: number } => {
+  const [width, height] = (resolution || '').split('x').map(Number);
+  return width > 0 && height > 0 ? { width, height } : { width: 1920, height: 1080 };
+};
+
+export const parseMediaFlags = (asset: MediaAsset): { hasVideo: boolean; hasAudio: boolean } => {
+  try {
+    const raw = asset.metadata_raw ? JSON.parse(asset.metadata_raw) : {};
+    return {
+      hasVideo: raw.has_video ?? asset.media_type !== 'MUSIC',
+      hasAudio: raw.has_audio ?? true,
+    };
+  } catch {
+    return { hasVideo: asset.media_type !== 'MUSIC', hasAudio: true };
+  }
+};
+
+/**
+ * Per-stream audio layout captured at import (empty for assets probed before it existed)
+ */
+export const parseAudioStreams = (asset: MediaAsset): AudioStreamInfo[] => {
+  try {
+    return asset.audio_streams ? JSON.parse(asset.audio_streams) : [];
+  } catch {
+    return [];
+  }
+};
+
+// ============================================================================
+// FCPXML GENERATION
+// ============================================================================
+
+/**
+ * Generate a canvas-scoped FCPXML v1.10 document
+ *
+ * Track 0 (the spine) becomes the primary storyline with gaps filling holes;
+ * every other track becomes a connected clip on lane = track, attached to
+ * the storyline element it starts over.
+ */
+export const generateFCPXML = async (db: StoryGraphDatabase, canvasId: string, filePath: string): Promise<{ success: boolean; error?: string }> => {
   try {
-    const project = db.query('SELECT * FROM projects WHERE id = ?', [projectId])[0];
+    const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+    const project = db.query('SELECT * FROM projects WHERE id = ?', [canvas.project_id])[0];
     if (!project) {
       return { success: false, error: 'Project not found' };
     }
 
-    // This is a simplified flattening for now. A full implementation would
-    // traverse the entire graph of nodes and containers to create a linear sequence.
-    const storyNodes: StoryNode[] = db.query('SELECT * FROM story_nodes');
-    const mediaAssets: MediaAsset[] = db.query('SELECT * FROM media_library WHERE project_id = ?', [projectId]);
-    const assetMap = new Map(mediaAssets.map(a => [a.id, a]));
-
-    const defaultFps = 24; // Default FPS if not set
-
-    const uniqueAssets: AssetInfo[] = Array.from(new Set(storyNodes.map(n => n.asset_id)))
-      .filter((assetId): assetId is string => assetId !== null && assetId !== undefined)
-      .map(assetId => {
-        const asset = assetMap.get(assetId);
-        if (!asset) return null;
-        return {
-          xml_id: `r${asset.id}`,
-          file_path: asset.file_path || '',
-          duration: asset.duration || 0,
-          fps_base: asset.fps || defaultFps,
-        };
-      })
-      .filter((a): a is AssetInfo => a !== null);
+    const sequenceRate = toFrameRate(canvas.FPS);
+    const sequenceSize = parseResolution(canvas.Resolution);
+
+    // Only clips backed by media can be written; text nodes leave gaps
+    const exportable = clips.filter(clip => {
+      const assetId = nodes.get(clip.nodeId)?.asset_id;
+      return assetId && assets.has(assetId) && clip.endFrame > clip.startFrame;
+    });
 
     const xml = create({ version: '1.0', encoding: 'UTF-8' })
       .ele('fcpxml', { version: '1.10' });
-
     const resources = xml.ele('resources');
-    uniqueAssets.forEach(asset => {
-      const durationFrames = Math.floor(asset.duration * asset.fps_base);
-      resources.ele('asset', {
-        id: asset.xml_id,
-        src: `file://${asset.file_path}`,
-        start: '0s',
-        duration: `${durationFrames}/${asset.fps_base}s`,
-        hasVideo: '1',
-        hasAudio: '1'
+
+    // ------------------------------------------------------------------------
+    // Formats: r1 is the sequence format, assets share formats by rate/size
+    // ------------------------------------------------------------------------
+    const formatIds = new Map<string, string>();
+    const declareFormat = (rate: FrameRate, size: { width: number; height: number }): string => {
+      const key = `${formatRational(rate.frameDuration)}|${size.width}x${size.height}`;
+      const existing = formatIds.get(key);
+      if (existing) return existing;
+
+      const id = `r${formatIds.size + 1}`;
+      resources.ele('format', {
+        id,
+        frameDuration: formatRational(rate.frameDuration),
+        width: String(size.width),
+        height: String(size.height),
       });
+      formatIds.set(key, id);
+      return id;
+    };
+    const sequenceFormatId = declareFormat(sequenceRate, sequenceSize);
+
+    // ------------------------------------------------------------------------
+    // Assets: one resource per media file used on the canvas
+    // ------------------------------------------------------------------------
+    const assetRefs = new Map<string, { id: string; start: Rational }>();
+    exportable.forEach(clip => {
+      const asset = assets.get(nodes.get(clip.nodeId)!.asset_id!)!;
+      if (assetRefs.has(asset.id)) return;
+
+      const assetRate = toFrameRate(asset.fps || canvas.FPS);
+      const { hasVideo, hasAudio } = parseMediaFlags(asset);
+      const start = framesToTime(timecodeToFrames(asset.start_tc, assetRate), assetRate);
+      const durationFrames = asset.total_frames || secondsToFrames(asset.duration || 0, assetRate);
+      const id = `a${assetRefs.size + 1}`;
+
+      const assetEl = resources.ele('asset', {
+        id,
+        name: asset.clean_name || asset.file_name,
+        uid: asset.id,
+        start: formatRational(start),
+        duration: formatRational(framesToTime(durationFrames, assetRate)),
+        hasVideo: hasVideo ? '1' : '0',
+        hasAudio: hasAudio ? '1' : '0',
+        ...(hasVideo ? { format: declareFormat(assetRate, parseResolution(asset.resolution)) } : {}),
+        ...(hasAudio
+          ? {
+              audioSources: String(parseAudioStreams(asset).length || 1),
+              audioChannels: String(asset.audio_channels || 2),
+              audioRate: String(asset.audio_sample_rate || 48000),
+            }
+          : {}),
+      });
+      assetEl.ele('media-rep', {
+        kind: 'original-media',
+        src: pathToFileURL(asset.file_path).href,
+      });
+
+      assetRefs.set(asset.id, { id, start });
     });
 
+    // ------------------------------------------------------------------------
+    // Sequence
+    // ------------------------------------------------------------------------
+    const totalFrames = Math.max(0, ...exportable.map(c => c.endFrame));
     const library = xml.ele('library');
     const event = library.ele('event', { name: project.name });
-    const projectXml = event.ele('project', { name: 'Story Graph Export' });
-    const sequence = projectXml.ele('sequence', { format: 'r1' }); // Placeholder format
+    const projectXml = event.ele('project', { name: canvas.name });
+    const sequence = projectXml.ele('sequence', {
+      format: sequenceFormatId,
+      duration: formatRational(framesToTime(totalFrames, sequenceRate)),
+      tcStart: '0s',
+      tcFormat: canvas.Timecode_mode === 'DROP' ? 'DF' : 'NDF',
+      audioLayout: 'stereo',
+      audioRate: '48k',
+    });
     const spine = sequence.ele('spine');
 
-    // Simple linear export of spine nodes for now
-    storyNodes
-      .filter(n => n.type === 'SPINE' && !n.anchor_id)
-      .sort((a, b) => a.x - b.x)
-      .forEach(node => {
-        if (!node.asset_id) return;
-        const asset = assetMap.get(node.asset_id);
-        if (!asset) return;
-
-        const clipDuration = (node.clip_out || asset.duration || 0) - (node.clip_in || 0);
-
-        spine.ele('asset-clip', {
-          name: asset.clean_name || asset.file_name || 'Untitled',
-          ref: `r${asset.id}`,
-          offset: '0s', // Simplified, actual offset calculation would be complex
-          start: `${node.clip_in || 0}s`,
-          duration: `${clipDuration}s`
-        });
+    // Source start of a clip in its asset's local time
+    const sourceStart = (clip: FlattenedClip): Rational => {
+      const node = nodes.get(clip.nodeId)!;
+      const clipInFrames = secondsToFrames(node.clip_in || 0, sequenceRate);
+      return addRational(assetRefs.get(node.asset_id!)!.start, framesToTime(clipInFrames, sequenceRate));
+    };
+
+    const clipAttributes = (clip: FlattenedClip, offset: Rational) => {
+      const asset = assets.get(nodes.get(clip.nodeId)!.asset_id!)!;
+      return {
+        name: asset.clean_name || asset.file_name || 'Untitled',
+        ref: assetRefs.get(asset.id)!.id,
+        offset: formatRational(offset),
+        start: formatRational(sourceStart(clip)),
+        duration: formatRational(framesToTime(clip.endFrame - clip.startFrame, sequenceRate)),
+      };
+    };
+
+    // Primary storyline: track 0 clips in order. Overlapping ones are demoted to
+    // lanes above the highest real track, so they never share a lane with it.
+    const storyline: Array<{ clip?: FlattenedClip; startFrame: number; endFrame: number; element?: XMLBuilder; localStart: Rational }> = [];
+    const connected: Array<{ clip: FlattenedClip; lane: number }> = [];
+    const firstDemotedLane = Math.max(0, ...exportable.map(c => c.track)) + 1;
+    const demotedLaneEnds: number[] = []; // End frame of the last clip in each demoted lane
+    let cursor = 0;
+
+    exportable
+      .filter(c => c.track === 0)
+      .sort((a, b) => a.startFrame - b.startFrame)
+      .forEach(clip => {
+        if (clip.startFrame < cursor) {
+          let laneIndex = demotedLaneEnds.findIndex(end => end <= clip.startFrame);
+          if (laneIndex === -1) laneIndex = demotedLaneEnds.length;
+          demotedLaneEnds[laneIndex] = clip.endFrame;
+          connected.push({ clip, lane: firstDemotedLane + laneIndex });
+          return;
+        }
+        if (clip.startFrame > cursor) {
+          storyline.push({ startFrame: cursor, endFrame: clip.startFrame, localStart: { num: 0, den: 1 } });
+        }
+        storyline.push({ clip, startFrame: clip.startFrame, endFrame: clip.endFrame, localStart: sourceStart(clip) });
+        cursor = clip.endFrame;
+      });
+
+    exportable
+      .filter(c => c.track !== 0)
+      .forEach(clip => connected.push({ clip, lane: clip.track }));
+
+    // Trailing gap so connected clips past the last spine clip have a parent
+    if (totalFrames > cursor) {
+      storyline.push({ startFrame: cursor, endFrame: totalFrames, localStart: { num: 0, den: 1 } });
+    }
+
+    storyline.forEach(item => {
+      const offset = framesToTime(item.startFrame, sequenceRate);
+      item.element = item.clip
+        ? spine.ele('asset-clip', clipAttributes(item.clip, offset))
+        : spine.ele('gap', {
+            name: 'Gap',
+            offset: formatRational(offset),
+            start: '0s',
+            duration: formatRational(framesToTime(item.endFrame - item.startFrame, sequenceRate)),
+          });
+    });
+
+    // Connected clips: offset is expressed in the parent's local timeline
+    connected
+      .sort((a, b) => a.clip.startFrame - b.clip.startFrame || a.lane - b.lane)
+      .forEach(({ clip, lane }) => {
+        const parent = storyline.find(item => clip.startFrame >= item.startFrame && clip.startFrame < item.endFrame);
+        if (!parent?.element) return;
+
+        const offset = addRational(parent.localStart, framesToTime(clip.startFrame - parent.startFrame, sequenceRate));
+        parent.element.ele('asset-clip', { lane: String(lane), ...clipAttributes(clip, offset) });
       });
 
     const xmlString = xml.end({ prettyPrint: true });
     await fs.writeFile(filePath, xmlString);
 
-    console.log(`FCPXML exported to ${filePath}`);
+    console.log(`FCPXML exported to ${filePath} (${storyline.length} storyline items, ${connected.length} connected clips)`);
     return { success: true };
   } catch (error) {
     console.error('Error generating FCPXML:', error);
@@ -5,10 +5,73 @@
  */
 
 import ffmpeg from 'fluent-ffmpeg';
-import { FFprobeMetadata } from '../../shared/types';
+import { FFprobeMetadata, AudioStreamInfo } from '../../shared/types';
 import path from 'path';
 import fs from 'fs';
 
+// Tag keys checked in order (matched case-insensitively)
+const CREATION_DATE_TAGS = ['com.apple.quicktime.creationdate', 'creation_time', 'date'];
+const CAMERA_MAKE_TAGS = ['com.apple.quicktime.make', 'make', 'manufacturer', 'company_name'];
+const CAMERA_MODEL_TAGS = [
+  'com.apple.quicktime.model',
+  'com.apple.quicktime.camera.identifier',
+  'model',
+  'product_name',
+];
+const REEL_NAME_TAGS = ['reel_name', 'com.apple.proapps.reel', 'com.apple.quicktime.reel', 'reel', 'tape_name'];
+
+type TagSet = Record<string, string | number> | undefined;
+
+/**
+ * First non-empty value for any of the keys across the tag sets
+ */
+const findTag = (tagSets: TagSet[], keys: string[]): string | null => {
+  for (const key of keys) {
+    for (const tags of tagSets) {
+      if (!tags) continue;
+      const match = Object.keys(tags).find(k => k.toLowerCase() === key);
+      const value = match !== undefined ? String(tags[match]).trim() : '';
+      if (value) return value;
+    }
+  }
+  return null;
+};
+
+/**
+ * Codec name with profile, e.g. "prores (HQ)"
+ */
+const describeCodec = (stream?: ffmpeg.FfprobeStream): string | null => {
+  if (!stream?.codec_name) return null;
+  // ffprobe reports profile names ("HQ", "High"); the typings say number
+  const profile = stream.profile as unknown as string | undefined;
+  return profile && profile !== 'unknown' ? `${stream.codec_name} (${profile})` : stream.codec_name;
+};
+
+/**
+ * Bits per component: bits_per_raw_sample when present, else read off the
+ * pixel format ("yuv422p10le" → 10); 8-bit formats carry no suffix
+ */
+const parseBitDepth = (stream?: ffmpeg.FfprobeStream): number | null => {
+  if (!stream) return null;
+  const raw = parseInt(String(stream.bits_per_raw_sample ?? ''), 10);
+  if (raw > 0) return raw;
+  if (!stream.pix_fmt) return null;
+  const match = stream.pix_fmt.match(/p(\d{2})(le|be)?$/);
+  return match ? parseInt(match[1], 10) : 8;
+};
+
+/**
+ * Display rotation in degrees (0/90/180/270)
+ * Newer ffprobe reports it in the display matrix side data, older builds as a tag.
+ */
+const parseRotation = (stream?: ffmpeg.FfprobeStream): number => {
+  if (!stream) return 0;
+  const sideData = (stream as { side_data_list?: Array<{ rotation?: number | string }> }).side_data_list;
+  const fromMatrix = sideData?.find(d => d.rotation !== undefined)?.rotation;
+  const degrees = Number(fromMatrix ?? stream.tags?.rotate ?? 0);
+  return isNaN(degrees) ? 0 : ((Math.round(degrees) % 360) + 360) % 360;
+};
+
 /**
  * Extract forensic metadata from a media file using FFprobe
  * @param filePath Absolute path to media file
@@ -97,6 +160,35 @@ export const extractMetadata = (filePath: string): Promise<FFprobeMetadata> => {
           total_frames = Math.floor(duration * preciseFps);
         }
 
+        // Production audio often arrives as several mono streams rather than one
+        // multichannel stream, so channels are summed across every audio stream
+        const audio_streams: AudioStreamInfo[] = metadata.streams
+          .filter(s => s.codec_type === 'audio')
+          .map(s => ({
+            index: s.index,
+            codec: describeCodec(s),
+            channels: s.channels || 0,
+            channel_layout: s.channel_layout || null,
+            sample_rate: s.sample_rate ? Number(s.sample_rate) : null,
+            language: s.tags?.language || null,
+          }));
+        const audio_channels = audio_streams.reduce((sum, s) => sum + s.channels, 0);
+        let audio_channel_layout: string | null = null;
+        if (audio_streams.length === 1) {
+          audio_channel_layout = audio_streams[0].channel_layout || (audio_channels ? `${audio_channels}ch` : null);
+        } else if (audio_streams.length > 1) {
+          const layouts = audio_streams.map(s => s.channel_layout || `${s.channels}ch`);
+          audio_channel_layout = layouts.every(l => l === layouts[0])
+            ? `${audio_streams.length} × ${layouts[0]}`
+            : layouts.join(' + ');
+        }
+
+        // Camera and reel tags can sit on the container or on any stream
+        // (QuickTime timecode tracks and MXF packages carry the reel name)
+        const tagSets = [metadata.format.tags, ...metadata.streams.map(s => s.tags)];
+        const creationDate = findTag(tagSets, CREATION_DATE_TAGS);
+        const parsedDate = creationDate ? new Date(creationDate) : null;
+
         const result: FFprobeMetadata = {
           duration,
           fps: preciseFps,
@@ -110,6 +202,25 @@ export const extractMetadata = (filePath: string): Promise<FFprobeMetadata> => {
           file_size,
           timecode_start,
           total_frames,
+          video_codec: describeCodec(videoStream),
+          pixel_format: videoStream?.pix_fmt || null,
+          bit_depth: parseBitDepth(videoStream),
+          color_space: videoStream?.color_space || null,
+          color_transfer: videoStream?.color_transfer || null,
+          color_primaries: videoStream?.color_primaries || null,
+          pixel_aspect: videoStream?.sample_aspect_ratio && videoStream.sample_aspect_ratio !== '0:1'
+            ? videoStream.sample_aspect_ratio
+            : videoStream ? '1:1' : null,
+          rotation: parseRotation(videoStream),
+          audio_codec: describeCodec(audioStream),
+          audio_channels,
+          audio_channel_layout,
+          audio_sample_rate: audio_streams[0]?.sample_rate ?? null,
+          audio_streams,
+          creation_date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : creationDate,
+          camera_make: findTag(tagSets, CAMERA_MAKE_TAGS),
+          camera_model: findTag(tagSets, CAMERA_MODEL_TAGS),
+          reel_name: findTag(tagSets, REEL_NAME_TAGS),
         };
 
         console.log('[FFprobe] Successfully extracted metadata:', {
@@ -119,6 +230,8 @@ export const extractMetadata = (filePath: string): Promise<FFprobeMetadata> => {
           resolution,
           total_frames,
           start_tc: timecode_start || 'N/A',
+          codec: result.video_codec || result.audio_codec,
+          reel: result.reel_name || 'N/A',
           size: `${(file_size / 1024 / 1024).toFixed(2)} MB`,
         });
 
@@ -173,58 +286,3 @@ export const generateCleanName = (fileName: string): string => {
 
   return cleanName;
 };
-
-/**
- * Calculate end timecode from start timecode and duration
- * @param startTC Start timecode in SMPTE format (HH:MM:SS:FF or HH:MM:SS;FF)
- * @param duration Duration in seconds
- * @param fps Frame rate
- * @returns End timecode in SMPTE format, or null if startTC is invalid
- */
-export const calculateEndTimecode = (
-  startTC: string | null,
-  duration: number,
-  fps: number
-): string | null => {
-  if (!startTC || duration === 0 || fps === 0) {
-    return null;
-  }
-
-  try {
-    // Parse start timecode (supports both drop-frame ; and non-drop :)
-    const isDropFrame = startTC.includes(';');
-    const separator = isDropFrame ? ';' : ':';
-    const parts = startTC.split(/[:;]/);
-
-    if (parts.length !== 4) {
-      console.warn('[Timecode] Invalid start timecode format:', startTC);
-      return null;
-    }
-
-    let hours = parseInt(parts[0], 10);
-    let minutes = parseInt(parts[1], 10);
-    let seconds = parseInt(parts[2], 10);
-    let frames = parseInt(parts[3], 10);
-
-    // Convert start timecode to total frames
-    const startTotalFrames = (hours * 3600 + minutes * 60 + seconds) * fps + frames;
-
-    // Add duration in frames
-    const durationFrames = Math.floor(duration * fps);
-    const endTotalFrames = startTotalFrames + durationFrames;
-
-    // Convert back to timecode
-    const totalSeconds = Math.floor(endTotalFrames / fps);
-    hours = Math.floor(totalSeconds / 3600);
-    minutes = Math.floor((totalSeconds % 3600) / 60);
-    seconds = totalSeconds % 60;
-    frames = Math.floor(endTotalFrames % fps);
-
-    // Format with leading zeros
-    const pad = (num: number) => num.toString().padStart(2, '0');
-    return `${pad(hours)}${separator}${pad(minutes)}${separator}${pad(seconds)}${separator}${pad(frames)}`;
-  } catch (error) {
-    console.error('[Timecode] Error calculating end timecode:', error);
-    return null;
-  }
-};
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { MediaAsset, StoryNode } from '../../shared/types';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-test-'));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const { default: StoryGraphDatabase } = await import('../database/schema');
+const { findOriginSpine, findRootSpines, getCanvasNodes, getNodeDurationFrames, solveFlatten } = await import(
+  './flattenService'
+);
+
+afterAll(() => {
+  fs.rmSync(userData, { recursive: true, force: true });
+});
+
+const node = (id: string, fields: Partial<StoryNode> = {}): StoryNode => ({
+  id,
+  type: 'SATELLITE',
+  subtype: 'VIDEO',
+  is_global: false,
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 100,
+  clip_in: 0,
+  clip_out: 10,
+  ...fields,
+});
+
+const asset = (id: string, duration: number): MediaAsset => ({ id, duration } as MediaAsset);
+
+describe('getNodeDurationFrames', () => {
+  it('rounds the trimmed range to whole frames', () => {
+    expect(getNodeDurationFrames(node('a', { clip_in: 1, clip_out: 2.5 }), undefined, 24)).toBe(36);
+    expect(getNodeDurationFrames(node('a', { clip_in: 0, clip_out: 1.01 }), undefined, 25)).toBe(25);
+  });
+
+  it('falls back to the asset duration when clip_out is unset', () => {
+    expect(getNodeDurationFrames(node('a', { clip_in: 2, clip_out: undefined }), asset('m', 6), 24)).toBe(96);
+  });
+});
+
+describe('getCanvasNodes', () => {
+  it("keeps other projects' bucket and legacy nodes off the canvas", () => {
+    const db = new StoryGraphDatabase(`flatten-${Date.now()}`);
+
+    try {
+      db.execute("INSERT INTO projects (id, name, defaultFps) VALUES ('p1', 'Ours', 25), ('p2', 'Theirs', 25)");
+      db.execute("INSERT INTO canvases (id, project_id, name, FPS) VALUES ('c1', 'p1', 'Main', 25), ('c2', 'p2', 'Main', 25)");
+      db.execute(
+        `INSERT INTO media_library (id, project_id, file_name, clean_name, file_path, media_type)
+         VALUES ('m1', 'p1', 'a.mov', 'a', '', 'BROLL'), ('m2', 'p2', 'b.mov', 'b', '', 'BROLL')`
+      );
+      db.execute(
+        "INSERT INTO fractal_containers (id, project_id, canvas_id, type, name) VALUES ('s2', 'p2', 'c2', 'SCENE', 'Theirs')"
+      );
+      const insert = (id: string, canvasId: string | null, assetId: string | null, isGlobal: number, sceneId: string | null = null) =>
+        db.execute(
+          `INSERT INTO story_nodes (id, canvas_id, asset_id, scene_id, type, subtype, is_global)
+           VALUES (?, ?, ?, ?, 'SATELLITE', 'VIDEO', ?)`,
+          [id, canvasId, assetId, sceneId, isGlobal]
+        );
+      insert('own', 'c1', 'm1', 0);
+      insert('ownBucket', 'c1', 'm1', 1);
+      insert('otherBucket', 'c2', 'm2', 1);
+      insert('legacyOwn', null, 'm1', 0);
+      insert('legacyOther', null, 'm2', 0);
+      insert('legacyOtherScene', null, 'm1', 0, 's2');
+
+      expect(getCanvasNodes(db, 'c1').map(n => n.id).sort()).toEqual(['legacyOwn', 'own', 'ownBucket']);
+    } finally {
+      // Skips close()'s final backup, which would outlive the connection
+      db.getDatabase().close();
+    }
+  });
+});
+
+describe('findRootSpines', () => {
+  it('returns every unanchored spine outside the bucket, the first being the origin', () => {
+    const nodes = [
+      node('bucket', { type: 'SPINE', is_global: true }),
+      node('origin', { type: 'SPINE' }),
+      node('next', { type: 'SPINE', anchor_id: 'origin', connection_mode: 'APPEND' }),
+      node('loose', { type: 'SATELLITE' }),
+      node('detached', { type: 'SPINE' }),
+    ];
+
+    expect(findRootSpines(nodes).map(n => n.id)).toEqual(['origin', 'detached']);
+    expect(findOriginSpine(nodes)?.id).toBe('origin');
+  });
+});
+
+describe('solveFlatten', () => {
+  it('places STACK, APPEND and PREPEND children relative to their parent', () => {
+    const nodes = [
+      node('spine', { type: 'SPINE' }),
+      node('next', { type: 'SPINE', anchor_id: 'spine', connection_mode: 'APPEND', drift_x: 1 }),
+      node('broll', { anchor_id: 'spine', connection_mode: 'STACK', drift_x: 2, clip_out: 4 }),
+      node('under', { anchor_id: 'next', connection_mode: 'STACK', drift_y: -2, clip_out: 3 }),
+    ];
+
+    expect(solveFlatten(nodes, new Map(), 24)).toEqual([
+      { nodeId: 'under', track: -1, startFrame: 264, endFrame: 336 },
+      { nodeId: 'spine', track: 0, startFrame: 0, endFrame: 240 },
+      { nodeId: 'next', track: 0, startFrame: 264, endFrame: 504 },
+      { nodeId: 'broll', track: 1, startFrame: 48, endFrame: 144 },
+    ]);
+  });
+
+  it('shifts the timeline so a PREPENDed lead-in starts at frame 0', () => {
+    const nodes = [
+      node('spine', { type: 'SPINE' }),
+      node('intro', { anchor_id: 'spine', connection_mode: 'PREPEND', clip_out: 2 }),
+    ];
+
+    expect(solveFlatten(nodes, new Map(), 25)).toEqual([
+      { nodeId: 'intro', track: 0, startFrame: 0, endFrame: 50 },
+      { nodeId: 'spine', track: 0, startFrame: 50, endFrame: 300 },
+    ]);
+  });
+
+  it('skips bucket nodes, orphans and anything anchored to them', () => {
+    const nodes = [
+      node('bucket', { type: 'SPINE', is_global: true }),
+      node('spine', { type: 'SPINE' }),
+      node('global-child', { anchor_id: 'spine', connection_mode: 'STACK', is_global: true }),
+      node('orphan', { anchor_id: 'missing', connection_mode: 'APPEND' }),
+      node('orphan-child', { anchor_id: 'orphan', connection_mode: 'APPEND' }),
+    ];
+
+    expect(solveFlatten(nodes, new Map(), 24).map(clip => clip.nodeId)).toEqual(['spine']);
+  });
+
+  it('terminates on anchor cycles', () => {
+    const nodes = [
+      node('spine', { type: 'SPINE' }),
+      node('a', { anchor_id: 'b', connection_mode: 'APPEND' }),
+      node('b', { anchor_id: 'a', connection_mode: 'APPEND' }),
+    ];
+
+    expect(solveFlatten(nodes, new Map(), 24)).toHaveLength(1);
+  });
+
+  it('returns nothing without an origin spine', () => {
+    expect(solveFlatten([node('a')], new Map(), 24)).toEqual([]);
+  });
+});
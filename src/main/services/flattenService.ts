@@ -0,0 +1,232 @@
+/**
+ * Flatten Service
+ * DFS solver that turns the anchor graph of a canvas into a linear timeline
+ * Phase 9: Export & Flattening
+ *
+ * All arithmetic is done in whole frames at the canvas FPS so that every
+ * consumer (exporters, TimelineView) sees exactly the same cut points.
+ */
+
+import StoryGraphDatabase from '../database/schema';
+import { StoryNode, MediaAsset, Canvas, FlattenedClip, FractalContainer } from '../../shared/types';
+
+/**
+ * Get all story nodes that belong to a canvas
+ * Bucket (global) nodes are shared by every canvas of the same project.
+ * Nodes created before canvas scoping (canvas_id IS NULL) fall back to the
+ * legacy container-based lookup, or to their asset's project when they sit
+ * in no container, so existing projects keep working.
+ */
+export const getCanvasNodes = (db: StoryGraphDatabase, canvasId: string): StoryNode[] => {
+  return db.query(
+    `SELECT DISTINCT sn.* FROM story_nodes sn
+     JOIN canvases c ON c.id = ?
+     LEFT JOIN canvases owner ON owner.id = sn.canvas_id
+     LEFT JOIN fractal_containers fc ON sn.scene_id = fc.id OR sn.act_id = fc.id
+     LEFT JOIN media_library m ON m.id = sn.asset_id
+     WHERE sn.canvas_id = c.id
+        OR (sn.is_global = 1 AND COALESCE(owner.project_id, fc.project_id, m.project_id) = c.project_id)
+        OR (sn.canvas_id IS NULL AND (
+              fc.canvas_id = c.id
+              OR (sn.act_id IS NULL AND sn.scene_id IS NULL AND m.project_id = c.project_id)
+           ))`,
+    [canvasId]
+  );
+};
+
+/**
+ * Calculate a node's duration in frames
+ * Uses clip_out when set, otherwise the full asset duration
+ */
+export const getNodeDurationFrames = (
+  node: StoryNode,
+  asset: MediaAsset | undefined,
+  fps: number
+): number => {
+  const clipIn = node.clip_in || 0;
+  const clipOut = node.clip_out ?? asset?.duration ?? clipIn;
+  return Math.max(0, Math.round((clipOut - clipIn) * fps));
+};
+
+/**
+ * Every unanchored SPINE outside the bucket, each the root of its own chain
+ */
+export const findRootSpines = (nodes: StoryNode[]): StoryNode[] =>
+  nodes.filter(n => !n.anchor_id && n.type === 'SPINE' && !n.is_global);
+
+/**
+ * Find the origin spine of a canvas (the node the timeline grows from)
+ * Mirrors the canvas rule: the first root spine. Any other root chains are
+ * not flattened; validation reports them as detached.
+ */
+export const findOriginSpine = (nodes: StoryNode[]): StoryNode | undefined => findRootSpines(nodes)[0];
+
+/**
+ * Solve the flattened timeline for a set of nodes
+ *
+ * Walks every anchor chain depth-first from the origin spine:
+ *   STACK   start = parent.start + drift_x                      track = parent.track + 1 + drift_y
+ *   PREPEND start = parent.start - duration - drift_x            track = parent.track + drift_y
+ *   APPEND  start = parent.start + parent.duration + drift_x     track = parent.track + drift_y
+ *
+ * Nodes not reachable from the origin (bucket items, orphans, cycles, other
+ * root chains) are skipped.
+ * The result is shifted so the earliest clip starts at frame 0.
+ */
+export const solveFlatten = (
+  nodes: StoryNode[],
+  assets: Map<string, MediaAsset>,
+  fps: number
+): FlattenedClip[] => {
+  const origin = findOriginSpine(nodes);
+  if (!origin || fps <= 0) return [];
+
+  // Build child adjacency once instead of scanning on every visit
+  const children = new Map<string, StoryNode[]>();
+  nodes.forEach(node => {
+    if (!node.anchor_id) return;
+    const siblings = children.get(node.anchor_id) || [];
+    siblings.push(node);
+    children.set(node.anchor_id, siblings);
+  });
+
+  const durationOf = (node: StoryNode) =>
+    getNodeDurationFrames(node, node.asset_id ? assets.get(node.asset_id) : undefined, fps);
+
+  const placed = new Map<string, FlattenedClip>();
+  const stack: StoryNode[] = [origin];
+  placed.set(origin.id, {
+    nodeId: origin.id,
+    track: 0,
+    startFrame: 0,
+    endFrame: durationOf(origin),
+  });
+
+  while (stack.length > 0) {
+    const parent = stack.pop()!;
+    const parentClip = placed.get(parent.id)!;
+
+    for (const child of children.get(parent.id) || []) {
+      if (placed.has(child.id) || child.is_global) continue;
+
+      const duration = durationOf(child);
+      const driftFrames = Math.round((child.drift_x || 0) * fps);
+      const driftTracks = child.drift_y || 0;
+
+      let startFrame: number;
+      let track: number;
+
+      switch (child.connection_mode) {
+        case 'STACK':
+          startFrame = parentClip.startFrame + driftFrames;
+          track = parentClip.track + 1 + driftTracks;
+          break;
+
+        case 'PREPEND':
+          startFrame = parentClip.startFrame - duration - driftFrames;
+          track = parentClip.track + driftTracks;
+          break;
+
+        case 'APPEND':
+          startFrame = parentClip.endFrame + driftFrames;
+          track = parentClip.track + driftTracks;
+          break;
+
+        default:
+          startFrame = parentClip.startFrame + driftFrames;
+          track = parentClip.track + driftTracks;
+      }
+
+      placed.set(child.id, {
+        nodeId: child.id,
+        track,
+        startFrame,
+        endFrame: startFrame + duration,
+      });
+      stack.push(child);
+    }
+  }
+
+  const clips = Array.from(placed.values());
+
+  // Zero is absolute: lead-ins before the origin push the whole timeline right
+  const minStart = Math.min(...clips.map(c => c.startFrame));
+  if (minStart < 0) {
+    clips.forEach(clip => {
+      clip.startFrame -= minStart;
+      clip.endFrame -= minStart;
+    });
+  }
+
+  return clips.sort((a, b) => a.track - b.track || a.startFrame - b.startFrame);
+};
+
+/**
+ * Resolve a container's timeline range
+ * Uses its start/end anchors when they were placed, otherwise the span of its member nodes.
+ */
+export const getContainerRange = (
+  container: FractalContainer,
+  clips: FlattenedClip[],
+  nodes: StoryNode[]
+): { in: number; out: number } | null => {
+  const memberIds = new Set(
+    nodes.filter(n => n.act_id === container.id || n.scene_id === container.id).map(n => n.id)
+  );
+  const byNode = new Map(clips.map(c => [c.nodeId, c]));
+  const startClip = container.ANCHOR_START_ID ? byNode.get(container.ANCHOR_START_ID) : undefined;
+  const endClip = container.ANCHOR_END_ID ? byNode.get(container.ANCHOR_END_ID) : undefined;
+
+  const members = clips.filter(c => memberIds.has(c.nodeId));
+  const start = startClip
+    ? startClip.startFrame + (container.ANCHOR_START_DRIFT || 0)
+    : members.length > 0 ? Math.min(...members.map(c => c.startFrame)) : null;
+  const end = endClip
+    ? endClip.endFrame + (container.ANCHOR_END_DRIFT || 0)
+    : members.length > 0 ? Math.max(...members.map(c => c.endFrame)) : null;
+
+  if (start === null || end === null) return null;
+  return { in: Math.max(0, start), out: Math.max(start, end) };
+};
+
+/**
+ * Everything an exporter needs to write a canvas: the canvas record, lookups
+ * for its nodes and assets, and the flattened clips
+ */
+export interface CanvasTimeline {
+  canvas: Canvas;
+  nodes: Map<string, StoryNode>;
+  assets: Map<string, MediaAsset>;
+  clips: FlattenedClip[];
+}
+
+/**
+ * Load and flatten a canvas in one go
+ */
+export const loadCanvasTimeline = (db: StoryGraphDatabase, canvasId: string): CanvasTimeline => {
+  const canvas: Canvas | undefined = db.query('SELECT * FROM canvases WHERE id = ?', [canvasId])[0];
+  if (!canvas) {
+    throw new Error(`Canvas not found: ${canvasId}`);
+  }
+
+  const nodes = getCanvasNodes(db, canvasId);
+  const assets: MediaAsset[] = db.query('SELECT * FROM media_library WHERE project_id = ?', [canvas.project_id]);
+  const assetMap = new Map(assets.map(a => [a.id, a]));
+
+  const clips = solveFlatten(nodes, assetMap, canvas.FPS);
+  console.log(`[Flatten] Canvas ${canvasId}: ${clips.length} of ${nodes.length} nodes placed @ ${canvas.FPS}fps`);
+
+  return {
+    canvas,
+    nodes: new Map(nodes.map(n => [n.id, n])),
+    assets: assetMap,
+    clips,
+  };
+};
+
+/**
+ * Flatten a canvas to a linear timeline at the canvas FPS
+ */
+export const flattenGraph = (db: StoryGraphDatabase, canvasId: string): FlattenedClip[] => {
+  return loadCanvasTimeline(db, canvasId).clips;
+};
@@ -44,14 +44,14 @@ export const createNodeCommand = (node: StoryNode): Command => ({
   execute: async (db) => {
     db.execute(
       `INSERT INTO story_nodes (
-        id, asset_id, act_id, scene_id, type, subtype, is_global,
+        id, canvas_id, asset_id, act_id, scene_id, type, subtype, is_global,
         x, y, width, height, color,
         anchor_id, connection_mode, drift_x, drift_y,
         clip_in, clip_out,
         internal_state_map
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
-        node.id, node.asset_id || null, node.act_id || null, node.scene_id || null,
+        node.id, node.canvas_id || null, node.asset_id || null, node.act_id || null, node.scene_id || null,
         node.type, node.subtype, node.is_global ? 1 : 0,
         node.x, node.y, node.width, node.height, node.color || null,
         node.anchor_id || null, node.connection_mode || 'STACK', node.drift_x || 0, node.drift_y || 0,
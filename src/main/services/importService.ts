@@ -0,0 +1,191 @@
+/**
+ * Import Service
+ * Probe a file and register it in the media library
+ * Phase 2: Media Ingestion
+ *
+ * Runs inside import/probe jobs so a card of hundreds of clips is probed in
+ * the background instead of inside a single IPC call.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs/promises';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, FFprobeMetadata } from '../../shared/types';
+import { toFrameRate, addFramesToTimecode, isValidTimecode } from '../../shared/timecode';
+import { extractMetadata, isSupportedMediaFile, generateCleanName } from './ffmpeg';
+import { PermanentJobError } from './jobService';
+
+/**
+ * Fail fast on a file that is gone, rather than retrying FFprobe against it
+ */
+const assertFileExists = async (filePath: string) => {
+  try {
+    await fs.access(filePath);
+  } catch {
+    throw new PermanentJobError(`File not found: ${filePath}`);
+  }
+};
+
+/**
+ * Derive the probe-dependent columns of a media_library row
+ */
+const describeMedia = (metadata: FFprobeMetadata) => {
+  // Determine media type based on metadata
+  let media_type: MediaAsset['media_type'] = 'BROLL';
+  if (!metadata.has_video && metadata.has_audio) {
+    media_type = 'MUSIC'; // Audio-only defaults to MUSIC
+  } else if (metadata.has_video && !metadata.has_audio) {
+    media_type = 'BROLL'; // Video-only (B-Roll)
+  } else if (metadata.width === 0 && metadata.height === 0) {
+    media_type = 'IMAGE'; // Image file
+  }
+  // DIALOGUE and MULTICAM types will be set manually by user later
+
+  // Use total_frames from FFprobe if available, otherwise calculate
+  const total_frames = metadata.total_frames ||
+    (metadata.duration > 0 && metadata.fps > 0
+      ? Math.floor(metadata.duration * metadata.fps)
+      : null);
+
+  // End timecode is the first frame after the media, counted in the start
+  // timecode's own drop/non-drop notation
+  const start_tc = metadata.timecode_start;
+  const end_tc = start_tc && total_frames && metadata.fps > 0 && isValidTimecode(start_tc)
+    ? addFramesToTimecode(start_tc, total_frames, toFrameRate(metadata.fps))
+    : null;
+
+  return {
+    media_type,
+    fps: metadata.fps || null,
+    resolution: metadata.resolution,
+    start_tc,
+    end_tc,
+    total_frames,
+    duration: metadata.duration,
+    size: metadata.file_size,
+    video_codec: metadata.video_codec,
+    pixel_format: metadata.pixel_format,
+    bit_depth: metadata.bit_depth,
+    color_space: metadata.color_space,
+    color_transfer: metadata.color_transfer,
+    color_primaries: metadata.color_primaries,
+    pixel_aspect: metadata.pixel_aspect,
+    rotation: metadata.rotation,
+    audio_codec: metadata.audio_codec,
+    audio_channels: metadata.audio_channels,
+    audio_channel_layout: metadata.audio_channel_layout,
+    audio_sample_rate: metadata.audio_sample_rate,
+    audio_streams: metadata.audio_streams.length > 0 ? JSON.stringify(metadata.audio_streams) : null,
+    creation_date: metadata.creation_date,
+    camera_make: metadata.camera_make,
+    camera_model: metadata.camera_model,
+    reel_name: metadata.reel_name,
+    // Full probe result, for fields without a column of their own
+    metadata_raw: JSON.stringify(metadata),
+  };
+};
+
+type ProbedFields = ReturnType<typeof describeMedia>;
+
+// Columns re-written by probeAsset (everything describeMedia derives except media_type)
+const PROBED_COLUMNS = [
+  'fps',
+  'resolution',
+  'start_tc',
+  'end_tc',
+  'total_frames',
+  'duration',
+  'size',
+  'metadata_raw',
+  'video_codec',
+  'pixel_format',
+  'bit_depth',
+  'color_space',
+  'color_transfer',
+  'color_primaries',
+  'pixel_aspect',
+  'rotation',
+  'audio_codec',
+  'audio_channels',
+  'audio_channel_layout',
+  'audio_sample_rate',
+  'audio_streams',
+  'creation_date',
+  'camera_make',
+  'camera_model',
+  'reel_name',
+] as const satisfies readonly (keyof ProbedFields)[];
+
+const INSERT_COLUMNS = [
+  'id',
+  'project_id',
+  'file_name',
+  'clean_name',
+  'file_path',
+  'format',
+  'media_type',
+  ...PROBED_COLUMNS,
+  'created_at',
+] as const satisfies readonly (keyof MediaAsset)[];
+
+/**
+ * Probe a file and insert it into a project's media library
+ * @throws When the file type is unsupported, the file is missing or FFprobe fails
+ */
+export const importMediaFile = async (
+  db: StoryGraphDatabase,
+  projectId: string,
+  filePath: string
+): Promise<MediaAsset> => {
+  // Validate file is supported
+  if (!isSupportedMediaFile(filePath)) {
+    throw new PermanentJobError(`Unsupported file type: ${path.extname(filePath) || path.basename(filePath)}`);
+  }
+  await assertFileExists(filePath);
+
+  // Extract forensic metadata via FFprobe
+  const metadata = await extractMetadata(filePath);
+
+  const fileName = path.basename(filePath);
+  const asset: MediaAsset = {
+    id: uuidv4(),
+    project_id: projectId,
+    file_name: fileName,
+    clean_name: generateCleanName(fileName),
+    file_path: filePath,
+    format: path.extname(filePath).toLowerCase().replace('.', ''),
+    ...describeMedia(metadata),
+    created_at: new Date().toISOString(),
+  };
+
+  db.execute(
+    `INSERT INTO media_library (${INSERT_COLUMNS.join(', ')})
+     VALUES (${INSERT_COLUMNS.map(() => '?').join(', ')})`,
+    INSERT_COLUMNS.map(column => asset[column] ?? null)
+  );
+
+  console.log(`[Media Import] ✓ Imported: ${asset.clean_name} (${metadata.resolution} @ ${metadata.fps}fps)`);
+  return asset;
+};
+
+/**
+ * Re-run FFprobe on an existing asset (e.g. after relinking or replacing media)
+ * The media_type is kept, since the user may have changed it by hand.
+ */
+export const probeAsset = async (db: StoryGraphDatabase, assetId: string): Promise<MediaAsset> => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+  if (!asset) {
+    throw new PermanentJobError(`Asset not found: ${assetId}`);
+  }
+  await assertFileExists(asset.file_path);
+
+  const { media_type: _mediaType, ...probed } = describeMedia(await extractMetadata(asset.file_path));
+  db.execute(
+    `UPDATE media_library SET ${PROBED_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+    [...PROBED_COLUMNS.map(column => probed[column] ?? null), assetId]
+  );
+
+  console.log(`[Media Import] ✓ Re-probed: ${asset.clean_name}`);
+  return { ...asset, ...probed };
+};
@@ -0,0 +1,276 @@
+/**
+ * Job Service
+ * Persistent background queue for media work
+ *
+ * Jobs live in the jobs table so a quit mid-import resumes on next launch.
+ * Each job type has its own concurrency limit; a handler registered per type
+ * does the work and reports progress through its JobContext. Failed jobs are
+ * retried automatically after a growing delay until max_attempts; cancelled
+ * jobs and PermanentJobErrors never are.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import StoryGraphDatabase from '../database/schema';
+import { Job, JobType, JobStatus } from '../../shared/types';
+
+export interface JobContext {
+  signal: AbortSignal; // Aborted when the job is cancelled
+  reportProgress: (percent: number, message?: string) => void;
+}
+
+export type JobHandler = (db: StoryGraphDatabase, job: Job, context: JobContext) => Promise<any>;
+
+/**
+ * Thrown by a handler when another attempt cannot succeed (unsupported file,
+ * missing file, unconfigured engine); the job fails straight away
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+// Probes are cheap, transcodes are not
+const CONCURRENCY: Record<JobType, number> = {
+  import: 4,
+  probe: 4,
+  proxy: 1,
+  thumbnail: 2,
+  waveform: 2,
+  transcript: 1,
+  'multicam-sync': 1,
+};
+
+// Retry delay doubles per attempt: 2s, 4s, 8s… capped at a minute
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+const FINISHED: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+const handlers = new Map<JobType, JobHandler>();
+const running = new Map<string, AbortController>();
+const retryAt = new Map<string, number>(); // Job ID → earliest time of its next attempt
+let queueDb: StoryGraphDatabase | null = null;
+let notify: (channel: 'job:progress' | 'job:done', job: Job) => void = () => {};
+
+const rowToJob = (row: any): Job => ({
+  ...row,
+  payload: JSON.parse(row.payload),
+  result: row.result ? JSON.parse(row.result) : null,
+});
+
+export const getJob = (db: StoryGraphDatabase, jobId: string): Job | null => {
+  const row = db.query('SELECT * FROM jobs WHERE id = ?', [jobId])[0];
+  return row ? rowToJob(row) : null;
+};
+
+export const listJobs = (db: StoryGraphDatabase, projectId?: string): Job[] => {
+  const rows = projectId
+    ? db.query('SELECT * FROM jobs WHERE project_id = ? ORDER BY created_at DESC', [projectId])
+    : db.query('SELECT * FROM jobs ORDER BY created_at DESC');
+  return rows.map(rowToJob);
+};
+
+const updateJob = (db: StoryGraphDatabase, jobId: string, fields: Record<string, any>): Job | null => {
+  const keys = Object.keys(fields);
+  db.execute(
+    `UPDATE jobs SET ${keys.map(k => `${k} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+    [...keys.map(k => fields[k]), new Date().toISOString(), jobId]
+  );
+  const job = getJob(db, jobId);
+  if (job) {
+    notify(FINISHED.includes(job.status) ? 'job:done' : 'job:progress', job);
+  }
+  return job;
+};
+
+/**
+ * Register the function that performs one type of job
+ */
+export const registerJobHandler = (type: JobType, handler: JobHandler) => {
+  handlers.set(type, handler);
+};
+
+/**
+ * Add a job to the queue
+ * With unique set, an identical queued or running job is returned instead
+ * of a duplicate (e.g. two proxy requests for the same asset).
+ */
+export const enqueueJob = (
+  db: StoryGraphDatabase,
+  type: JobType,
+  payload: Record<string, any>,
+  options: { projectId?: string | null; maxAttempts?: number; unique?: boolean } = {}
+): Job => {
+  const payloadJson = JSON.stringify(payload);
+
+  if (options.unique) {
+    const existing = db.query(
+      `SELECT * FROM jobs WHERE type = ? AND payload = ? AND status IN ('queued', 'running') LIMIT 1`,
+      [type, payloadJson]
+    )[0];
+    if (existing) return rowToJob(existing);
+  }
+
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  db.execute(
+    `INSERT INTO jobs (id, project_id, type, status, payload, max_attempts, created_at, updated_at)
+     VALUES (?, ?, ?, 'queued', ?, ?, ?, ?)`,
+    [id, options.projectId || null, type, payloadJson, options.maxAttempts ?? 3, now, now]
+  );
+
+  const job = getJob(db, id)!;
+  notify('job:progress', job);
+  setImmediate(pump);
+  return job;
+};
+
+/**
+ * Cancel a job; a running job has its handler aborted
+ */
+export const cancelJob = (db: StoryGraphDatabase, jobId: string) => {
+  const controller = running.get(jobId);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+
+  const job = getJob(db, jobId);
+  if (job?.status === 'queued') {
+    retryAt.delete(jobId);
+    updateJob(db, jobId, { status: 'cancelled', message: 'Cancelled' });
+  }
+};
+
+/**
+ * Re-queue a failed or cancelled job with a fresh attempt budget
+ */
+export const retryJob = (db: StoryGraphDatabase, jobId: string) => {
+  const job = getJob(db, jobId);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+  retryAt.delete(jobId);
+  updateJob(db, jobId, { status: 'queued', attempts: 0, progress: 0, error: null, message: null });
+  setImmediate(pump);
+};
+
+/**
+ * Remove finished jobs from the list
+ */
+export const clearFinishedJobs = (db: StoryGraphDatabase, projectId?: string) => {
+  const placeholders = FINISHED.map(() => '?').join(', ');
+  if (projectId) {
+    db.execute(`DELETE FROM jobs WHERE status IN (${placeholders}) AND project_id = ?`, [...FINISHED, projectId]);
+  } else {
+    db.execute(`DELETE FROM jobs WHERE status IN (${placeholders})`, FINISHED);
+  }
+};
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+const runJob = async (db: StoryGraphDatabase, job: Job) => {
+  const handler = handlers.get(job.type)!;
+  const controller = new AbortController();
+  running.set(job.id, controller);
+
+  const attempt = job.attempts + 1;
+  updateJob(db, job.id, { status: 'running', attempts: attempt, progress: 0, error: null, message: null });
+
+  let lastProgress = -1;
+  const context: JobContext = {
+    signal: controller.signal,
+    reportProgress: (percent, message) => {
+      const rounded = Math.max(0, Math.min(100, Math.round(percent)));
+      if (rounded === lastProgress && message === undefined) return;
+      lastProgress = rounded;
+      updateJob(db, job.id, message === undefined ? { progress: rounded } : { progress: rounded, message });
+    },
+  };
+
+  try {
+    const result = await handler(db, { ...job, attempts: attempt }, context);
+    if (controller.signal.aborted) throw new Error('Cancelled');
+
+    updateJob(db, job.id, {
+      status: 'done',
+      progress: 100,
+      result: result === undefined ? null : JSON.stringify(result),
+    });
+    console.log(`[Jobs] ✓ ${job.type} ${job.id}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (controller.signal.aborted) {
+      updateJob(db, job.id, { status: 'cancelled', message: 'Cancelled' });
+      console.log(`[Jobs] Cancelled ${job.type} ${job.id}`);
+    } else if (attempt < job.max_attempts && !(error instanceof PermanentJobError)) {
+      const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      retryAt.set(job.id, Date.now() + delay);
+      setTimeout(pump, delay);
+      updateJob(db, job.id, {
+        status: 'queued',
+        error: message,
+        message: `Retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1} of ${job.max_attempts})`,
+      });
+      console.warn(`[Jobs] ${job.type} ${job.id} failed, retrying in ${delay}ms:`, message);
+    } else {
+      updateJob(db, job.id, { status: 'failed', error: message });
+      console.error(`[Jobs] ✗ ${job.type} ${job.id} failed:`, message);
+    }
+  } finally {
+    running.delete(job.id);
+    setImmediate(pump);
+  }
+};
+
+/**
+ * Start as many queued jobs as the per-type limits allow, oldest first
+ */
+const pump = () => {
+  const db = queueDb;
+  if (!db) return;
+
+  const active = new Map<JobType, number>();
+  db.query(`SELECT type, COUNT(*) AS count FROM jobs WHERE status = 'running' GROUP BY type`).forEach(
+    (row: { type: JobType; count: number }) => active.set(row.type, row.count)
+  );
+
+  const queued: any[] = db.query(`SELECT * FROM jobs WHERE status = 'queued' ORDER BY created_at ASC`);
+  queued.forEach(row => {
+    const job = rowToJob(row);
+    const count = active.get(job.type) || 0;
+    if (count >= CONCURRENCY[job.type]) return;
+    if ((retryAt.get(job.id) || 0) > Date.now()) return;
+    retryAt.delete(job.id);
+
+    if (!handlers.has(job.type)) {
+      updateJob(db, job.id, { status: 'failed', error: `No handler registered for ${job.type} jobs` });
+      return;
+    }
+
+    active.set(job.type, count + 1);
+    void runJob(db, job);
+  });
+};
+
+/**
+ * Attach the queue to a database and resume work left over from last session
+ * Jobs that were running when the app quit go back to the queue.
+ */
+export const startJobQueue = (
+  db: StoryGraphDatabase,
+  notifier: (channel: 'job:progress' | 'job:done', job: Job) => void
+) => {
+  queueDb = db;
+  notify = notifier;
+
+  db.execute(`UPDATE jobs SET status = 'queued', message = 'Resumed after restart' WHERE status = 'running'`);
+  const pending = db.query(`SELECT COUNT(*) AS count FROM jobs WHERE status = 'queued'`)[0]?.count || 0;
+  console.log(`[Jobs] Queue started (${pending} pending)`);
+
+  setImmediate(pump);
+};
@@ -6,6 +6,7 @@
 import { create } from 'xmlbuilder2';
 import { v4 as uuidv4 } from 'uuid';
 import StoryGraphDatabase from '../database/schema';
+import { MulticamMember } from '../../shared/types';
 
 // These interfaces are reserved for future use when we expand multicam parsing
 // interface MulticamAngle {
@@ -164,14 +165,11 @@ export const parseMulticamXml = async (
 };
 
 /**
- * Get all angles for a multicam clip
+ * Get all angles for a multicam clip, with their sync results
  */
-export const getMulticamAngles = (
-  db: StoryGraphDatabase,
-  multicamMediaId: string
-): Array<{ member_media_id: string; angle_label: string; sync_offset: number }> => {
+export const getMulticamAngles = (db: StoryGraphDatabase, multicamMediaId: string): MulticamMember[] => {
   return db.query(
-    `SELECT mm.member_media_id, mm.angle_label, mm.sync_offset, ml.file_path, ml.clean_name
+    `SELECT mm.*, ml.file_path, ml.clean_name, ml.fps
      FROM multicam_members mm
      JOIN media_library ml ON mm.member_media_id = ml.id
      WHERE mm.multicam_media_id = ?
@@ -200,6 +198,8 @@ export const setActiveAngle = (
 
 /**
  * Create a multicam clip manually from selected media assets
+ * Angles given a syncOffset count as synced by hand; the others are left
+ * unsynced for a 'multicam-sync' job.
  */
 export const createMulticamFromAssets = (
   db: StoryGraphDatabase,
@@ -220,9 +220,16 @@ export const createMulticamFromAssets = (
   angles.forEach((angle) => {
     db.execute(
       `INSERT INTO multicam_members (
-        multicam_media_id, member_media_id, angle_label, sync_offset
-      ) VALUES (?, ?, ?, ?)`,
-      [multicamId, angle.mediaId, angle.label, angle.syncOffset || 0]
+        multicam_media_id, member_media_id, angle_label, sync_offset, sync_method, sync_confidence
+      ) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        multicamId,
+        angle.mediaId,
+        angle.label,
+        angle.syncOffset ?? 0,
+        angle.syncOffset === undefined ? null : 'MANUAL',
+        angle.syncOffset === undefined ? null : 1,
+      ]
     );
   });
 
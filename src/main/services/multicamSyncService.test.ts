@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-test-'));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const { default: StoryGraphDatabase } = await import('../database/schema');
+const { calculateSyncOffset, correlateEnvelopes, syncMulticamAngles } = await import('./multicamSyncService');
+
+afterAll(() => {
+  fs.rmSync(userData, { recursive: true, force: true });
+});
+
+// Seeded PRNG (mulberry32) so the envelopes are the same on every run
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Sparse onsets at 100 values per second, like speech and claps
+const envelope = (seconds: number, seed: number): Float64Array => {
+  const next = random(seed);
+  return Float64Array.from({ length: seconds * 100 }, () => (next() < 0.05 ? next() : 0));
+};
+
+describe('correlateEnvelopes', () => {
+  const reference = envelope(60, 1);
+
+  it('finds an angle that starts after the reference', () => {
+    const match = correlateEnvelopes(reference, reference.slice(1234, 4234));
+
+    expect(match?.offset).toBeCloseTo(12.34, 2);
+    expect(match?.confidence).toBe(1);
+  });
+
+  it('finds an angle that starts before the reference', () => {
+    const target = new Float64Array(3500);
+    target.set(envelope(5, 2));
+    target.set(reference.slice(0, 3000), 500);
+
+    const match = correlateEnvelopes(reference, target);
+
+    expect(match?.offset).toBeCloseTo(-5, 2);
+    expect(match?.confidence).toBe(1);
+  });
+
+  it('scores unrelated audio low enough to be flagged for review', () => {
+    expect(correlateEnvelopes(reference, envelope(30, 3))?.confidence).toBeLessThan(0.5);
+  });
+
+  it('refuses tracks shorter than the minimum overlap', () => {
+    expect(correlateEnvelopes(reference, envelope(4, 4))).toBeNull();
+  });
+});
+
+describe('calculateSyncOffset', () => {
+  it('measures the gap between start timecodes, across drop-frame and midnight', () => {
+    expect(calculateSyncOffset('10:00:00:00', 25, '10:00:02:12', 25)).toBeCloseTo(2.48, 6);
+    expect(calculateSyncOffset('00:59:59;28', 29.97, '01:00:00;00', 29.97)).toBeCloseTo(2 * 1001 / 30000, 6);
+    expect(calculateSyncOffset('23:59:59:00', 24, '00:00:01:00', 24)).toBeCloseTo(2, 6);
+  });
+});
+
+describe('syncMulticamAngles', () => {
+  it('keeps offsets set by hand and places the other angles from them, unless re-syncing', async () => {
+    const db = new StoryGraphDatabase(`multicam-${Date.now()}`);
+
+    try {
+      db.execute("INSERT INTO projects (id, name, defaultFps) VALUES ('p1', 'Test', 25)");
+      db.execute(
+        `INSERT INTO media_library (id, project_id, file_name, clean_name, file_path, media_type, fps, duration, start_tc)
+         VALUES ('mc', 'p1', 'MC', 'MC', '', 'MULTICAM', 25, 60, NULL),
+                ('a', 'p1', 'a.mov', 'a', '', 'BROLL', 25, 60, '10:00:00:00'),
+                ('b', 'p1', 'b.mov', 'b', '', 'BROLL', 25, 60, '10:00:02:00')`
+      );
+      db.execute(
+        `INSERT INTO multicam_members (multicam_media_id, member_media_id, angle_label, sync_offset, sync_method, sync_confidence)
+         VALUES ('mc', 'a', 'A', 5, 'MANUAL', 1), ('mc', 'b', 'B', 0, NULL, NULL)`
+      );
+      const stored = () =>
+        db.query('SELECT member_media_id, sync_offset, sync_method FROM multicam_members ORDER BY member_media_id');
+
+      await syncMulticamAngles(db, 'mc', () => {});
+      expect(stored()).toEqual([
+        { member_media_id: 'a', sync_offset: 5, sync_method: 'MANUAL' },
+        { member_media_id: 'b', sync_offset: 7, sync_method: 'TIMECODE' },
+      ]);
+
+      await syncMulticamAngles(db, 'mc', () => {}, undefined, { resync: true });
+      expect(stored()).toEqual([
+        { member_media_id: 'a', sync_offset: 0, sync_method: 'TIMECODE' },
+        { member_media_id: 'b', sync_offset: 2, sync_method: 'TIMECODE' },
+      ]);
+    } finally {
+      // Skips close()'s final backup, which would outlive the connection
+      db.getDatabase().close();
+    }
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Multicam Sync Service
+ * Line up multicam angles by start timecode, falling back to their audio
+ * Phase 8: Multicam
+ *
+ * sync_offset is the time in seconds from the start of the earliest angle to
+ * an angle's first frame. Angles whose start timecodes overlap are placed by
+ * timecode (confidence 1). The rest are matched against a reference angle's
+ * audio: both tracks are decoded to a 100 Hz onset envelope (rises in
+ * loudness, so differing mic gain and room tone matter little) and
+ * cross-correlated with an FFT. Confidence comes from how far the best match
+ * stands out from every other alignment; low scores are for the user to check.
+ * Offsets set by hand (MANUAL) stay put and anchor the others unless a re-sync
+ * is asked for explicitly.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, MulticamSyncMethod } from '../../shared/types';
+import { framesToSeconds, isValidTimecode, timecodeToFrames, toFrameRate } from '../../shared/timecode';
+import { parseMediaFlags } from './exportService';
+
+const SAMPLE_RATE = 8000;
+const ENVELOPE_RATE = 100; // Envelope values per second (10 ms resolution)
+const SAMPLES_PER_ENVELOPE = SAMPLE_RATE / ENVELOPE_RATE;
+const MAX_ANALYSIS_SECONDS = 20 * 60; // Audio decoded per angle; angles must overlap within it
+const MIN_OVERLAP_SECONDS = 5; // Alignments sharing less audio than this are ignored
+const PEAK_EXCLUSION_SECONDS = 0.5; // Around the best match when measuring the rest
+// Peak-to-sidelobe ratios mapped onto 0-1 confidence; random alignments of
+// unrelated audio rarely reach the floor
+const PSR_FLOOR = 5;
+const PSR_CEILING = 15;
+const SECONDS_PER_DAY = 24 * 3600;
+
+interface AngleSyncResult {
+  memberMediaId: string;
+  angleLabel: string;
+  syncOffset: number;
+  method: MulticamSyncMethod | null;
+  confidence: number;
+}
+
+interface SyncAngle {
+  memberMediaId: string;
+  angleLabel: string;
+  asset: MediaAsset;
+  hasAudio: boolean;
+  tcStart: number | null; // Seconds, null when the angle has no usable timecode
+  position: number | null; // Seconds on the reference's timeline once synced
+  method: MulticamSyncMethod | null;
+  confidence: number;
+}
+
+const timecodeToSeconds = (timecode: string, fps: number): number => {
+  const rate = toFrameRate(fps);
+  return framesToSeconds(timecodeToFrames(timecode, rate), rate);
+};
+
+/**
+ * Seconds from the reference angle's start timecode to the target's
+ * Drop-frame timecode is honoured; a gap of more than half a day is taken as
+ * a recording that ran past midnight.
+ */
+export const calculateSyncOffset = (
+  referenceTimecode: string,
+  referenceFps: number,
+  targetTimecode: string,
+  targetFps: number
+): number => {
+  const offset = timecodeToSeconds(targetTimecode, targetFps) - timecodeToSeconds(referenceTimecode, referenceFps);
+  if (offset > SECONDS_PER_DAY / 2) return offset - SECONDS_PER_DAY;
+  if (offset < -SECONDS_PER_DAY / 2) return offset + SECONDS_PER_DAY;
+  return offset;
+};
+
+// Cameras without timecode tend to report 00:00:00:00 (or nothing) for every clip
+const hasUsableTimecode = (asset: MediaAsset): boolean =>
+  !!asset.fps && isValidTimecode(asset.start_tc) && timecodeToFrames(asset.start_tc, toFrameRate(asset.fps)) > 0;
+
+/**
+ * Decode an angle's first audio stream into an onset envelope
+ * Each value is the rise in log RMS level over the previous 10 ms.
+ */
+const decodeOnsetEnvelope = async (
+  filePath: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Float64Array> => {
+  const envelope: number[] = [];
+  let previousLevel = 0;
+  let sumSquares = 0;
+  let sampleCount = 0;
+  let carry: Buffer | null = null; // Odd trailing byte between chunks
+  const expectedValues = MAX_ANALYSIS_SECONDS * ENVELOPE_RATE;
+
+  const consume = (chunk: Buffer) => {
+    const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+    const usable = data.length - (data.length % 2);
+    carry = usable < data.length ? data.subarray(usable) : null;
+
+    for (let offset = 0; offset < usable; offset += 2) {
+      const sample = data.readInt16LE(offset) / 32768;
+      sumSquares += sample * sample;
+      if (++sampleCount === SAMPLES_PER_ENVELOPE) {
+        const level = Math.log10(1e-4 + Math.sqrt(sumSquares / SAMPLES_PER_ENVELOPE));
+        envelope.push(Math.max(0, level - previousLevel));
+        previousLevel = level;
+        sumSquares = 0;
+        sampleCount = 0;
+      }
+    }
+    onProgress(Math.min(1, envelope.length / expectedValues));
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const command = ffmpeg(filePath)
+      .noVideo()
+      .outputOptions(['-map 0:a:0'])
+      .duration(MAX_ANALYSIS_SECONDS)
+      .audioChannels(1)
+      .audioFrequency(SAMPLE_RATE)
+      .format('s16le')
+      .on('error', (err: Error) => reject(signal?.aborted ? new Error('Cancelled') : err))
+      // A killed decode can still exit cleanly with a truncated envelope
+      .on('end', () => (signal?.aborted ? reject(new Error('Cancelled')) : resolve()));
+
+    if (signal?.aborted) return reject(new Error('Cancelled'));
+    signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+
+    command.pipe().on('data', consume);
+  });
+
+  return Float64Array.from(envelope);
+};
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+const fft = (re: Float64Array, im: Float64Array, inverse = false): void => {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const swapRe = re[i];
+      const swapIm = im[i];
+      re[i] = re[j];
+      im[i] = im[j];
+      re[j] = swapRe;
+      im[j] = swapIm;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+const normalize = (values: Float64Array): Float64Array => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const deviation = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length) || 1;
+  return values.map(v => (v - mean) / deviation);
+};
+
+/**
+ * Find where the target's envelope sits within the reference's
+ * Returns the target's start in seconds after the reference's start (negative
+ * when it starts earlier), or null when the tracks are too short to compare.
+ */
+export const correlateEnvelopes = (
+  reference: Float64Array,
+  target: Float64Array
+): { offset: number; confidence: number } | null => {
+  const minOverlap = MIN_OVERLAP_SECONDS * ENVELOPE_RATE;
+  if (reference.length < minOverlap || target.length < minOverlap) return null;
+
+  let n = 1;
+  while (n < reference.length + target.length) n <<= 1;
+
+  const refRe = new Float64Array(n);
+  const refIm = new Float64Array(n);
+  const targetRe = new Float64Array(n);
+  const targetIm = new Float64Array(n);
+  refRe.set(normalize(reference));
+  targetRe.set(normalize(target));
+  fft(refRe, refIm);
+  fft(targetRe, targetIm);
+
+  // reference × conj(target): index k holds Σ reference[t + k] · target[t]
+  for (let i = 0; i < n; i++) {
+    const re = refRe[i] * targetRe[i] + refIm[i] * targetIm[i];
+    const im = refIm[i] * targetRe[i] - refRe[i] * targetIm[i];
+    refRe[i] = re;
+    refIm[i] = im;
+  }
+  fft(refRe, refIm, true);
+
+  // Lags where the angles share at least minOverlap of audio
+  const minLag = -(target.length - minOverlap);
+  const maxLag = reference.length - minOverlap;
+  // Scaled by the square root of the overlap, so unrelated audio scores alike at every lag
+  const at = (lag: number) =>
+    refRe[(lag + n) % n] / Math.sqrt(Math.min(reference.length, lag + target.length) - Math.max(0, lag));
+
+  let bestLag = 0;
+  let best = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (at(lag) > best) {
+      best = at(lag);
+      bestLag = lag;
+    }
+  }
+
+  const exclusion = PEAK_EXCLUSION_SECONDS * ENVELOPE_RATE;
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (Math.abs(lag - bestLag) <= exclusion) continue;
+    count++;
+    sum += at(lag);
+    sumSquares += at(lag) ** 2;
+  }
+  if (count === 0) return null;
+
+  const mean = sum / count;
+  const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) || 1;
+  const psr = (best - mean) / deviation;
+
+  // Parabolic interpolation between neighbouring lags for sub-10 ms precision
+  let lag = bestLag;
+  if (bestLag > minLag && bestLag < maxLag) {
+    const [before, after] = [at(bestLag - 1), at(bestLag + 1)];
+    const curvature = before - 2 * best + after;
+    if (curvature < 0) lag += (0.5 * (before - after)) / curvature;
+  }
+
+  return {
+    offset: lag / ENVELOPE_RATE,
+    confidence: Math.min(1, Math.max(0, (psr - PSR_FLOOR) / (PSR_CEILING - PSR_FLOOR))),
+  };
+};
+
+/**
+ * Work out and store every angle's sync_offset for a multicam clip
+ * Runs as a 'multicam-sync' job. Angles that can be placed neither way keep
+ * offset 0 with no method, so the panel shows them as unsynced. MANUAL angles
+ * are left alone and used as fixed positions; with resync they are worked
+ * out again like the rest.
+ */
+export const syncMulticamAngles = async (
+  db: StoryGraphDatabase,
+  multicamMediaId: string,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal,
+  options: { resync?: boolean } = {}
+): Promise<{ multicamMediaId: string; angles: AngleSyncResult[] }> => {
+  const members = db.query(
+    `SELECT mm.member_media_id, mm.angle_label, mm.sync_offset AS member_sync_offset,
+            mm.sync_method AS member_sync_method, mm.sync_confidence AS member_sync_confidence, ml.*
+     FROM multicam_members mm
+     JOIN media_library ml ON ml.id = mm.member_media_id
+     WHERE mm.multicam_media_id = ?
+     ORDER BY mm.angle_label`,
+    [multicamMediaId]
+  );
+  if (members.length === 0) {
+    throw new Error(`Multicam clip has no angles: ${multicamMediaId}`);
+  }
+
+  const angles: SyncAngle[] = members.map(row => {
+    const asset = row as MediaAsset;
+    const fixed = !options.resync && row.member_sync_method === 'MANUAL';
+    return {
+      memberMediaId: row.member_media_id,
+      angleLabel: row.angle_label,
+      asset,
+      hasAudio: parseMediaFlags(asset).hasAudio && fs.existsSync(asset.file_path),
+      tcStart: hasUsableTimecode(asset) ? timecodeToSeconds(asset.start_tc!, asset.fps!) : null,
+      position: fixed ? row.member_sync_offset ?? 0 : null,
+      method: fixed ? 'MANUAL' : null,
+      confidence: fixed ? row.member_sync_confidence ?? 1 : 0,
+    };
+  });
+  const longestFirst = (a: SyncAngle, b: SyncAngle) => (b.asset.duration || 0) - (a.asset.duration || 0);
+  const isFixed = (angle: SyncAngle) => angle.method === 'MANUAL';
+  // Whether the synced angles were measured from a fixed one, so share its timeline
+  let anchored = false;
+
+  // Timecode: place every angle whose span overlaps the reference: a fixed
+  // angle if one has timecode, else the longest timecoded angle
+  const timecoded = angles.filter(angle => angle.tcStart !== null).sort(longestFirst);
+  const tcReference = timecoded.find(isFixed) ?? timecoded.find(angle => angle.hasAudio) ?? timecoded[0];
+  if (tcReference) {
+    anchored = isFixed(tcReference);
+    const referencePosition = tcReference.position ?? 0;
+    const referenceStart = tcReference.tcStart!;
+    const referenceEnd = referenceStart + (tcReference.asset.duration || 0);
+    for (const angle of timecoded) {
+      if (isFixed(angle)) continue;
+      const offset = calculateSyncOffset(tcReference.asset.start_tc!, tcReference.asset.fps!, angle.asset.start_tc!, angle.asset.fps!);
+      const start = referenceStart + offset;
+      if (angle !== tcReference && (start >= referenceEnd || start + (angle.asset.duration || 0) <= referenceStart)) {
+        continue; // Timecode puts it outside the shoot; likely not jam-synced
+      }
+      Object.assign(angle, { position: referencePosition + offset, method: 'TIMECODE', confidence: 1 });
+    }
+  }
+
+  // Audio: match the rest against a fixed or timecoded angle with sound, or
+  // failing that the longest angle with sound (which then starts where the
+  // timecoded ones do)
+  const unplaced = angles.filter(angle => angle.method === null && angle.hasAudio);
+  const audioReference =
+    angles.filter(angle => isFixed(angle) && angle.hasAudio).sort(longestFirst)[0] ??
+    angles.filter(angle => angle.method === 'TIMECODE' && angle.hasAudio).sort(longestFirst)[0] ??
+    angles.filter(angle => angle.hasAudio).sort(longestFirst)[0];
+  if (audioReference && isFixed(audioReference)) anchored = true;
+
+  if (audioReference && unplaced.some(angle => angle !== audioReference)) {
+    const decodes = unplaced.filter(angle => angle !== audioReference).length + 1;
+    let decoded = 0;
+    const decode = async (angle: SyncAngle) => {
+      const envelope = await decodeOnsetEnvelope(
+        angle.asset.file_path,
+        fraction => onProgress(Math.min(99, Math.floor(((decoded + fraction) / decodes) * 100))),
+        signal
+      );
+      decoded++;
+      return envelope;
+    };
+
+    const referenceEnvelope = await decode(audioReference);
+    if (audioReference.method === null) {
+      Object.assign(audioReference, { position: 0, method: 'AUDIO', confidence: 1 });
+    }
+
+    for (const angle of unplaced) {
+      if (angle === audioReference) continue;
+      if (signal?.aborted) throw new Error('Cancelled');
+
+      const match = correlateEnvelopes(referenceEnvelope, await decode(angle));
+      if (!match) {
+        console.warn(`[Multicam] ${angle.angleLabel}: too little audio to sync`);
+        continue;
+      }
+      Object.assign(angle, {
+        position: audioReference.position! + match.offset,
+        method: 'AUDIO',
+        confidence: match.confidence,
+      });
+    }
+  }
+
+  // Shift so the earliest synced angle starts at 0, unless they were measured
+  // from a fixed angle; one that would then start before 0 cannot be placed
+  const synced = angles.filter(angle => angle.position !== null && !isFixed(angle));
+  const earliest = !anchored && synced.length > 0 ? Math.min(...synced.map(angle => angle.position!)) : 0;
+  const results: AngleSyncResult[] = angles.map(angle => {
+    const syncOffset = angle.position === null ? 0 : Math.round((angle.position - earliest) * 1000) / 1000;
+    if (syncOffset < 0) {
+      console.warn(`[Multicam] ${angle.angleLabel}: starts before the angles synced by hand`);
+      return { memberMediaId: angle.memberMediaId, angleLabel: angle.angleLabel, syncOffset: 0, method: null, confidence: 0 };
+    }
+    return {
+      memberMediaId: angle.memberMediaId,
+      angleLabel: angle.angleLabel,
+      syncOffset,
+      method: angle.method,
+      confidence: Math.round(angle.confidence * 100) / 100,
+    };
+  });
+
+  if (signal?.aborted) throw new Error('Cancelled');
+  db.getDatabase().transaction(() => {
+    for (const result of results) {
+      if (result.method === 'MANUAL') continue; // Fixed angles are stored already
+      db.execute(
+        `UPDATE multicam_members SET sync_offset = ?, sync_method = ?, sync_confidence = ?
+         WHERE multicam_media_id = ? AND member_media_id = ?`,
+        [result.syncOffset, result.method, result.method ? result.confidence : null, multicamMediaId, result.memberMediaId]
+      );
+    }
+  })();
+
+  for (const result of results) {
+    console.log(
+      `[Multicam] ${result.angleLabel}: ${result.method ? `${result.syncOffset.toFixed(3)}s by ${result.method} (${Math.round(result.confidence * 100)}%)` : 'not synced'}`
+    );
+  }
+  return { multicamMediaId, angles: results };
+};
+
+/**
+ * Set one angle's offset by hand, e.g. after reviewing a low-confidence match
+ */
+export const setAngleSyncOffset = (
+  db: StoryGraphDatabase,
+  multicamMediaId: string,
+  memberMediaId: string,
+  syncOffset: number
+): { success: boolean; error?: string } => {
+  if (!Number.isFinite(syncOffset) || syncOffset < 0) {
+    return { success: false, error: 'Sync offset must be zero or more seconds' };
+  }
+  const member = db.query(
+    'SELECT angle_label FROM multicam_members WHERE multicam_media_id = ? AND member_media_id = ?',
+    [multicamMediaId, memberMediaId]
+  )[0];
+  if (!member) {
+    return { success: false, error: 'Angle not found in this multicam clip' };
+  }
+
+  db.execute(
+    `UPDATE multicam_members SET sync_offset = ?, sync_method = 'MANUAL', sync_confidence = 1
+     WHERE multicam_media_id = ? AND member_media_id = ?`,
+    [syncOffset, multicamMediaId, memberMediaId]
+  );
+  console.log(`[Multicam] ${member.angle_label}: ${syncOffset.toFixed(3)}s set by hand`);
+  return { success: true };
+};
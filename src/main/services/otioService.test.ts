@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-test-'));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const { default: StoryGraphDatabase } = await import('../database/schema');
+const { generateOTIO, importOTIO } = await import('./otioService');
+
+afterAll(() => {
+  fs.rmSync(userData, { recursive: true, force: true });
+});
+
+describe('OTIO round trip', () => {
+  it('exports the spine as V1 and imports it back as the spine, with a track below it', async () => {
+    const db = new StoryGraphDatabase(`otio-${Date.now()}`);
+    const filePath = path.join(userData, 'cut.otio');
+
+    try {
+      db.execute("INSERT INTO projects (id, name, defaultFps) VALUES ('p1', 'Test', 25)");
+      db.execute("INSERT INTO canvases (id, project_id, name, FPS) VALUES ('c1', 'p1', 'Main', 25)");
+      db.execute(
+        `INSERT INTO media_library (id, project_id, file_name, clean_name, file_path, media_type, fps, duration)
+         VALUES ('m1', 'p1', 'a.mov', 'a', '/media/a.mov', 'DIALOGUE', 25, 10),
+                ('m2', 'p1', 'b.mov', 'b', '/media/b.mov', 'BROLL', 25, 10)`
+      );
+      db.execute(
+        `INSERT INTO story_nodes (id, canvas_id, asset_id, type, subtype, anchor_id, connection_mode, drift_x, drift_y, clip_in, clip_out)
+         VALUES ('spine', 'c1', 'm1', 'SPINE', 'VIDEO', NULL, NULL, 0, 0, 0, 4),
+                ('under', 'c1', 'm2', 'SATELLITE', 'VIDEO', 'spine', 'STACK', 1, -2, 0, 2)`
+      );
+
+      expect(await generateOTIO(db, 'c1', filePath)).toEqual({ success: true });
+
+      const tracks = JSON.parse(fs.readFileSync(filePath, 'utf-8')).tracks.children;
+      expect(tracks.map((t: { name: string; metadata: object }) => [t.name, t.metadata])).toEqual([
+        ['V1', { storygraph: { track: 0 } }],
+        ['V2', { storygraph: { track: -1 } }],
+      ]);
+
+      const result = await importOTIO(db, 'p1', filePath);
+
+      expect(result.success).toBe(true);
+      expect(
+        db.query("SELECT asset_id FROM story_nodes WHERE canvas_id = ? AND type = 'SPINE' AND anchor_id IS NULL", [result.canvasId])
+      ).toEqual([{ asset_id: 'm1' }]);
+    } finally {
+      // Skips close()'s final backup, which would outlive the connection
+      db.getDatabase().close();
+    }
+  });
+});
@@ -0,0 +1,537 @@
+/**
+ * OTIO Service
+ * OpenTimelineIO (.otio JSON) export and import for pipeline scripts
+ * Phase 9: Export & Flattening
+ *
+ * Export writes the flattened canvas as a Timeline with one Track per lane;
+ * ACT/SCENE containers become markers on the top-level Stack.
+ * Import rebuilds a new canvas where each track is a chain of APPEND anchors:
+ * the spine track (tagged by our exporter, otherwise the first video track
+ * with clips) becomes the spine, every other track is stacked on the origin
+ * with drift offsets so the flattened result matches the source.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import StoryGraphDatabase from '../database/schema';
+import { Canvas, MediaAsset, StoryNode, FlattenedClip, FractalContainer } from '../../shared/types';
+import { loadCanvasTimeline, getContainerRange } from './flattenService';
+import { toFrameRate, timecodeToFrames, framesToTimecode, secondsToFrames } from '../../shared/timecode';
+import { parseMediaFlags } from './exportService';
+import { COUPLER_GAP, STACK_GAP, SPINE_SIZE, SATELLITE_SIZE } from '../../shared/layout';
+import { generateCleanName } from './ffmpeg';
+
+// ============================================================================
+// OTIO SCHEMA HELPERS
+// ============================================================================
+
+interface OtioRationalTime {
+  OTIO_SCHEMA: 'RationalTime.1';
+  rate: number;
+  value: number;
+}
+
+interface OtioTimeRange {
+  OTIO_SCHEMA: 'TimeRange.1';
+  start_time: OtioRationalTime;
+  duration: OtioRationalTime;
+}
+
+const rationalTime = (value: number, rate: number): OtioRationalTime => ({
+  OTIO_SCHEMA: 'RationalTime.1',
+  rate,
+  value,
+});
+
+const timeRange = (start: number, duration: number, rate: number): OtioTimeRange => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start, rate),
+  duration: rationalTime(duration, rate),
+});
+
+const toSeconds = (time: OtioRationalTime | undefined): number =>
+  time && time.rate > 0 ? time.value / time.rate : 0;
+
+// The subset of the OTIO schema read on import (written files carry more)
+interface OtioMediaReference {
+  OTIO_SCHEMA: string;
+  name?: string;
+  target_url?: string;
+  available_range?: OtioTimeRange;
+}
+
+interface OtioItem {
+  OTIO_SCHEMA: string;
+  name?: string;
+  source_range?: OtioTimeRange;
+  media_references?: Record<string, OtioMediaReference>; // Clip.2
+  active_media_reference_key?: string;
+  media_reference?: OtioMediaReference; // Clip.1
+}
+
+interface OtioTrack {
+  OTIO_SCHEMA: string;
+  name?: string;
+  kind?: 'Video' | 'Audio';
+  children?: OtioItem[];
+  metadata?: { storygraph?: { track?: number } };
+}
+
+interface OtioTimeline {
+  OTIO_SCHEMA: string;
+  name?: string;
+  global_start_time?: OtioRationalTime;
+  tracks?: { children?: OtioTrack[] };
+  metadata?: { storygraph?: { fps?: number; resolution?: string; timecode_mode?: string } };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Pack clips into non-overlapping lanes (OTIO tracks are strictly sequential)
+ */
+const packLanes = (clips: FlattenedClip[]): FlattenedClip[][] => {
+  const lanes: FlattenedClip[][] = [];
+  [...clips]
+    .sort((a, b) => a.startFrame - b.startFrame)
+    .forEach(clip => {
+      const lane = lanes.find(l => l[l.length - 1].endFrame <= clip.startFrame);
+      if (lane) {
+        lane.push(clip);
+      } else {
+        lanes.push([clip]);
+      }
+    });
+  return lanes;
+};
+
+/**
+ * Generate an OTIO timeline for a canvas
+ */
+export const generateOTIO = async (
+  db: StoryGraphDatabase,
+  canvasId: string,
+  filePath: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+    const fps = canvas.FPS;
+
+    const assetOf = (clip: FlattenedClip): MediaAsset | undefined => {
+      const assetId = nodes.get(clip.nodeId)?.asset_id;
+      return assetId ? assets.get(assetId) : undefined;
+    };
+
+    const buildClip = (clip: FlattenedClip) => {
+      const node = nodes.get(clip.nodeId)!;
+      const asset = assetOf(clip);
+      const sourceIn = secondsToFrames(node.clip_in || 0, toFrameRate(fps));
+      const metadata = {
+        storygraph: {
+          node_id: node.id,
+          asset_id: node.asset_id || null,
+          type: node.type,
+          subtype: node.subtype,
+        },
+      };
+
+      if (!asset) {
+        return {
+          OTIO_SCHEMA: 'Clip.2',
+          name: node.subtype,
+          source_range: timeRange(sourceIn, clip.endFrame - clip.startFrame, fps),
+          media_references: { DEFAULT_MEDIA: { OTIO_SCHEMA: 'MissingReference.1', metadata: {} } },
+          active_media_reference_key: 'DEFAULT_MEDIA',
+          markers: [],
+          effects: [],
+          metadata,
+        };
+      }
+
+      const assetRate = toFrameRate(asset.fps || fps);
+      const assetStart = Math.round(timecodeToFrames(asset.start_tc, assetRate) * fps / assetRate.nominal);
+      const assetFrames = asset.total_frames
+        ? Math.round(asset.total_frames * fps / (asset.fps || fps))
+        : Math.round((asset.duration || 0) * fps);
+
+      return {
+        OTIO_SCHEMA: 'Clip.2',
+        name: asset.clean_name || asset.file_name,
+        source_range: timeRange(assetStart + sourceIn, clip.endFrame - clip.startFrame, fps),
+        media_references: {
+          DEFAULT_MEDIA: {
+            OTIO_SCHEMA: 'ExternalReference.1',
+            name: asset.file_name,
+            target_url: pathToFileURL(asset.file_path).href,
+            available_range: timeRange(assetStart, assetFrames, fps),
+            metadata: {},
+          },
+        },
+        active_media_reference_key: 'DEFAULT_MEDIA',
+        markers: [],
+        effects: [],
+        metadata,
+      };
+    };
+
+    const buildTrack = (name: string, kind: 'Video' | 'Audio', laneClips: FlattenedClip[], metadata: object = {}) => {
+      const children: object[] = [];
+      let cursor = 0;
+      laneClips.forEach(clip => {
+        if (clip.startFrame > cursor) {
+          children.push({
+            OTIO_SCHEMA: 'Gap.1',
+            name: '',
+            source_range: timeRange(0, clip.startFrame - cursor, fps),
+            markers: [],
+            effects: [],
+            metadata: {},
+          });
+        }
+        children.push(buildClip(clip));
+        cursor = clip.endFrame;
+      });
+      return { OTIO_SCHEMA: 'Track.1', name, kind, children, markers: [], effects: [], metadata };
+    };
+
+    // Picture (and text) clips go to video tracks, audio-only media to audio tracks
+    const placed = clips.filter(c => c.endFrame > c.startFrame);
+    const isAudioOnly = (clip: FlattenedClip) => {
+      const asset = assetOf(clip);
+      return !!asset && !parseMediaFlags(asset).hasVideo;
+    };
+
+    // The spine (track 0) is always V1, whatever sits below it: importers,
+    // ours included, take the first video track as the main one
+    const videoTracks: object[] = [];
+    const trackNumbers = Array.from(new Set(placed.filter(c => !isAudioOnly(c)).map(c => c.track)))
+      .sort((a, b) => (a === 0 ? -1 : b === 0 ? 1 : a - b));
+    trackNumbers.forEach(track => {
+      packLanes(placed.filter(c => c.track === track && !isAudioOnly(c))).forEach(lane => {
+        videoTracks.push(buildTrack(`V${videoTracks.length + 1}`, 'Video', lane, { storygraph: { track } }));
+      });
+    });
+
+    const audioTracks = packLanes(placed.filter(isAudioOnly))
+      .map((lane, index) => buildTrack(`A${index + 1}`, 'Audio', lane));
+
+    // Containers as markers spanning their range
+    const containers: FractalContainer[] = db.query(
+      'SELECT * FROM fractal_containers WHERE canvas_id = ? ORDER BY type, name',
+      [canvasId]
+    );
+    const markers = containers.flatMap(container => {
+      const range = getContainerRange(container, clips, Array.from(nodes.values()));
+      if (!range) return [];
+      return [{
+        OTIO_SCHEMA: 'Marker.2',
+        name: container.name,
+        color: container.type === 'ACT' ? 'ORANGE' : 'GREEN',
+        marked_range: timeRange(range.in, range.out - range.in, fps),
+        comment: container.type,
+        metadata: { storygraph: { container_id: container.id, type: container.type } },
+      }];
+    });
+
+    const timeline = {
+      OTIO_SCHEMA: 'Timeline.1',
+      name: canvas.name,
+      global_start_time: rationalTime(0, fps),
+      tracks: {
+        OTIO_SCHEMA: 'Stack.1',
+        name: 'tracks',
+        children: [...videoTracks, ...audioTracks],
+        markers,
+        effects: [],
+        metadata: {},
+      },
+      metadata: {
+        storygraph: {
+          canvas_id: canvas.id,
+          fps,
+          resolution: canvas.Resolution,
+          timecode_mode: canvas.Timecode_mode,
+        },
+      },
+    };
+
+    await fs.writeFile(filePath, JSON.stringify(timeline, null, 2));
+
+    console.log(`[OTIO] Exported ${videoTracks.length} video / ${audioTracks.length} audio tracks to ${filePath}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[OTIO] Error generating OTIO:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+interface ImportedClip {
+  name: string;
+  startSeconds: number; // Record position on the track
+  durationSeconds: number;
+  sourceInSeconds: number; // Offset into the media's available range
+  filePath: string | null;
+  availableRange?: OtioTimeRange;
+}
+
+const getMediaReference = (clip: OtioItem): OtioMediaReference | undefined => {
+  if (clip.media_references) {
+    return clip.media_references[clip.active_media_reference_key || 'DEFAULT_MEDIA'];
+  }
+  return clip.media_reference;
+};
+
+/**
+ * Read the clips of an OTIO track with their record positions resolved
+ * Items are laid end to end; anything that is not a clip just occupies time.
+ */
+const readTrackClips = (track: OtioTrack): ImportedClip[] => {
+  const result: ImportedClip[] = [];
+  let cursor = 0;
+
+  (track.children || []).forEach(item => {
+    const schema = item.OTIO_SCHEMA || '';
+    if (schema.startsWith('Transition')) return;
+
+    const duration = toSeconds(item.source_range?.duration);
+    if (schema.startsWith('Clip') && item.source_range && duration > 0) {
+      const reference = getMediaReference(item);
+      // NTSC tools write fractional frame values; media starts and lengths are whole frames
+      const range = reference?.available_range;
+      const availableRange: OtioTimeRange | undefined = range && {
+        ...range,
+        start_time: { ...range.start_time, value: Math.round(range.start_time.value) },
+        duration: { ...range.duration, value: Math.round(range.duration.value) },
+      };
+      let filePath: string | null = null;
+      if (reference?.target_url) {
+        try {
+          filePath = reference.target_url.startsWith('file:')
+            ? fileURLToPath(reference.target_url)
+            : reference.target_url;
+        } catch {
+          filePath = null;
+        }
+      }
+
+      result.push({
+        name: item.name || (filePath ? path.basename(filePath) : 'Clip'),
+        startSeconds: cursor,
+        durationSeconds: duration,
+        sourceInSeconds: Math.max(0, toSeconds(item.source_range.start_time) - toSeconds(availableRange?.start_time)),
+        filePath,
+        availableRange,
+      });
+    }
+
+    cursor += duration;
+  });
+
+  return result;
+};
+
+/**
+ * Import an OTIO timeline as a new canvas in a project
+ */
+export const importOTIO = async (
+  db: StoryGraphDatabase,
+  projectId: string,
+  filePath: string
+): Promise<{ success: boolean; canvasId?: string; nodeCount?: number; error?: string }> => {
+  try {
+    const timeline: OtioTimeline = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (timeline.OTIO_SCHEMA?.split('.')[0] !== 'Timeline') {
+      return { success: false, error: 'Not an OTIO timeline' };
+    }
+
+    const tracks = timeline.tracks?.children || [];
+    const videoSources = tracks.filter(t => t.kind !== 'Audio');
+    const videoTracks = videoSources.map(readTrackClips);
+
+    // Sync sound that mirrors a video clip is already carried by that clip's node
+    const videoKeys = new Set(videoTracks.flat().map(c => `${c.filePath}@${c.startSeconds}`));
+    const audioTracks = tracks
+      .filter(t => t.kind === 'Audio')
+      .map(t => readTrackClips(t).filter(c => !videoKeys.has(`${c.filePath}@${c.startSeconds}`)));
+    const taggedSpine = videoTracks.find((t, index) => t.length > 0 && videoSources[index].metadata?.storygraph?.track === 0);
+    const spineTrack = taggedSpine || videoTracks.find(t => t.length > 0);
+    if (!spineTrack) {
+      return { success: false, error: 'Timeline has no video clips' };
+    }
+
+    // Canvas settings: prefer our own metadata, otherwise the first clip's rate
+    const meta = timeline.metadata?.storygraph || {};
+    const firstRate = timeline.global_start_time?.rate
+      || tracks.flatMap(t => t.children || []).find(c => c.source_range)?.source_range!.duration.rate
+      || 24;
+    const now = new Date().toISOString();
+    const canvas: Canvas = {
+      id: uuidv4(),
+      project_id: projectId,
+      name: timeline.name || path.basename(filePath, path.extname(filePath)),
+      description: `Imported from ${path.basename(filePath)}`,
+      FPS: meta.fps || firstRate,
+      Resolution: meta.resolution || '1920x1080',
+      Timecode_mode: meta.timecode_mode === 'DROP' ? 'DROP' : 'NON_DROP',
+      created_at: now,
+      updated_at: now,
+    };
+
+    // Media: reuse library entries by path, register unknown references
+    const mediaByPath = new Map<string, string>();
+    const resolveAsset = (clip: ImportedClip, mediaType: MediaAsset['media_type']): string | undefined => {
+      if (!clip.filePath) return undefined;
+      const cached = mediaByPath.get(clip.filePath);
+      if (cached) return cached;
+
+      const existing = db.query(
+        'SELECT id FROM media_library WHERE project_id = ? AND file_path = ?',
+        [projectId, clip.filePath]
+      )[0] as { id: string } | undefined;
+      if (existing) {
+        mediaByPath.set(clip.filePath, existing.id);
+        return existing.id;
+      }
+
+      const id = uuidv4();
+      const fileName = path.basename(clip.filePath);
+      const range = clip.availableRange;
+      const rate = range?.duration.rate || canvas.FPS;
+      db.execute(
+        `INSERT INTO media_library (
+          id, project_id, file_name, clean_name, file_path, format, media_type,
+          fps, start_tc, total_frames, duration, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          projectId,
+          fileName,
+          generateCleanName(fileName),
+          clip.filePath,
+          path.extname(fileName).toLowerCase().replace('.', ''),
+          mediaType,
+          rate,
+          range ? framesToTimecode(range.start_time.value, toFrameRate(rate), false) : null,
+          range ? range.duration.value : null,
+          range ? toSeconds(range.duration) : null,
+          now,
+        ]
+      );
+      mediaByPath.set(clip.filePath, id);
+      return id;
+    };
+
+    const subtypeFor = (assetId: string | undefined): StoryNode['subtype'] => {
+      if (!assetId) return 'TEXT';
+      const asset = db.query('SELECT media_type FROM media_library WHERE id = ?', [assetId])[0] as Pick<MediaAsset, 'media_type'> | undefined;
+      if (asset?.media_type === 'MUSIC') return 'MUSIC';
+      if (asset?.media_type === 'IMAGE') return 'IMAGE';
+      return 'VIDEO';
+    };
+
+    const nodes: StoryNode[] = [];
+    const spineStart = spineTrack[0].startSeconds;
+
+    // Build an APPEND chain for a track; the head is anchored by the caller
+    const buildChain = (
+      trackClips: ImportedClip[],
+      type: StoryNode['type'],
+      mediaType: MediaAsset['media_type'],
+      head: { anchor_id?: string; connection_mode?: StoryNode['connection_mode']; drift_x: number; drift_y: number; x: number; y: number }
+    ) => {
+      const size = type === 'SPINE' ? SPINE_SIZE : SATELLITE_SIZE;
+      let previous: ImportedClip | null = null;
+      let previousId: string | undefined;
+      let x = head.x;
+
+      trackClips.forEach(clip => {
+        const assetId = resolveAsset(clip, mediaType);
+        const node: StoryNode = {
+          id: uuidv4(),
+          canvas_id: canvas.id,
+          asset_id: assetId,
+          type,
+          subtype: subtypeFor(assetId),
+          is_global: false,
+          x,
+          y: head.y,
+          width: size.width,
+          height: size.height,
+          anchor_id: previous ? previousId : head.anchor_id,
+          connection_mode: previous ? 'APPEND' : head.connection_mode,
+          drift_x: previous ? clip.startSeconds - (previous.startSeconds + previous.durationSeconds) : head.drift_x,
+          drift_y: previous ? 0 : head.drift_y,
+          clip_in: clip.sourceInSeconds,
+          clip_out: clip.sourceInSeconds + clip.durationSeconds,
+        };
+
+        nodes.push(node);
+        previous = clip;
+        previousId = node.id;
+        x += size.width + COUPLER_GAP;
+      });
+    };
+
+    const transaction = db.getDatabase().transaction(() => {
+      db.execute(
+        `INSERT INTO canvases (id, project_id, name, description, created_at, updated_at, FPS, Resolution, Timecode_mode)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [canvas.id, canvas.project_id, canvas.name, canvas.description, canvas.created_at, canvas.updated_at, canvas.FPS, canvas.Resolution, canvas.Timecode_mode]
+      );
+
+      // Spine: origin node has no anchor
+      buildChain(spineTrack, 'SPINE', 'BROLL', { drift_x: 0, drift_y: 0, x: 0, y: 0 });
+      const originId = nodes[0].id;
+
+      // Every other track: head stacked on the origin, then appended
+      const satelliteTracks = [
+        ...videoTracks.filter(t => t !== spineTrack).map(t => ({ clips: t, mediaType: 'BROLL' as const })),
+        ...audioTracks.map(t => ({ clips: t, mediaType: 'MUSIC' as const })),
+      ].filter(t => t.clips.length > 0);
+
+      satelliteTracks.forEach((track, index) => {
+        const headStart = track.clips[0].startSeconds - spineStart;
+        buildChain(track.clips, 'SATELLITE', track.mediaType, {
+          anchor_id: originId,
+          connection_mode: 'STACK',
+          drift_x: headStart,
+          drift_y: index,
+          x: 0,
+          y: -(SATELLITE_SIZE.height + STACK_GAP) * (index + 1),
+        });
+      });
+
+      nodes.forEach(node => {
+        db.execute(
+          `INSERT INTO story_nodes (
+            id, canvas_id, asset_id, type, subtype, is_global,
+            x, y, width, height,
+            anchor_id, connection_mode, drift_x, drift_y,
+            clip_in, clip_out
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            node.id, node.canvas_id, node.asset_id || null, node.type, node.subtype, 0,
+            node.x, node.y, node.width, node.height,
+            node.anchor_id || null, node.connection_mode || 'STACK', node.drift_x || 0, node.drift_y || 0,
+            node.clip_in || 0, node.clip_out ?? null,
+          ]
+        );
+      });
+    });
+    transaction();
+
+    console.log(`[OTIO] Imported ${nodes.length} nodes into canvas ${canvas.name} (${canvas.id})`);
+    return { success: true, canvasId: canvas.id, nodeCount: nodes.length };
+  } catch (error) {
+    console.error('[OTIO] Error importing OTIO:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
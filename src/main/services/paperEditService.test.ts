@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { WordToken } from '../../shared/types';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-test-'));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const { default: StoryGraphDatabase } = await import('../database/schema');
+const { saveTranscript } = await import('./transcriptService');
+const { alignPassage, importPaperEdit, parsePaperEdit } = await import('./paperEditService');
+
+afterAll(() => {
+  fs.rmSync(userData, { recursive: true, force: true });
+});
+
+describe('parsePaperEdit', () => {
+  it('finds quoted, blockquoted and indented soundbites with their speakers', () => {
+    const script = [
+      '# Act one',
+      'Open on the workshop.',
+      'ANA: "We built it by hand ... every single part of it"',
+      '> BEN: It took us three years',
+      '> to get right',
+      '    It never worked the first time',
+      'Cut to "the van".',
+    ].join('\n');
+
+    expect(parsePaperEdit(script)).toEqual([
+      { line: 3, text: 'We built it by hand', speaker: 'ANA' },
+      { line: 3, text: 'every single part of it', speaker: 'ANA' },
+      { line: 4, text: 'It took us three years to get right', speaker: 'BEN' },
+      { line: 6, text: 'It never worked the first time', speaker: undefined },
+    ]);
+  });
+});
+
+describe('alignPassage', () => {
+  it('places an exact passage anywhere in the transcript', () => {
+    const transcript = ['so', 'um', 'we', 'built', 'it', 'today'];
+
+    expect(alignPassage(['we', 'built', 'it'], transcript, 0, 5)).toEqual({ first: 2, last: 4, score: 1 });
+  });
+
+  it('tolerates fillers and one-letter transcription typos at a lower score', () => {
+    expect(alignPassage(['we', 'built', 'it'], ['we', 'um', 'built', 'it'], 0, 3)).toEqual({
+      first: 0,
+      last: 3,
+      score: 5 / 6,
+    });
+    expect(alignPassage(['we', 'built', 'it'], ['we', 'bilt', 'it'], 0, 2)).toEqual({ first: 0, last: 2, score: 5 / 6 });
+  });
+
+  it('only searches the given stretch of the transcript', () => {
+    const transcript = ['we', 'built', 'it', 'and', 'we', 'built', 'it'];
+
+    expect(alignPassage(['we', 'built', 'it'], transcript, 3, 6)).toEqual({ first: 4, last: 6, score: 1 });
+    expect(alignPassage(['we', 'built', 'it'], transcript, 4, 3)).toBeNull();
+  });
+
+  it('scores unrelated text as zero', () => {
+    expect(alignPassage(['we', 'built', 'it'], ['nothing', 'alike', 'here'], 0, 2)?.score).toBe(0);
+  });
+});
+
+describe('importPaperEdit', () => {
+  it('places multicam takes as VIDEO spine nodes on a drop-frame canvas at 29.97', async () => {
+    const db = new StoryGraphDatabase(`paper-edit-${Date.now()}`);
+    const words: WordToken[] = ['We', 'built', 'it', 'by', 'hand.'].map((text, id) => ({
+      id,
+      text,
+      start: id * 0.5,
+      end: id * 0.5 + 0.4,
+    }));
+    const scriptPath = path.join(userData, 'Rough.md');
+    fs.writeFileSync(scriptPath, '"We built it by hand"\n');
+
+    try {
+      db.execute('INSERT INTO projects (id, name, defaultFps) VALUES (?, ?, 29.97)', ['p1', 'Test']);
+      db.execute(
+        `INSERT INTO media_library (id, project_id, file_name, clean_name, file_path, media_type, fps, duration)
+         VALUES (?, ?, ?, ?, ?, 'MULTICAM', 25, 10)`,
+        ['mc1', 'p1', 'Interview MC', 'Interview MC', '']
+      );
+      saveTranscript(db, 'mc1', 'IMPORTED', words);
+
+      const result = await importPaperEdit(db, 'p1', scriptPath);
+
+      expect(result).toMatchObject({ success: true, nodeCount: 1 });
+      expect(db.query('SELECT Timecode_mode FROM canvases WHERE id = ?', [result.canvasId])).toEqual([{ Timecode_mode: 'DROP' }]);
+      expect(db.query('SELECT asset_id, subtype, clip_in, clip_out FROM story_nodes WHERE canvas_id = ?', [result.canvasId])).toEqual([
+        { asset_id: 'mc1', subtype: 'VIDEO', clip_in: 0, clip_out: 2.4 },
+      ]);
+    } finally {
+      // Skips close()'s final backup, which would outlive the connection
+      db.getDatabase().close();
+    }
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Paper Edit Service
+ * Build a canvas from a producer's script of quoted soundbites
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * A paper edit is plain text or Markdown. Soundbites are "quoted" (straight
+ * or curly quotes), > blockquoted, or indented lines as written by the
+ * paper-edit export; everything else is producer notes. "..." inside a quote
+ * is a lift, so each side becomes its own clip. A SPEAKER: prefix names who
+ * says it and breaks ties between takes.
+ *
+ * Each passage is shortlisted through the transcript search index, then
+ * aligned word by word against the transcript (tolerating ums, dropped words
+ * and transcription typos). Matched passages become a spine chained by
+ * APPEND in script order; ambiguous and unmatched ones are reported.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import StoryGraphDatabase from '../database/schema';
+import { Canvas, MediaAsset, PaperEditCandidate, PaperEditPassage, StoryNode, WordToken } from '../../shared/types';
+import { FrameRate, snapRangeToFrames, supportsDropFrame, toFrameRate } from '../../shared/timecode';
+import { COUPLER_GAP, SPINE_SIZE } from '../../shared/layout';
+import { normalizeParts } from './transcriptSearchService';
+import { getWordMapRate, loadWordMap } from './wordMapService';
+
+const MIN_PASSAGE_PARTS = 3; // Shorter quotes are ordinary quoted words in notes
+const MATCH_MIN_SCORE = 0.7;
+const AMBIGUITY_MARGIN = 0.05; // Another take this close to the best is a tie
+const SHORTLIST_PASSAGES = 30;
+const MAX_CANDIDATES = 3;
+
+// Alignment scores per word part
+const SCORE_EXACT = 2;
+const SCORE_FUZZY = 1; // One edit apart, e.g. a transcription typo
+const SCORE_MISMATCH = -1;
+const SCORE_GAP = -1;
+
+interface ScriptPassage {
+  line: number;
+  text: string;
+  speaker?: string;
+}
+
+interface TranscriptParts {
+  assetName: string;
+  words: WordToken[];
+  rate: FrameRate;
+  parts: string[];
+  partWord: number[]; // Word index of each part
+}
+
+// ============================================================================
+// SCRIPT PARSING
+// ============================================================================
+
+// "JANE:", "- **Dr. Ruiz**:" — a name of up to four words before a colon
+const SPEAKER_PREFIX = /^\s*(?:[-*]\s+)?(?:\*\*)?(\p{L}[\p{L}\p{N}.'-]*(?: [\p{L}\p{N}.'-]+){0,3})(?:\*\*)?\s*:\s*/u;
+const QUOTED = /["“]([^"“”]+)["”]/g;
+const LIFT = /\s*(?:\.{3}|…)\s*/;
+
+const splitLifts = (text: string, line: number, speaker: string | undefined): ScriptPassage[] =>
+  text
+    .split(LIFT)
+    .map(part => part.trim())
+    .filter(part => normalizeParts(part).length >= MIN_PASSAGE_PARTS)
+    .map(part => ({ line, text: part, speaker }));
+
+/**
+ * Soundbites of a paper edit in script order
+ */
+export const parsePaperEdit = (content: string): ScriptPassage[] => {
+  const passages: ScriptPassage[] = [];
+  let blockquote: { line: number; lines: string[]; speaker?: string } | null = null;
+
+  const closeBlockquote = () => {
+    if (blockquote) passages.push(...splitLifts(blockquote.lines.join(' '), blockquote.line, blockquote.speaker));
+    blockquote = null;
+  };
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+
+    const quoteLine = rawLine.match(/^\s*>\s?(.*)$/);
+    if (quoteLine) {
+      let text = quoteLine[1];
+      const prefix = text.match(SPEAKER_PREFIX);
+      if (!blockquote || prefix) {
+        closeBlockquote();
+        blockquote = { line, lines: [], speaker: prefix?.[1].trim() };
+      }
+      if (prefix) text = text.slice(prefix[0].length);
+      blockquote!.lines.push(text.replace(/^["“]|["”]$/g, ''));
+      return;
+    }
+    closeBlockquote();
+
+    const prefix = rawLine.match(SPEAKER_PREFIX);
+    const speaker = prefix?.[1].trim();
+    const quotes = Array.from(rawLine.matchAll(QUOTED));
+    if (quotes.length > 0) {
+      quotes.forEach(quote => passages.push(...splitLifts(quote[1], line, speaker)));
+      return;
+    }
+
+    // Indented dialogue, as in the paper-edit export
+    if (/^(?: {4}|\t)\S/.test(rawLine)) {
+      passages.push(...splitLifts(prefix ? rawLine.slice(prefix[0].length) : rawLine, line, speaker));
+    }
+  });
+  closeBlockquote();
+
+  return passages;
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+const isOneEditApart = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1 || Math.min(a.length, b.length) < 4) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+/**
+ * Best placement of the passage inside a stretch of transcript parts
+ * Semi-global alignment: the whole passage must align, the transcript may
+ * start and end anywhere. Returns the part range and a 0-1 score.
+ */
+export const alignPassage = (
+  passage: string[],
+  transcript: string[],
+  from: number,
+  to: number
+): { first: number; last: number; score: number } | null => {
+  const width = to - from + 1;
+  if (width <= 0) return null;
+
+  // Rolling rows: score and the transcript part each alignment started on
+  let scores = new Float64Array(width + 1);
+  let starts = Int32Array.from({ length: width + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= passage.length; i++) {
+    const nextScores = new Float64Array(width + 1);
+    const nextStarts = new Int32Array(width + 1);
+    nextScores[0] = i * SCORE_GAP;
+    nextStarts[0] = 0;
+
+    for (let j = 1; j <= width; j++) {
+      const part = transcript[from + j - 1];
+      const pair =
+        part === passage[i - 1] ? SCORE_EXACT : isOneEditApart(part, passage[i - 1]) ? SCORE_FUZZY : SCORE_MISMATCH;
+      const options: Array<[number, number]> = [
+        [scores[j - 1] + pair, starts[j - 1]],
+        [scores[j] + SCORE_GAP, starts[j]], // Passage word missing from the transcript
+        [nextScores[j - 1] + SCORE_GAP, nextStarts[j - 1]], // Extra transcript word (um, repeats)
+      ];
+      const best = options.reduce((a, b) => (b[0] > a[0] ? b : a));
+      nextScores[j] = best[0];
+      nextStarts[j] = best[1];
+    }
+    scores = nextScores;
+    starts = nextStarts;
+  }
+
+  let end = 1;
+  for (let j = 2; j <= width; j++) {
+    if (scores[j] > scores[end]) end = j;
+  }
+  const score = scores[end] / (passage.length * SCORE_EXACT);
+  const first = from + Math.min(starts[end], end - 1);
+  return { first, last: from + end - 1, score: Math.max(0, score) };
+};
+
+const loadTranscriptParts = (db: StoryGraphDatabase, mediaId: string, assetName: string): TranscriptParts => {
+  const wordMap = loadWordMap(db, mediaId);
+  const words = wordMap?.words ?? [];
+  const parts: string[] = [];
+  const partWord: number[] = [];
+  words.forEach((word, index) => {
+    for (const part of normalizeParts(word.text)) {
+      parts.push(part);
+      partWord.push(index);
+    }
+  });
+  return { assetName, words, rate: wordMap?.rate ?? getWordMapRate(db, mediaId), parts, partWord };
+};
+
+/**
+ * Candidate takes of a passage, best first
+ * The search index shortlists passages sharing its words; each is widened
+ * by the passage length so soundbites spanning index passages still align.
+ */
+const findCandidates = (
+  db: StoryGraphDatabase,
+  projectId: string,
+  passage: ScriptPassage,
+  transcripts: Map<string, TranscriptParts>
+): PaperEditCandidate[] => {
+  const parts = normalizeParts(passage.text);
+  const terms = Array.from(new Set(parts.filter(part => part.length >= 3)));
+  if (terms.length === 0) return [];
+
+  const rows = db.query(
+    `SELECT transcript_search.media_id, first_word, last_word, m.clean_name, m.file_name
+     FROM transcript_search
+     JOIN media_library m ON m.id = transcript_search.media_id
+     WHERE transcript_search MATCH ? AND m.project_id = ?
+     ORDER BY transcript_search.rank
+     LIMIT ?`,
+    [terms.map(term => `"${term}"`).join(' OR '), projectId, SHORTLIST_PASSAGES]
+  );
+
+  const candidates: Array<PaperEditCandidate & { mediaFirst: number; mediaLast: number }> = [];
+  for (const row of rows) {
+    if (!transcripts.has(row.media_id)) {
+      transcripts.set(row.media_id, loadTranscriptParts(db, row.media_id, row.clean_name || row.file_name));
+    }
+    const transcript = transcripts.get(row.media_id)!;
+    const firstPart = transcript.partWord.indexOf(row.first_word);
+    const lastPart = transcript.partWord.lastIndexOf(row.last_word);
+    if (firstPart === -1 || lastPart === -1) continue; // Index older than the word map
+
+    const match = alignPassage(
+      parts,
+      transcript.parts,
+      Math.max(0, firstPart - parts.length),
+      Math.min(transcript.parts.length - 1, lastPart + parts.length)
+    );
+    if (!match) continue;
+
+    const firstWord = transcript.partWord[match.first];
+    const lastWord = transcript.partWord[match.last];
+    const [start, end] = snapRangeToFrames(
+      transcript.words[firstWord].start,
+      transcript.words[lastWord].end,
+      transcript.rate
+    );
+    // Overlapping shortlist passages find the same take; keep its best alignment
+    const duplicate = candidates.find(
+      c => c.assetId === row.media_id && firstWord <= c.mediaLast && lastWord >= c.mediaFirst
+    );
+    if (duplicate && duplicate.score >= match.score) continue;
+    if (duplicate) candidates.splice(candidates.indexOf(duplicate), 1);
+
+    candidates.push({
+      assetId: row.media_id,
+      assetName: transcript.assetName,
+      speaker: transcript.words[firstWord].speaker,
+      start,
+      end,
+      score: Math.round(match.score * 100) / 100,
+      text: transcript.words.slice(firstWord, lastWord + 1).map(w => w.text).join(' '),
+      mediaFirst: firstWord,
+      mediaLast: lastWord,
+    });
+  }
+
+  // A named speaker settles which take is meant, when any take is theirs
+  const speaker = passage.speaker?.toLowerCase();
+  const bySpeaker = speaker ? candidates.filter(c => c.speaker?.toLowerCase() === speaker) : [];
+
+  return (bySpeaker.length > 0 ? bySpeaker : candidates)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ mediaFirst: _first, mediaLast: _last, ...candidate }) => candidate);
+};
+
+const classify = (candidates: PaperEditCandidate[]): PaperEditPassage['status'] => {
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < MATCH_MIN_SCORE) return 'UNMATCHED';
+  return runnerUp && runnerUp.score >= best.score - AMBIGUITY_MARGIN ? 'AMBIGUOUS' : 'MATCHED';
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Import a paper edit as a new canvas in a project
+ * The canvas uses the project's default rate and resolution. Nothing is
+ * created when no passage matches; the report still says why.
+ */
+export const importPaperEdit = async (
+  db: StoryGraphDatabase,
+  projectId: string,
+  filePath: string
+): Promise<{ success: boolean; canvasId?: string; nodeCount?: number; passages?: PaperEditPassage[]; error?: string }> => {
+  try {
+    const script = parsePaperEdit(await fs.readFile(filePath, 'utf-8'));
+    if (script.length === 0) {
+      return { success: false, error: 'No quoted soundbites found in this document' };
+    }
+
+    const transcripts = new Map<string, TranscriptParts>();
+    const passages: PaperEditPassage[] = script.map(passage => {
+      const candidates = findCandidates(db, projectId, passage, transcripts);
+      return { ...passage, status: classify(candidates), candidates };
+    });
+
+    const placed = passages.filter(p => p.status !== 'UNMATCHED');
+    if (placed.length === 0) {
+      return { success: false, passages, error: 'No passage matched a transcript in this project' };
+    }
+
+    const project = db.query('SELECT defaultFps, defaultResolution FROM projects WHERE id = ?', [projectId])[0];
+    const now = new Date().toISOString();
+    const fps = project?.defaultFps || 24;
+    const canvas: Canvas = {
+      id: uuidv4(),
+      project_id: projectId,
+      name: path.basename(filePath, path.extname(filePath)),
+      description: `Paper edit from ${path.basename(filePath)}`,
+      FPS: fps,
+      Resolution: project?.defaultResolution || '1920x1080',
+      // Drop-frame wherever the rate has it (29.97, 59.94)
+      Timecode_mode: supportsDropFrame(toFrameRate(fps)) ? 'DROP' : 'NON_DROP',
+      created_at: now,
+      updated_at: now,
+    };
+
+    db.getDatabase().transaction(() => {
+      db.execute(
+        `INSERT INTO canvases (id, project_id, name, description, created_at, updated_at, FPS, Resolution, Timecode_mode)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [canvas.id, canvas.project_id, canvas.name, canvas.description, canvas.created_at, canvas.updated_at, canvas.FPS, canvas.Resolution, canvas.Timecode_mode]
+      );
+
+      // Spine in script order: the first node is the origin, the rest APPEND
+      let previousId: string | undefined;
+      placed.forEach((passage, index) => {
+        const take = passage.candidates[0];
+        const asset = db.query('SELECT media_type FROM media_library WHERE id = ?', [take.assetId])[0] as
+          | Pick<MediaAsset, 'media_type'>
+          | undefined;
+        const node: StoryNode = {
+          id: uuidv4(),
+          canvas_id: canvas.id,
+          asset_id: take.assetId,
+          type: 'SPINE',
+          subtype: asset?.media_type === 'MUSIC' ? 'MUSIC' : 'VIDEO', // As on the canvas; multicam takes are VIDEO
+          is_global: false,
+          x: index * (SPINE_SIZE.width + COUPLER_GAP),
+          y: 0,
+          width: SPINE_SIZE.width,
+          height: SPINE_SIZE.height,
+          anchor_id: previousId,
+          connection_mode: previousId ? 'APPEND' : 'STACK',
+          drift_x: 0,
+          drift_y: 0,
+          clip_in: take.start,
+          clip_out: take.end,
+        };
+
+        db.execute(
+          `INSERT INTO story_nodes (
+            id, canvas_id, asset_id, type, subtype, is_global,
+            x, y, width, height,
+            anchor_id, connection_mode, drift_x, drift_y,
+            clip_in, clip_out
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            node.id, node.canvas_id, node.asset_id, node.type, node.subtype, 0,
+            node.x, node.y, node.width, node.height,
+            node.anchor_id || null, node.connection_mode, 0, 0,
+            node.clip_in, node.clip_out,
+          ]
+        );
+        passage.nodeId = node.id;
+        previousId = node.id;
+      });
+    })();
+
+    const unresolved = passages.length - passages.filter(p => p.status === 'MATCHED').length;
+    console.log(
+      `[Paper Edit] ${canvas.name}: ${placed.length} of ${passages.length} passages placed, ${unresolved} to resolve (${canvas.id})`
+    );
+    return { success: true, canvasId: canvas.id, nodeCount: placed.length, passages };
+  } catch (error) {
+    console.error('[Paper Edit] Error importing paper edit:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * Proxy Service
+ * Lightweight edit proxies for heavy camera originals
+ * Phase 2: Media Ingestion
+ *
+ * Proxies are written to the app cache (cache/proxies/<assetId>.<ext>) and
+ * their path stored on media_library.proxy_path. Preview surfaces pick the
+ * proxy or the original according to the project's proxy_mode_enabled flag.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, ProxyCodec } from '../../shared/types';
+import { parseMediaFlags } from './exportService';
+
+const PROXY_HEIGHT = 540;
+
+const PROXY_PRESETS: Record<ProxyCodec, { extension: string; video: string[]; audio: string[] }> = {
+  h264: {
+    extension: 'mp4',
+    video: ['-c:v libx264', '-preset veryfast', '-crf 28', '-pix_fmt yuv420p', '-movflags +faststart'],
+    audio: ['-c:a aac', '-b:a 128k'],
+  },
+  prores: {
+    extension: 'mov',
+    video: ['-c:v prores_ks', '-profile:v 0', '-pix_fmt yuv422p10le'],
+    audio: ['-c:a pcm_s16le'],
+  },
+};
+
+/**
+ * Whether an asset benefits from a proxy (anything with a moving picture)
+ */
+export const needsProxy = (asset: MediaAsset): boolean =>
+  asset.media_type !== 'IMAGE' && parseMediaFlags(asset).hasVideo;
+
+/**
+ * Transcode one asset to a proxy file
+ * Keeps the source frame rate, timecode and audio layout so proxy and
+ * original stay frame-for-frame interchangeable.
+ */
+export const transcodeProxy = (
+  asset: MediaAsset,
+  outputDir: string,
+  codec: ProxyCodec,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const preset = PROXY_PRESETS[codec];
+  const outputPath = path.join(outputDir, `${asset.id}.${preset.extension}`);
+  const { hasAudio } = parseMediaFlags(asset);
+
+  return new Promise((resolve, reject) => {
+    if (!fs.existsSync(asset.file_path)) {
+      return reject(new Error(`File not found: ${asset.file_path}`));
+    }
+
+    const command = ffmpeg(asset.file_path)
+      .outputOptions([
+        '-map 0:v:0',
+        ...(hasAudio ? ['-map 0:a?', ...preset.audio] : ['-an']),
+        `-vf scale=-2:${PROXY_HEIGHT}`,
+        ...preset.video,
+        '-map_metadata 0',
+      ])
+      .output(outputPath)
+      .on('progress', (progress: { percent?: number }) => {
+        onProgress(Math.max(0, Math.min(99, Math.round(progress.percent || 0))));
+      })
+      .on('end', () => resolve(outputPath))
+      .on('error', (err: Error) => {
+        fs.rmSync(outputPath, { force: true });
+        reject(signal?.aborted ? new Error('Cancelled') : err);
+      });
+
+    signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+    command.run();
+  });
+};
+
+/**
+ * Transcode an asset's proxy and record it on the media_library row
+ * Runs as a 'proxy' job; any proxy of a different codec is replaced.
+ */
+export const generateProxyForAsset = async (
+  db: StoryGraphDatabase,
+  assetId: string,
+  codec: ProxyCodec,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<{ proxyPath: string }> => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+  if (!asset) {
+    throw new Error(`Asset not found: ${assetId}`);
+  }
+
+  const proxyPath = await transcodeProxy(asset, db.getCacheDir('proxies'), codec, onProgress, signal);
+
+  if (asset.proxy_path && asset.proxy_path !== proxyPath) {
+    fs.rmSync(asset.proxy_path, { force: true });
+  }
+  db.execute('UPDATE media_library SET proxy_path = ? WHERE id = ?', [proxyPath, assetId]);
+
+  console.log(`[Proxy] ✓ ${asset.clean_name || asset.file_name} → ${proxyPath}`);
+  return { proxyPath };
+};
+
+/**
+ * Find the assets in a project that still need a proxy
+ * An asset whose proxy file has gone missing from the cache counts as missing.
+ */
+export const getAssetsMissingProxies = (db: StoryGraphDatabase, projectId: string): string[] => {
+  const assets: MediaAsset[] = db.query('SELECT * FROM media_library WHERE project_id = ?', [projectId]);
+
+  return assets
+    .filter(asset => needsProxy(asset) && (!asset.proxy_path || !fs.existsSync(asset.proxy_path)))
+    .map(asset => asset.id);
+};
+
+/**
+ * Pick the file a preview surface should play
+ * Falls back to the original when no proxy exists yet.
+ */
+export const resolvePlaybackPath = (
+  db: StoryGraphDatabase,
+  assetId: string,
+  preferProxy: boolean
+): string | null => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+  if (!asset) return null;
+
+  if (preferProxy && asset.proxy_path && fs.existsSync(asset.proxy_path)) {
+    return asset.proxy_path;
+  }
+  return asset.file_path;
+};
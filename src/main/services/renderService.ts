@@ -0,0 +1,177 @@
+/**
+ * Render Service
+ * Rough-cut H.264 preview of a flattened canvas via an ffmpeg filter graph
+ * Phase 9: Export & Flattening
+ *
+ * Graph layout:
+ *   black bed           full programme length                        = base picture
+ *   every track         trim → scale/pad → overlay on the base, lowest track first,
+ *                       so the spine covers clips below it and satellites cover the spine
+ *   every clip's sound  atrim → adelay to its record position        → amix
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs/promises';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, FlattenedClip, RenderProgress } from '../../shared/types';
+import { loadCanvasTimeline } from './flattenService';
+import { parseResolution, parseMediaFlags, parseAudioStreams } from './exportService';
+
+const AUDIO_FORMAT = 'aformat=sample_rates=48000:channel_layouts=stereo';
+
+const timemarkToSeconds = (timemark: string): number => {
+  const [hours, minutes, seconds] = timemark.split(':').map(Number);
+  return (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+};
+
+/**
+ * Whether an asset was probed with a sound stream ffmpeg can map as [n:a]
+ * parseMediaFlags assumes sound when the probe is silent on it, which is
+ * right for interchange formats but makes ffmpeg fail on a missing stream.
+ */
+const hasProbedAudio = (asset: MediaAsset): boolean =>
+  asset.media_type !== 'IMAGE' && (!!asset.audio_channels || parseAudioStreams(asset).length > 0);
+
+/**
+ * Build the preview file name for a canvas inside the render folder
+ */
+export const getRenderOutputPath = (renderFolder: string, canvasName: string): string =>
+  path.join(renderFolder, `${(canvasName || 'Canvas').replace(/[^a-zA-Z0-9_-]+/g, '_')}_preview.mp4`);
+
+/**
+ * Render a canvas to an H.264/AAC MP4 in the project's render_preview_path folder
+ */
+export const renderRoughCut = async (
+  db: StoryGraphDatabase,
+  canvasId: string,
+  onProgress: (progress: RenderProgress) => void
+): Promise<{ success: boolean; outputPath?: string; error?: string }> => {
+  try {
+    const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+    const settings = db.query('SELECT render_preview_path FROM project_settings WHERE project_id = ?', [canvas.project_id])[0];
+    if (!settings?.render_preview_path) {
+      return { success: false, error: 'No render preview path set for this project' };
+    }
+
+    const fps = canvas.FPS;
+    const { width, height } = parseResolution(canvas.Resolution);
+    const toSeconds = (frames: number) => (frames / fps).toFixed(6);
+
+    const assetOf = (clip: FlattenedClip): MediaAsset | undefined => {
+      const assetId = nodes.get(clip.nodeId)?.asset_id;
+      return assetId ? assets.get(assetId) : undefined;
+    };
+
+    const placed = clips.filter(c => c.endFrame > c.startFrame);
+    const totalFrames = Math.max(0, ...placed.map(c => c.endFrame));
+    if (totalFrames === 0) {
+      return { success: false, error: 'Canvas has nothing to render' };
+    }
+
+    // One ffmpeg input per source file
+    const command = ffmpeg();
+    const inputIndex = new Map<string, number>();
+    placed.forEach(clip => {
+      const asset = assetOf(clip);
+      if (!asset?.file_path || inputIndex.has(asset.id)) return;
+      command.input(asset.file_path);
+      if (asset.media_type === 'IMAGE') {
+        command.inputOptions(['-loop 1']);
+      }
+      inputIndex.set(asset.id, inputIndex.size);
+    });
+
+    const filters: string[] = [];
+    const fitToFrame = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps},format=yuv420p`;
+    const trimVideo = (clip: FlattenedClip, label: string) => {
+      const node = nodes.get(clip.nodeId)!;
+      const input = inputIndex.get(assetOf(clip)!.id)!;
+      const start = (node.clip_in || 0).toFixed(6);
+      filters.push(`[${input}:v]trim=start=${start}:duration=${toSeconds(clip.endFrame - clip.startFrame)},setpts=PTS-STARTPTS+${toSeconds(clip.startFrame)}/TB,${fitToFrame}[${label}]`);
+    };
+
+    const hasPicture = (clip: FlattenedClip) => {
+      const asset = assetOf(clip);
+      return !!asset && inputIndex.has(asset.id) && parseMediaFlags(asset).hasVideo;
+    };
+
+    // ------------------------------------------------------------------------
+    // Picture: every track overlaid on a black bed, lowest track first
+    // ------------------------------------------------------------------------
+    filters.push(`color=c=black:s=${width}x${height}:r=${fps}:d=${toSeconds(totalFrames)},format=yuv420p[base0]`);
+    let base = 'base0';
+    placed
+      .filter(hasPicture)
+      .sort((a, b) => a.track - b.track || a.startFrame - b.startFrame)
+      .forEach((clip, index) => {
+        const label = `v${index}`;
+        trimVideo(clip, label);
+        const next = `base${index + 1}`;
+        filters.push(
+          `[${base}][${label}]overlay=eof_action=pass:enable='between(t,${toSeconds(clip.startFrame)},${toSeconds(clip.endFrame)})'[${next}]`
+        );
+        base = next;
+      });
+
+    // ------------------------------------------------------------------------
+    // Audio: every clip with sound, delayed to its record position and mixed
+    // ------------------------------------------------------------------------
+    const audioLabels: string[] = [];
+    placed.forEach((clip, index) => {
+      const asset = assetOf(clip);
+      if (!asset || !inputIndex.has(asset.id) || !hasProbedAudio(asset)) return;
+
+      const node = nodes.get(clip.nodeId)!;
+      const delayMs = Math.round((clip.startFrame / fps) * 1000);
+      const label = `a${index}`;
+      filters.push(
+        `[${inputIndex.get(asset.id)}:a]atrim=start=${(node.clip_in || 0).toFixed(6)}:duration=${toSeconds(clip.endFrame - clip.startFrame)},asetpts=PTS-STARTPTS,adelay=${delayMs}|${delayMs},${AUDIO_FORMAT}[${label}]`
+      );
+      audioLabels.push(`[${label}]`);
+    });
+    if (audioLabels.length > 0) {
+      filters.push(`${audioLabels.join('')}amix=inputs=${audioLabels.length}:duration=longest:dropout_transition=0:normalize=0[aout]`);
+    }
+
+    await fs.mkdir(settings.render_preview_path, { recursive: true });
+    const outputPath = getRenderOutputPath(settings.render_preview_path, canvas.name);
+    const totalSeconds = totalFrames / fps;
+
+    console.log(`[Render] Rendering ${placed.length} clips (${totalSeconds.toFixed(2)}s) to ${outputPath}`);
+
+    await new Promise<void>((resolve, reject) => {
+      command
+        .complexFilter(filters)
+        .outputOptions([
+          `-map [${base}]`,
+          ...(audioLabels.length > 0 ? ['-map [aout]', '-c:a aac', '-b:a 192k'] : ['-an']),
+          '-c:v libx264',
+          '-preset veryfast',
+          '-crf 23',
+          '-pix_fmt yuv420p',
+          '-movflags +faststart',
+          `-t ${totalSeconds.toFixed(6)}`,
+        ])
+        .output(outputPath)
+        .on('progress', (progress: { timemark?: string }) => {
+          const seconds = progress.timemark ? timemarkToSeconds(progress.timemark) : 0;
+          onProgress({
+            canvasId,
+            percent: Math.min(100, Math.round((seconds / totalSeconds) * 100)),
+            timemark: progress.timemark || '00:00:00.00',
+          });
+        })
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+
+    onProgress({ canvasId, percent: 100, timemark: 'done' });
+    console.log(`[Render] ✓ Rough cut written to ${outputPath}`);
+    return { success: true, outputPath };
+  } catch (error) {
+    console.error('[Render] Error rendering rough cut:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
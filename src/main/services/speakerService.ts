@@ -0,0 +1,96 @@
+/**
+ * Speaker Service
+ * Project-wide speaker names for transcript speaker labels
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * Word maps keep the labels they were imported or transcribed with
+ * (SPEAKER_00, "Interviewer", ...). A project maps labels to display names in
+ * speaker_names; giving two labels the same name merges them. Names are
+ * applied when word maps are loaded, so renaming never rewrites transcripts.
+ */
+
+import StoryGraphDatabase from '../database/schema';
+import { ProjectSpeaker, WordToken } from '../../shared/types';
+
+/**
+ * Label -> display name for a project (labels without a name are absent)
+ */
+export const getSpeakerNames = (db: StoryGraphDatabase, projectId: string): Map<string, string> =>
+  new Map(
+    db
+      .query('SELECT label, name FROM speaker_names WHERE project_id = ?', [projectId])
+      .map(row => [row.label as string, row.name as string])
+  );
+
+export const applySpeakerNames = (words: WordToken[], names: Map<string, string>): WordToken[] =>
+  names.size === 0
+    ? words
+    : words.map(word => (word.speaker && names.has(word.speaker) ? { ...word, speaker: names.get(word.speaker) } : word));
+
+/**
+ * Every speaker heard in the project's transcripts, by display name
+ */
+export const listProjectSpeakers = (db: StoryGraphDatabase, projectId: string): ProjectSpeaker[] => {
+  const rows = db.query(
+    `SELECT json_extract(w.value, '$.speaker') AS label, t.media_id, COUNT(*) AS word_count
+     FROM transcripts t
+     JOIN media_library m ON m.id = t.media_id, json_each(t.word_map_json) w
+     WHERE m.project_id = ? AND json_extract(w.value, '$.speaker') IS NOT NULL
+     GROUP BY label, t.media_id`,
+    [projectId]
+  );
+  const names = getSpeakerNames(db, projectId);
+  const speakers = new Map<string, ProjectSpeaker>();
+  const assets = new Map<string, Set<string>>();
+
+  for (const row of rows) {
+    const name = names.get(row.label) ?? row.label;
+    const speaker: ProjectSpeaker = speakers.get(name) ?? { name, labels: [], wordCount: 0, assetCount: 0 };
+    if (!speaker.labels.includes(row.label)) speaker.labels.push(row.label);
+    speaker.wordCount += row.word_count;
+    speakers.set(name, speaker);
+    assets.set(name, (assets.get(name) ?? new Set()).add(row.media_id));
+  }
+
+  return Array.from(speakers.values())
+    .map(speaker => ({ ...speaker, assetCount: assets.get(speaker.name)!.size }))
+    .sort((a, b) => b.wordCount - a.wordCount || a.name.localeCompare(b.name));
+};
+
+/**
+ * Show every given label under one name: renames a speaker, or merges several
+ * (including into an existing speaker's name). A label named as itself is
+ * simply un-named.
+ */
+export const setSpeakerName = (
+  db: StoryGraphDatabase,
+  projectId: string,
+  labels: string[],
+  name: string
+): { success: boolean; error?: string } => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Speaker name cannot be empty' };
+  }
+
+  try {
+    db.getDatabase().transaction(() => {
+      for (const label of labels) {
+        if (label === trimmed) {
+          db.execute('DELETE FROM speaker_names WHERE project_id = ? AND label = ?', [projectId, label]);
+        } else {
+          db.execute(
+            `INSERT INTO speaker_names (project_id, label, name) VALUES (?, ?, ?)
+             ON CONFLICT(project_id, label) DO UPDATE SET name = excluded.name`,
+            [projectId, label, trimmed]
+          );
+        }
+      }
+    })();
+    console.log(`[Speakers] ${labels.join(', ')} -> ${trimmed} (project ${projectId})`);
+    return { success: true };
+  } catch (error) {
+    console.error('[Speakers] Error naming speaker:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
@@ -0,0 +1,123 @@
+/**
+ * Thumbnail Service
+ * Poster frames and filmstrips for the media library and canvas nodes
+ * Phase 2: Media Ingestion
+ *
+ * Cache layout (app cache/thumbnails/<assetId>/):
+ *   poster.jpg                           one frame, 320px wide
+ *   strip_<inMs>_<outMs>_<frames>.jpg    frames tiled left→right, 160px each
+ *
+ * Files are keyed by asset and clip range, so retrimming a node produces a
+ * new strip while untouched nodes keep hitting the cache.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, ThumbnailRequest } from '../../shared/types';
+
+const POSTER_WIDTH = 320;
+const FILMSTRIP_FRAME_WIDTH = 160;
+const MAX_FILMSTRIP_FRAMES = 32;
+
+export const getThumbnailDir = (db: StoryGraphDatabase, assetId: string): string => {
+  const dir = path.join(db.getCacheDir('thumbnails'), assetId);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+};
+
+/**
+ * Cache file name for a request
+ */
+export const getThumbnailFileName = (request: ThumbnailRequest): string => {
+  if (request.kind === 'poster') return 'poster.jpg';
+  const ms = (seconds: number) => Math.round(seconds * 1000);
+  return `strip_${ms(request.clipIn)}_${ms(request.clipOut)}_${request.frames}.jpg`;
+};
+
+/**
+ * URL the renderer loads through the media:// protocol
+ */
+export const getThumbnailUrl = (assetId: string, fileName: string): string =>
+  `media://thumbnail/${encodeURIComponent(assetId)}/${encodeURIComponent(fileName)}`;
+
+/**
+ * Return the cached thumbnail's URL, or null if it has not been extracted yet
+ */
+export const findCachedThumbnail = (db: StoryGraphDatabase, request: ThumbnailRequest): string | null => {
+  const fileName = getThumbnailFileName(request);
+  const filePath = path.join(db.getCacheDir('thumbnails'), request.assetId, fileName);
+  return fs.existsSync(filePath) ? getThumbnailUrl(request.assetId, fileName) : null;
+};
+
+const runFfmpeg = (command: ffmpeg.FfmpegCommand, outputPath: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    command
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => {
+        fs.rmSync(outputPath, { force: true });
+        reject(signal?.aborted ? new Error('Cancelled') : err);
+      });
+
+    signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+    command.run();
+  });
+
+/**
+ * Extract a thumbnail into the cache
+ * Runs as a 'thumbnail' job.
+ */
+export const extractThumbnail = async (
+  db: StoryGraphDatabase,
+  request: ThumbnailRequest,
+  signal?: AbortSignal
+): Promise<{ url: string }> => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [request.assetId])[0];
+  if (!asset) {
+    throw new Error(`Asset not found: ${request.assetId}`);
+  }
+  if (!fs.existsSync(asset.file_path)) {
+    throw new Error(`File not found: ${asset.file_path}`);
+  }
+
+  const fileName = getThumbnailFileName(request);
+  const outputPath = path.join(getThumbnailDir(db, asset.id), fileName);
+  const duration = asset.duration || 0;
+  const command = ffmpeg(asset.file_path);
+
+  if (request.kind === 'poster') {
+    // A second in (or 10% for short clips) skips slates and fades from black
+    if (asset.media_type !== 'IMAGE' && duration > 0) {
+      command.seekInput(Math.min(1, duration * 0.1));
+    }
+    command.outputOptions(['-frames:v 1', `-vf scale=${POSTER_WIDTH}:-2`, '-q:v 4']);
+  } else {
+    const frames = Math.max(1, Math.min(MAX_FILMSTRIP_FRAMES, Math.round(request.frames)));
+    const clipIn = Math.max(0, request.clipIn);
+    const clipOut = request.clipOut > clipIn ? request.clipOut : duration;
+    const span = Math.max(clipOut - clipIn, 0.04);
+
+    if (asset.media_type === 'IMAGE') {
+      command.inputOptions(['-loop 1']).outputOptions(['-t 1']);
+    } else {
+      command.seekInput(clipIn).duration(span);
+    }
+
+    // Sample evenly across the range, then lay the samples out as one row
+    const rate = asset.media_type === 'IMAGE' ? frames : frames / span;
+    command.outputOptions([
+      `-vf fps=${rate.toFixed(6)},scale=${FILMSTRIP_FRAME_WIDTH}:-2,tile=${frames}x1`,
+      '-frames:v 1',
+      '-q:v 5',
+    ]);
+  }
+
+  await runFfmpeg(command, outputPath, signal);
+
+  console.log(`[Thumbnail] ✓ ${asset.clean_name || asset.file_name} → ${fileName}`);
+  return { url: getThumbnailUrl(asset.id, fileName) };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { parseCueTime, parseSRT, parseVTT, parseWordJSON, detectTranscriptFormat, parseTranscript } from './transcriptParsers';
+
+describe('parseCueTime', () => {
+  it('reads SRT and WebVTT timestamps, with or without hours', () => {
+    expect(parseCueTime('01:02:03,456')).toBe(3723.456);
+    expect(parseCueTime('00:00:01.5')).toBe(1.5);
+    expect(parseCueTime('02:03.040')).toBe(123.04);
+    expect(() => parseCueTime('1.5')).toThrow('Invalid cue timestamp');
+  });
+});
+
+describe('parseSRT', () => {
+  it('spreads cue words by length and keeps the speaker prefix as speaker', () => {
+    const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:03,000\r\n[Ana] Good <i>luck</i>\r\n';
+
+    expect(parseSRT(srt)).toEqual([
+      { id: 0, text: 'Good', start: 1, end: 2, speaker: 'Ana' },
+      { id: 1, text: 'luck', start: 2, end: 3, speaker: 'Ana' },
+    ]);
+  });
+
+  it('gives each dialogue line of a cue its own speaker and share of the time', () => {
+    const srt = '1\n00:00:04,000 --> 00:00:06,000 X1:10 X2:20\n- ANA: Yes\n- BEN: Nah\n\n2\n00:00:06,000 --> 00:00:07,000\nSure\n';
+
+    expect(parseSRT(srt)).toEqual([
+      { id: 0, text: 'Yes', start: 4, end: 5, speaker: 'ANA' },
+      { id: 1, text: 'Nah', start: 5, end: 6, speaker: 'BEN' },
+      { id: 2, text: 'Sure', start: 6, end: 7 },
+    ]);
+  });
+});
+
+describe('parseVTT', () => {
+  it('uses inline timestamps as word starts', () => {
+    const vtt = 'WEBVTT\n\nNOTE exported\n\ncue-1\n00:01.000 --> 00:03.000 align:start\n<v Ana>One <00:01.500>two <00:02.000>three\n';
+
+    expect(parseVTT(vtt)).toEqual([
+      { id: 0, text: 'One', start: 1, end: 1.5, speaker: 'Ana' },
+      { id: 1, text: 'two', start: 1.5, end: 2, speaker: 'Ana' },
+      { id: 2, text: 'three', start: 2, end: 3, speaker: 'Ana' },
+    ]);
+  });
+
+  it('interpolates each voice span separately without inline timestamps', () => {
+    const vtt = 'WEBVTT\n\n00:00.000 --> 00:02.000\n<v Ana>Hi</v> <v.loud Ben>Yo</v>\n';
+
+    expect(parseVTT(vtt)).toEqual([
+      { id: 0, text: 'Hi', start: 0, end: 1, speaker: 'Ana' },
+      { id: 1, text: 'Yo', start: 1, end: 2, speaker: 'Ben' },
+    ]);
+  });
+});
+
+describe('parseWordJSON', () => {
+  it('converts AssemblyAI millisecond times to seconds', () => {
+    const json = JSON.stringify({ words: [{ text: 'Hi', start: 1000, end: 1500, confidence: 0.9, speaker: 'A' }] });
+
+    expect(parseWordJSON(json)).toEqual([{ id: 0, text: 'Hi', start: 1, end: 1.5, confidence: 0.9, speaker: 'A' }]);
+  });
+
+  it('reads Whisper segment words with the segment speaker', () => {
+    const json = JSON.stringify({
+      segments: [{ speaker: 'S1', words: [{ word: ' there', start: 0.6, end: 0.9, probability: 0.8 }, { word: ' hi', start: 0.2, end: 0.4 }] }],
+    });
+
+    expect(parseWordJSON(json)).toEqual([
+      { id: 0, text: 'hi', start: 0.2, end: 0.4, speaker: 'S1' },
+      { id: 1, text: 'there', start: 0.6, end: 0.9, confidence: 0.8, speaker: 'S1' },
+    ]);
+  });
+
+  it('drops whisper.cpp non-speech markers', () => {
+    const json = JSON.stringify({
+      transcription: [
+        { offsets: { from: 0, to: 400 }, text: ' Hello' },
+        { offsets: { from: 400, to: 900 }, text: ' [BLANK_AUDIO]' },
+      ],
+    });
+
+    expect(parseWordJSON(json)).toEqual([{ id: 0, text: 'Hello', start: 0, end: 0.4 }]);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseWordJSON('{ words: ')).toThrow('Invalid transcript JSON');
+  });
+});
+
+describe('detectTranscriptFormat', () => {
+  it('identifies formats by content', () => {
+    expect(detectTranscriptFormat('WEBVTT\n\n00:01.000 --> 00:02.000\nHi')).toBe('VTT');
+    expect(detectTranscriptFormat('  [{"text":"Hi","start":0,"end":1}]')).toBe('JSON');
+    expect(detectTranscriptFormat('1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('SRT');
+    expect(detectTranscriptFormat('00:01.000 --> 00:02.000\nHi')).toBe('VTT');
+    expect(detectTranscriptFormat('Just some notes')).toBeNull();
+  });
+});
+
+describe('parseTranscript', () => {
+  it('fails on unknown formats and transcripts without words', () => {
+    expect(() => parseTranscript('Just some notes')).toThrow('Unrecognised transcript format');
+    expect(() => parseTranscript('WEBVTT\n\nNOTE nothing here\n')).toThrow('No words found in VTT transcript');
+  });
+});
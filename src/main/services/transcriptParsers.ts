@@ -0,0 +1,368 @@
+/**
+ * Transcript Parsers
+ * SRT, WebVTT and word-level JSON to WordToken[]
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * Caption formats only time whole cues, so word times inside a cue are
+ * interpolated by character length; WebVTT inline timestamps ("<00:01.500>")
+ * and word-level JSON give exact word times instead.
+ */
+
+import { WordToken, TranscriptFormat } from '../../shared/types';
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  words: WordToken[];
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * "01:02:03,456" / "01:02:03.456" / "02:03.456" → seconds
+ */
+export const parseCueTime = (time: string): number => {
+  const match = time.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    throw new Error(`Invalid cue timestamp: ${time}`);
+  }
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const normalizeNewlines = (content: string): string => content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+// Caption styling that should never reach word text: <i>, <font ...>, {\an8}
+const stripMarkup = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+
+// Speaker prefixes used in caption files: "[Ana]", ">> ANA:", "Speaker 2:"
+const SPEAKER_PREFIX = /^(?:>>\s*)?(?:\[([^\]]{1,40})\]|([A-Z][A-Z0-9 .'-]{0,30}|Speaker \d+):)\s*/;
+
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const match = text.match(SPEAKER_PREFIX);
+  if (!match) return { text };
+  return { speaker: (match[1] || match[2]).trim(), text: text.slice(match[0].length) };
+};
+
+/**
+ * Spread a cue's words across its duration in proportion to their length
+ */
+const interpolateWords = (cue: Cue, nextId: () => number): WordToken[] => {
+  const texts = cue.text.split(/\s+/).filter(Boolean);
+  if (texts.length === 0) return [];
+
+  const totalChars = texts.reduce((sum, word) => sum + word.length, 0);
+  const duration = Math.max(0, cue.end - cue.start);
+  let cursor = cue.start;
+
+  return texts.map((text, index) => {
+    const start = cursor;
+    const end = index === texts.length - 1 ? cue.end : start + (duration * text.length) / totalChars;
+    cursor = end;
+    return { id: nextId(), text, start, end, ...(cue.speaker ? { speaker: cue.speaker } : {}) };
+  });
+};
+
+const createIdCounter = () => {
+  let id = 0;
+  return () => id++;
+};
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+/**
+ * SubRip: numbered cues, "hh:mm:ss,mmm --> hh:mm:ss,mmm", any number of text lines
+ */
+export const parseSRT = (content: string): WordToken[] => {
+  const nextId = createIdCounter();
+  const words: WordToken[] = [];
+
+  for (const block of normalizeNewlines(content).split(/\n{2,}/)) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startStr, endStr] = lines[timingIndex].split('-->');
+    const start = parseCueTime(startStr);
+    const end = parseCueTime(endStr.trim().split(/\s+/)[0]); // Drop SRT position hints (X1:...)
+
+    // Each line may open with its own speaker (two-speaker cues use one line each)
+    let speaker: string | undefined;
+    const cueLines = lines.slice(timingIndex + 1).map(line => {
+      const parsed = splitSpeaker(stripMarkup(line).replace(/^-\s*/, ''));
+      return { speaker: parsed.speaker, text: parsed.text };
+    });
+
+    // Split the cue's time across lines by length so each speaker keeps their words
+    const totalChars = cueLines.reduce((sum, line) => sum + line.text.length, 0) || 1;
+    let cursor = start;
+    cueLines.forEach((line, index) => {
+      speaker = line.speaker || speaker;
+      const lineEnd = index === cueLines.length - 1 ? end : cursor + ((end - start) * line.text.length) / totalChars;
+      words.push(...interpolateWords({ start: cursor, end: lineEnd, text: line.text, speaker }, nextId));
+      cursor = lineEnd;
+    });
+  }
+
+  return words;
+};
+
+// ============================================================================
+// WEBVTT
+// ============================================================================
+
+/**
+ * Words of one cue payload, honouring <v Speaker> spans and inline timestamps
+ */
+const parseVTTPayload = (payload: string, cue: Cue, nextId: () => number): WordToken[] => {
+  // Tokenise into tags and text so spans and timestamps apply in order
+  const parts = payload.split(/(<[^>]+>)/).filter(Boolean);
+  const timed: Array<{ text: string; start: number; speaker?: string }> = [];
+  let speaker = cue.speaker;
+  let timestamp = cue.start;
+
+  for (const part of parts) {
+    if (part.startsWith('<')) {
+      const voice = part.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>$/);
+      if (voice) {
+        speaker = voice[1].trim();
+      } else if (/^<\d/.test(part)) {
+        timestamp = parseCueTime(part.slice(1, -1));
+      }
+      continue;
+    }
+    for (const text of stripMarkup(part).split(/\s+/).filter(Boolean)) {
+      timed.push({ text, start: timestamp, speaker });
+    }
+  }
+
+  // Without inline timestamps every word starts at the cue start: interpolate instead
+  const hasInlineTimes = timed.some(word => word.start !== cue.start);
+  if (!hasInlineTimes) {
+    // Keep per-word speakers from <v> spans by interpolating each speaker run
+    const words: WordToken[] = [];
+    const totalChars = timed.reduce((sum, word) => sum + word.text.length, 0) || 1;
+    let cursor = cue.start;
+    let index = 0;
+    while (index < timed.length) {
+      const runSpeaker = timed[index].speaker;
+      const run: string[] = [];
+      while (index < timed.length && timed[index].speaker === runSpeaker) {
+        run.push(timed[index++].text);
+      }
+      const runChars = run.reduce((sum, word) => sum + word.length, 0);
+      const runEnd = index === timed.length ? cue.end : cursor + ((cue.end - cue.start) * runChars) / totalChars;
+      words.push(...interpolateWords({ start: cursor, end: runEnd, text: run.join(' '), speaker: runSpeaker }, nextId));
+      cursor = runEnd;
+    }
+    return words;
+  }
+
+  // Inline timestamps: each word ends where the next begins
+  return timed.map((word, index) => ({
+    id: nextId(),
+    text: word.text,
+    start: word.start,
+    end: index < timed.length - 1 ? Math.max(word.start, timed[index + 1].start) : cue.end,
+    ...(word.speaker ? { speaker: word.speaker } : {}),
+  }));
+};
+
+/**
+ * WebVTT: header, optional cue identifiers, cue settings after the end time,
+ * NOTE/STYLE/REGION blocks, <v> voice spans and inline word timestamps
+ */
+export const parseVTT = (content: string): WordToken[] => {
+  const nextId = createIdCounter();
+  const words: WordToken[] = [];
+  const blocks = normalizeNewlines(content).split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0].trim())) continue;
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startStr, rest] = lines[timingIndex].split('-->');
+    const [endStr] = rest.trim().split(/\s+/); // Cue settings follow the end time
+    const payload = lines.slice(timingIndex + 1).map(line => line.trim()).filter(Boolean).join(' ');
+    if (!payload) continue;
+
+    const cue: Cue = { start: parseCueTime(startStr), end: parseCueTime(endStr), text: payload };
+    // Plain "Name:" prefixes are common in VTT exported from SRT
+    const prefixed = splitSpeaker(payload);
+    if (prefixed.speaker && !payload.startsWith('<')) {
+      cue.speaker = prefixed.speaker;
+      cue.text = prefixed.text;
+    }
+    words.push(...parseVTTPayload(cue.text, cue, nextId));
+  }
+
+  return words;
+};
+
+// ============================================================================
+// WORD-LEVEL JSON
+// ============================================================================
+
+interface JsonWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+const readJsonWord = (raw: any, fallbackSpeaker?: unknown): JsonWord | null => {
+  const text = raw?.punctuated_word ?? raw?.word ?? raw?.text;
+  const start = Number(raw?.start ?? raw?.start_time);
+  const end = Number(raw?.end ?? raw?.end_time);
+  if (typeof text !== 'string' || !text.trim() || isNaN(start) || isNaN(end)) return null;
+
+  const confidence = raw.confidence ?? raw.probability ?? raw.score;
+  const speaker = raw.speaker ?? raw.speaker_label ?? fallbackSpeaker;
+  return {
+    text: text.trim(),
+    start,
+    end,
+    ...(typeof confidence === 'number' ? { confidence } : {}),
+    ...(speaker !== undefined && speaker !== null ? { speaker: String(speaker) } : {}),
+  };
+};
+
+/**
+ * Collect word entries from the shapes the common engines emit:
+ *   Whisper / faster-whisper   { segments: [{ speaker?, words: [{ word, start, end, probability }] }] }
+ *   AssemblyAI                 { words: [{ text, start, end, confidence, speaker }] }   (milliseconds)
+ *   Deepgram                   { results: { channels: [{ alternatives: [{ words: [...] }] }] } }
+ *   whisper.cpp (-oj -ml 1)    { transcription: [{ offsets: { from, to }, text }] }     (milliseconds)
+ *   Story Graph word maps      [{ id, text, start, end, confidence?, speaker? }]
+ */
+const collectJsonWords = (data: any): JsonWord[] => {
+  const fromList = (list: unknown, speaker?: unknown): JsonWord[] =>
+    Array.isArray(list) ? list.map(word => readJsonWord(word, speaker)).filter((w): w is JsonWord => !!w) : [];
+
+  if (Array.isArray(data)) return fromList(data);
+
+  if (Array.isArray(data?.segments) && data.segments.some((s: any) => Array.isArray(s?.words))) {
+    return data.segments.flatMap((segment: any) => fromList(segment.words, segment.speaker));
+  }
+  if (Array.isArray(data?.words)) return fromList(data.words);
+
+  const deepgram = data?.results?.channels?.[0]?.alternatives?.[0]?.words;
+  if (Array.isArray(deepgram)) return fromList(deepgram);
+
+  // whisper.cpp: one segment per word at max-len 1; markers like [BLANK_AUDIO] are not speech
+  if (Array.isArray(data?.transcription)) {
+    return fromList(
+      data.transcription
+        .filter((segment: any) => segment?.offsets && !/^\s*\[[^\]]*\]\s*$/.test(segment.text || ''))
+        .map((segment: any) => ({
+          text: segment.text,
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+        }))
+    );
+  }
+
+  // Segment-only Whisper output: fall back to interpolating each segment
+  if (Array.isArray(data?.segments)) {
+    const nextId = createIdCounter();
+    return data.segments.flatMap((segment: any) =>
+      interpolateWords(
+        {
+          start: Number(segment.start) || 0,
+          end: Number(segment.end) || 0,
+          text: String(segment.text || ''),
+          ...(segment.speaker !== undefined ? { speaker: String(segment.speaker) } : {}),
+        },
+        nextId
+      )
+    );
+  }
+
+  return [];
+};
+
+/**
+ * Word-level JSON from transcription engines (see collectJsonWords)
+ * Times in integer milliseconds (AssemblyAI) are converted to seconds.
+ */
+export const parseWordJSON = (content: string): WordToken[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid transcript JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const words = collectJsonWords(data);
+  const inMilliseconds =
+    words.length > 0 &&
+    words.every(word => Number.isInteger(word.start) && Number.isInteger(word.end)) &&
+    Math.max(...words.map(word => word.end)) >= 1000;
+  const scale = inMilliseconds ? 1 / 1000 : 1;
+
+  return words
+    .map(word => ({ ...word, start: word.start * scale, end: word.end * scale }))
+    .sort((a, b) => a.start - b.start)
+    .map((word, id) => ({ ...word, id }));
+};
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Identify a transcript's format from its content (file extensions lie)
+ */
+export const detectTranscriptFormat = (content: string): TranscriptFormat | null => {
+  const text = normalizeNewlines(content).trimStart();
+  if (/^WEBVTT\b/.test(text)) return 'VTT';
+  if (text.startsWith('{') || text.startsWith('[')) return 'JSON';
+  if (/\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/.test(text)) return 'SRT';
+  // Headerless VTT-style cues ("00:01.000 --> 00:02.000")
+  if (/\d{2}\.\d{1,3}\s*-->/.test(text)) return 'VTT';
+  return null;
+};
+
+/**
+ * Detect and parse a transcript file's content
+ * @throws When the format is not recognised or no words are found
+ */
+export const parseTranscript = (content: string): ParsedTranscript => {
+  const format = detectTranscriptFormat(content);
+  if (!format) {
+    throw new Error('Unrecognised transcript format (expected SRT, WebVTT or word-level JSON)');
+  }
+
+  const parsers: Record<TranscriptFormat, (content: string) => WordToken[]> = {
+    SRT: parseSRT,
+    VTT: parseVTT,
+    JSON: parseWordJSON,
+  };
+  const words = parsers[format](content);
+  if (words.length === 0) {
+    throw new Error(`No words found in ${format} transcript`);
+  }
+
+  return { format, words };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { WordToken } from '../../shared/types';
+import { locateMatch, normalizeParts } from './transcriptSearchService';
+
+const words = (text: string): WordToken[] =>
+  text.split(' ').map((word, id) => ({ id, text: word, start: id, end: id + 1 }));
+
+describe('normalizeParts', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    expect(normalizeParts('Café, don’t GO!')).toEqual(['cafe', 'don', 't', 'go']);
+  });
+});
+
+describe('locateMatch', () => {
+  it('pins the query to the words that matched, the last term as a prefix', () => {
+    const passage = words('So I think we built it ourselves.');
+
+    expect(locateMatch(passage, 0, 6, ['we', 'built', 'it', 'our'])).toEqual([3, 6]);
+  });
+
+  it('matches words split into several parts', () => {
+    const passage = words("Well, we don't know.");
+
+    expect(locateMatch(passage, 0, 3, ['we', 'don', 't', 'kn'])).toEqual([1, 3]);
+  });
+
+  it('falls back to the longest in-order run, earliest first', () => {
+    const passage = words('we built it and we built more');
+
+    expect(locateMatch(passage, 0, 6, ['we', 'built', 'nothing'])).toEqual([0, 1]);
+  });
+
+  it('stays inside the passage bounds', () => {
+    const passage = words('we built it and we built it');
+
+    expect(locateMatch(passage, 3, 6, ['we', 'built', 'it'])).toEqual([4, 6]);
+    expect(locateMatch(passage, 3, 3, ['missing'])).toEqual([3, 3]);
+  });
+});
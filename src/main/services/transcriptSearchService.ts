@@ -0,0 +1,209 @@
+/**
+ * Transcript Search Service
+ * Project-wide full-text search over transcripts, resolved to word timing
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * Each word map is cut into passages (one speaker, no long pauses) that are
+ * indexed in the transcript_search FTS5 table. FTS5 finds and ranks the
+ * passages; the word map then pins a hit to the exact words that matched.
+ */
+
+import StoryGraphDatabase from '../database/schema';
+import { TranscriptSearchHit, WordToken } from '../../shared/types';
+import { loadWordMap } from './wordMapService';
+
+const PASSAGE_MAX_WORDS = 40;
+const PASSAGE_MIN_WORDS = 12; // Sentence ends only close passages past this length
+const PASSAGE_MAX_GAP = 1.5; // Seconds of silence that always start a new passage
+const CONTEXT_WORDS = 8;
+const DEFAULT_LIMIT = 50;
+
+interface Passage {
+  text: string;
+  speaker?: string;
+  firstWord: number;
+  lastWord: number;
+}
+
+// Lowercase, accent-free word parts, split the way FTS5's unicode61 tokenizer splits
+export const normalizeParts = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[\p{L}\p{N}]+/gu) || [];
+
+const splitPassages = (words: WordToken[]): Passage[] => {
+  const passages: Passage[] = [];
+  let firstWord = 0;
+
+  words.forEach((word, index) => {
+    const next = words[index + 1];
+    const length = index - firstWord + 1;
+    const closes =
+      !next ||
+      next.speaker !== word.speaker ||
+      next.start - word.end > PASSAGE_MAX_GAP ||
+      length >= PASSAGE_MAX_WORDS ||
+      (length >= PASSAGE_MIN_WORDS && /[.!?]["')\]]?$/.test(word.text));
+    if (!closes) return;
+
+    passages.push({
+      text: words.slice(firstWord, index + 1).map(w => w.text).join(' '),
+      speaker: word.speaker,
+      firstWord,
+      lastWord: index,
+    });
+    firstWord = index + 1;
+  });
+
+  return passages;
+};
+
+/**
+ * Replace an asset's passages in the search index
+ * Called whenever a word map is saved.
+ */
+export const indexTranscript = (db: StoryGraphDatabase, mediaId: string, words: WordToken[]) => {
+  const passages = splitPassages(words);
+  const sqlite = db.getDatabase();
+  const insert = sqlite.prepare(
+    'INSERT INTO transcript_search (text, media_id, speaker, first_word, last_word) VALUES (?, ?, ?, ?, ?)'
+  );
+
+  sqlite.transaction(() => {
+    sqlite.prepare('DELETE FROM transcript_search WHERE media_id = ?').run(mediaId);
+    for (const passage of passages) {
+      insert.run(passage.text, mediaId, passage.speaker ?? null, passage.firstWord, passage.lastWord);
+    }
+  })();
+};
+
+/**
+ * Index transcripts saved before the search index existed
+ */
+export const indexMissingTranscripts = (db: StoryGraphDatabase) => {
+  const missing = db.query(
+    `SELECT media_id, word_map_json FROM transcripts
+     WHERE media_id NOT IN (SELECT DISTINCT media_id FROM transcript_search)`
+  );
+  for (const row of missing) {
+    try {
+      indexTranscript(db, row.media_id, JSON.parse(row.word_map_json));
+    } catch (error) {
+      console.error(`[Transcript Search] Could not index ${row.media_id}:`, error);
+    }
+  }
+  if (missing.length > 0) {
+    console.log(`[Transcript Search] Indexed ${missing.length} existing transcript(s)`);
+  }
+};
+
+/**
+ * FTS5 query for free text: every term must appear, the last one as a prefix
+ * so results follow the user as they type
+ */
+const buildMatchQuery = (terms: string[]): string =>
+  terms.map((term, index) => `"${term}"${index === terms.length - 1 ? '*' : ''}`).join(' ');
+
+/**
+ * Longest in-order run of query terms inside a passage
+ * Returns the first and last matched word; the earliest run wins ties.
+ */
+export const locateMatch = (words: WordToken[], firstWord: number, lastWord: number, terms: string[]): [number, number] => {
+  let best: [number, number] = [firstWord, firstWord];
+  let bestScore = 0;
+
+  for (let start = firstWord; start <= lastWord; start++) {
+    let termIndex = 0;
+    let wordIndex = start;
+
+    while (termIndex < terms.length && wordIndex <= lastWord) {
+      const parts = normalizeParts(words[wordIndex].text);
+      const consumedBefore = termIndex;
+      for (const part of parts) {
+        if (termIndex >= terms.length) break;
+        const term = terms[termIndex];
+        const isLast = termIndex === terms.length - 1;
+        if (part === term || (isLast && part.startsWith(term))) termIndex++;
+        else break;
+      }
+      if (termIndex === consumedBefore) break;
+      wordIndex++;
+    }
+
+    if (termIndex > bestScore) {
+      bestScore = termIndex;
+      best = [start, wordIndex - 1];
+      if (bestScore === terms.length) break;
+    }
+  }
+
+  return best;
+};
+
+const joinWords = (words: WordToken[]) => words.map(w => w.text).join(' ');
+
+/**
+ * Search every transcript in a project
+ * Best-ranked passages first (FTS5 bm25), one hit per passage. A speaker
+ * (project display name) keeps only their passages; with a speaker and no
+ * query, every passage of that speaker is listed in transcript order.
+ */
+export const searchTranscripts = (
+  db: StoryGraphDatabase,
+  projectId: string,
+  query: string,
+  options: { speaker?: string; limit?: number } = {}
+): TranscriptSearchHit[] => {
+  const { speaker = null, limit = DEFAULT_LIMIT } = options;
+  const terms = normalizeParts(query);
+  if (terms.length === 0 && !speaker) return [];
+
+  const rows = db.query(
+    `SELECT transcript_search.media_id, COALESCE(sn.name, transcript_search.speaker) AS speaker,
+            first_word, last_word, m.clean_name, m.file_name
+     FROM transcript_search
+     JOIN media_library m ON m.id = transcript_search.media_id
+     LEFT JOIN speaker_names sn ON sn.project_id = m.project_id AND sn.label = transcript_search.speaker
+     WHERE ${terms.length > 0 ? 'transcript_search MATCH ? AND' : ''} m.project_id = ?
+       AND (? IS NULL OR COALESCE(sn.name, transcript_search.speaker) = ?)
+     ORDER BY ${terms.length > 0 ? 'transcript_search.rank' : 'm.clean_name, transcript_search.rowid'}
+     LIMIT ?`,
+    [...(terms.length > 0 ? [buildMatchQuery(terms)] : []), projectId, speaker, speaker, limit]
+  );
+
+  // Word maps loaded once per asset, however many of its passages match; hits
+  // are timed against the picture, sync offset included
+  const wordMaps = new Map<string, WordToken[]>();
+
+  return rows.flatMap(row => {
+    if (!wordMaps.has(row.media_id)) {
+      wordMaps.set(row.media_id, loadWordMap(db, row.media_id)?.words ?? []);
+    }
+    const words = wordMaps.get(row.media_id)!;
+    const firstWord: number = row.first_word;
+    const lastWord: number = row.last_word;
+    if (!words[firstWord] || !words[lastWord]) return []; // Index older than the word map
+
+    // Speaker listings match the whole passage
+    const [first, last] = terms.length > 0 ? locateMatch(words, firstWord, lastWord, terms) : [firstWord, lastWord];
+    return [
+      {
+        assetId: row.media_id,
+        assetName: row.clean_name || row.file_name,
+        speaker: row.speaker ?? undefined,
+        wordIndex: first,
+        start: words[first].start,
+        end: words[last].end,
+        passageStart: words[firstWord].start,
+        passageEnd: words[lastWord].end,
+        context: {
+          before: joinWords(words.slice(Math.max(firstWord, first - CONTEXT_WORDS), first)),
+          match: joinWords(words.slice(first, last + 1)),
+          after: joinWords(words.slice(last + 1, Math.min(lastWord + 1, last + 1 + CONTEXT_WORDS))),
+        },
+      },
+    ];
+  });
+};
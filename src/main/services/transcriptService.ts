@@ -1,58 +1,59 @@
-import { WordToken } from '../../shared/types';
 import fs from 'fs/promises';
+import path from 'path';
+import { TranscriptDB, TranscriptEdit, TranscriptRevision, WordToken } from '../../shared/types';
 import StoryGraphDatabase from '../database/schema';
+import { parseTranscript } from './transcriptParsers';
+import { indexTranscript } from './transcriptSearchService';
+import { generateWordMap, getWordMapRate, loadWordMap } from './wordMapService';
 
-export const srtTimeToSeconds = (time: string): number => {
-    const parts = time.split(':');
-    const secondsParts = parts[2].split(',');
-    const hours = parseInt(parts[0]);
-    const minutes = parseInt(parts[1]);
-    const seconds = parseInt(secondsParts[0]);
-    const milliseconds = parseInt(secondsParts[1]);
-    return (hours * 3600) + (minutes * 60) + seconds + (milliseconds / 1000);
+// source_type of a word map with manual corrections; imports and engines never replace it unasked
+export const EDITED_SOURCE_TYPE = 'EDITED';
+
+const MAX_REVISIONS = 50; // Per transcript; the first (original) revision is always kept
+
+const recordRevision = (db: StoryGraphDatabase, mediaId: string, sourceType: string, wordMapJson: string, note: string | null) => {
+    const latest = db.query('SELECT MAX(revision) AS revision FROM transcript_revisions WHERE media_id = ?', [mediaId])[0];
+    db.execute(
+        `INSERT INTO transcript_revisions (media_id, revision, source_type, note, word_map_json)
+         VALUES (?, ?, ?, ?, ?)`,
+        [mediaId, (latest?.revision || 0) + 1, sourceType, note, wordMapJson]
+    );
+    db.execute(
+        `DELETE FROM transcript_revisions
+         WHERE media_id = ? AND revision > (SELECT MIN(revision) FROM transcript_revisions WHERE media_id = ?)
+           AND id NOT IN (SELECT id FROM transcript_revisions WHERE media_id = ? ORDER BY revision DESC LIMIT ?)`,
+        [mediaId, mediaId, mediaId, MAX_REVISIONS - 1]
+    );
 };
 
-export const parseSRT = (fileContent: string): WordToken[] => {
-    // Basic implementation, needs to be more robust
-    const lines = fileContent.split('\\n');
-    const tokens: WordToken[] = [];
-    let idCounter = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-        if (lines[i].includes('-->')) {
-            const timeLine = lines[i];
-            const contentLine = lines[i + 1];
-            if (timeLine && contentLine) {
-                const [startStr, endStr] = timeLine.split(' --> ');
-                const start = srtTimeToSeconds(startStr);
-                const end = srtTimeToSeconds(endStr);
-
-                // This is a simple sentence-level split.
-                // A more advanced implementation would split by word and interpolate timestamps.
-                const words = contentLine.split(' ');
-                const wordDuration = (end - start) / words.length;
-
-                words.forEach((word, index) => {
-                    tokens.push({
-                        id: idCounter++,
-                        text: word,
-                        start: start + (index * wordDuration),
-                        end: start + ((index + 1) * wordDuration),
-                    });
-                });
-                i++; // Skip content line
-            }
-        }
+/**
+ * Store (or replace) an asset's word map
+ * source_type records where the words came from: 'SRT', 'VTT', 'JSON', an engine name or EDITED.
+ * Every save is kept as a revision. A corrected (EDITED) transcript is only
+ * replaced from another source with overwriteEdits. Words are stored with
+ * frames at the asset's rate; the sync offset is kept across saves.
+ */
+export const saveTranscript = (
+    db: StoryGraphDatabase,
+    mediaId: string,
+    sourceType: string,
+    wordTokens: WordToken[],
+    options: { overwriteEdits?: boolean; note?: string } = {}
+) => {
+    const existing: TranscriptDB | undefined = db.query('SELECT * FROM transcripts WHERE media_id = ?', [mediaId])[0];
+    if (existing?.source_type === EDITED_SOURCE_TYPE && sourceType !== EDITED_SOURCE_TYPE && !options.overwriteEdits) {
+        throw new Error('This transcript has manual corrections; replacing it would discard them');
     }
-    return tokens;
-};
 
-export const importTranscript = async (db: StoryGraphDatabase, mediaId: string, filePath: string): Promise<{ success: boolean, error?: string }> => {
-    try {
-        const fileContent = await fs.readFile(filePath, 'utf-8');
-        const wordTokens = parseSRT(fileContent);
-        const rawText = wordTokens.map(t => t.text).join(' ');
-        const wordMapJson = JSON.stringify(wordTokens);
+    const rawText = wordTokens.map(t => t.text).join(' ');
+    const wordMapJson = JSON.stringify(generateWordMap(wordTokens, getWordMapRate(db, mediaId)));
+
+    db.getDatabase().transaction(() => {
+        // Transcripts stored before revisions existed start their history with that version
+        const hasHistory = db.query('SELECT 1 FROM transcript_revisions WHERE media_id = ? LIMIT 1', [mediaId]).length > 0;
+        if (existing && !hasHistory) {
+            recordRevision(db, mediaId, existing.source_type, existing.word_map_json, null);
+        }
 
         db.execute(
             `INSERT INTO transcripts (media_id, source_type, raw_text, word_map_json)
@@ -61,9 +62,24 @@ export const importTranscript = async (db: StoryGraphDatabase, mediaId: string,
                 source_type = excluded.source_type,
                 raw_text = excluded.raw_text,
                 word_map_json = excluded.word_map_json`,
-            [mediaId, 'SRT', rawText, wordMapJson]
+            [mediaId, sourceType, rawText, wordMapJson]
         );
-        console.log(`Transcript imported for media: ${mediaId}`);
+        recordRevision(db, mediaId, sourceType, wordMapJson, options.note ?? null);
+        indexTranscript(db, mediaId, wordTokens);
+    })();
+};
+
+export const importTranscript = async (
+    db: StoryGraphDatabase,
+    mediaId: string,
+    filePath: string,
+    overwriteEdits = false
+): Promise<{ success: boolean, error?: string }> => {
+    try {
+        const fileContent = await fs.readFile(filePath, 'utf-8');
+        const { format, words: wordTokens } = parseTranscript(fileContent);
+        saveTranscript(db, mediaId, format, wordTokens, { overwriteEdits, note: path.basename(filePath) });
+        console.log(`Transcript imported for media: ${mediaId} (${format}, ${wordTokens.length} words)`);
         return { success: true };
     } catch (error) {
         console.error(`Error importing transcript for media ${mediaId}:`, error);
@@ -71,6 +87,147 @@ export const importTranscript = async (db: StoryGraphDatabase, mediaId: string,
     }
 };
 
+/**
+ * Retype a run of words, keeping timing where the words still line up
+ * Same number of words: each keeps its own start/end. Otherwise the run's
+ * span is shared out by character count, as for SRT cues.
+ */
+const retimeWords = (run: WordToken[], texts: string[]): WordToken[] => {
+    const speaker = run[0].speaker;
+
+    if (texts.length === run.length) {
+        return run.map((word, index) => {
+            if (word.text === texts[index]) return word;
+            const { confidence: _confidence, ...corrected } = word; // Corrected words are no longer the engine's guess
+            return { ...corrected, text: texts[index] };
+        });
+    }
+
+    const start = run[0].start;
+    const end = run[run.length - 1].end;
+    const totalChars = texts.reduce((sum, text) => sum + text.length, 0);
+    let cursor = start;
+
+    return texts.map((text, index) => {
+        const wordStart = cursor;
+        const wordEnd = index === texts.length - 1 ? end : wordStart + ((end - start) * text.length) / totalChars;
+        cursor = wordEnd;
+        return { id: 0, text, start: wordStart, end: wordEnd, ...(speaker ? { speaker } : {}) };
+    });
+};
+
+/**
+ * Apply one correction to a word map; ids are renumbered from 0 afterwards
+ */
+export const applyTranscriptEdit = (words: WordToken[], edit: TranscriptEdit): WordToken[] => {
+    const from = words.findIndex(word => word.id === edit.fromId);
+    const to = words.findIndex(word => word.id === edit.toId);
+    if (from === -1 || to === -1 || to < from) {
+        throw new Error('Edited words are not in this transcript');
+    }
+
+    const run = words.slice(from, to + 1);
+    let replacement: WordToken[];
+    if (edit.type === 'SPEAKER') {
+        const speaker = edit.speaker?.trim();
+        replacement = run.map(({ speaker: _previous, ...word }) => (speaker ? { ...word, speaker } : word));
+    } else {
+        replacement = retimeWords(run, edit.text.split(/\s+/).filter(Boolean));
+    }
+
+    return [...words.slice(0, from), ...replacement, ...words.slice(to + 1)].map((word, id) => ({ ...word, id }));
+};
+
+export const editTranscript = (
+    db: StoryGraphDatabase,
+    mediaId: string,
+    edit: TranscriptEdit
+): { success: boolean, words?: WordToken[], error?: string } => {
+    try {
+        // Edits apply to the stored timing; the sync offset is applied on the way out
+        const transcript: TranscriptDB | undefined = db.query('SELECT * FROM transcripts WHERE media_id = ?', [mediaId])[0];
+        if (!transcript) {
+            throw new Error('No transcript for this asset');
+        }
+        const words = applyTranscriptEdit(JSON.parse(transcript.word_map_json), edit);
+        if (words.length === 0) {
+            throw new Error('A transcript needs at least one word');
+        }
+
+        const note = edit.type === 'SPEAKER'
+            ? `Speaker: ${edit.speaker?.trim() || 'none'}`
+            : `Edit: ${edit.text.trim() || '(deleted)'}`;
+        saveTranscript(db, mediaId, EDITED_SOURCE_TYPE, words, { note });
+        return { success: true, words: loadWordMap(db, mediaId)?.words };
+    } catch (error) {
+        console.error(`Error editing transcript for media ${mediaId}:`, error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+};
+
+export const listTranscriptRevisions = (db: StoryGraphDatabase, mediaId: string): TranscriptRevision[] =>
+    db.query(
+        `SELECT id, media_id, revision, source_type, note, json_array_length(word_map_json) AS word_count, created_at
+         FROM transcript_revisions WHERE media_id = ? ORDER BY revision DESC`,
+        [mediaId]
+    );
+
+/**
+ * Make an earlier revision current again, as a new revision
+ * Restoring keeps the revision's own source_type, so going back to the
+ * original import also lifts the EDITED protection.
+ */
+export const restoreTranscriptRevision = (
+    db: StoryGraphDatabase,
+    mediaId: string,
+    revisionId: number
+): { success: boolean, words?: WordToken[], error?: string } => {
+    const revision = db.query('SELECT * FROM transcript_revisions WHERE id = ? AND media_id = ?', [revisionId, mediaId])[0];
+    if (!revision) {
+        return { success: false, error: 'Revision not found' };
+    }
+
+    saveTranscript(db, mediaId, revision.source_type, JSON.parse(revision.word_map_json), {
+        overwriteEdits: true,
+        note: `Restored revision ${revision.revision}`,
+    });
+    return { success: true, words: loadWordMap(db, mediaId)?.words };
+};
+
+/**
+ * Set how many frames (at the asset's rate) the words are shifted against the
+ * picture, e.g. for audio from a separate recorder. Not a revision: the words
+ * themselves are unchanged.
+ */
+export const setTranscriptSyncOffset = (
+    db: StoryGraphDatabase,
+    mediaId: string,
+    offsetFrames: number
+): { success: boolean, words?: WordToken[], error?: string } => {
+    if (!Number.isInteger(offsetFrames)) {
+        return { success: false, error: 'Sync offset must be a whole number of frames' };
+    }
+    if (db.query('SELECT 1 FROM transcripts WHERE media_id = ?', [mediaId]).length === 0) {
+        return { success: false, error: 'No transcript for this asset' };
+    }
+    db.execute('UPDATE transcripts SET sync_offset_frames = ? WHERE media_id = ?', [offsetFrames, mediaId]);
+    console.log(`Transcript sync offset for media ${mediaId}: ${offsetFrames} frames`);
+    return { success: true, words: loadWordMap(db, mediaId)?.words };
+};
+
+/**
+ * An asset's transcript with its words as they play against the picture
+ * (sync offset applied)
+ */
+export const getTranscriptForAsset = (db: StoryGraphDatabase, mediaId: string): (Omit<TranscriptDB, 'word_map_json'> & { word_map_json: WordToken[] }) | null => {
+    const transcript: TranscriptDB | undefined = db.query('SELECT * FROM transcripts WHERE media_id = ?', [mediaId])[0];
+    const wordMap = loadWordMap(db, mediaId);
+    if (!transcript || !wordMap) {
+        return null;
+    }
+    return { ...transcript, word_map_json: wordMap.words };
+};
+
 export const getTranscriptForNode = async (db: StoryGraphDatabase, nodeId: string): Promise<{ transcript: any, clip_in: number, clip_out: number } | null> => {
     try {
         const nodes = db.query('SELECT asset_id, clip_in, clip_out FROM story_nodes WHERE id = ?', [nodeId]);
@@ -80,18 +237,14 @@ export const getTranscriptForNode = async (db: StoryGraphDatabase, nodeId: strin
             return null;
         }
 
-        const transcripts = db.query('SELECT * FROM transcripts WHERE media_id = ?', [node.asset_id]);
-        const transcript = transcripts[0];
+        const transcript = getTranscriptForAsset(db, node.asset_id);
 
         if (!transcript) {
             return null;
         }
 
         return {
-            transcript: {
-                ...transcript,
-                word_map_json: JSON.parse(transcript.word_map_json),
-            },
+            transcript,
             clip_in: node.clip_in,
             clip_out: node.clip_out,
         };
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WordToken } from '../../shared/types';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-test-'));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+// Audio extraction writes an empty WAV instead of running ffmpeg
+const extractions = vi.hoisted(() => ({ count: 0 }));
+vi.mock('fluent-ffmpeg', () => ({
+  default: () => {
+    const listeners: Record<string, () => void> = {};
+    let outputPath = '';
+    const command: any = {
+      noVideo: () => command,
+      outputOptions: () => command,
+      audioChannels: () => command,
+      audioFrequency: () => command,
+      audioCodec: () => command,
+      output: (target: string) => {
+        outputPath = target;
+        return command;
+      },
+      on: (event: string, listener: () => void) => {
+        listeners[event] = listener;
+        return command;
+      },
+      kill: () => {},
+      run: () => {
+        extractions.count++;
+        fs.writeFileSync(outputPath, '');
+        listeners.end();
+      },
+    };
+    return command;
+  },
+}));
+
+const { default: StoryGraphDatabase } = await import('../database/schema');
+const { PermanentJobError } = await import('./jobService');
+const { saveTranscript } = await import('./transcriptService');
+const { createFixedWordsEngine, setTranscriptionEngine, transcribeAsset } = await import('./transcriptionService');
+
+const WORDS: WordToken[] = [
+  { id: 0, text: 'Hello', start: 0.5, end: 0.9 },
+  { id: 1, text: 'there', start: 1, end: 1.4 },
+];
+
+describe('transcribeAsset', () => {
+  let db: InstanceType<typeof StoryGraphDatabase>;
+  let mediaPath: string;
+
+  beforeEach(() => {
+    db = new StoryGraphDatabase(`transcription-${Date.now()}`);
+    mediaPath = path.join(userData, 'interview.wav');
+    fs.writeFileSync(mediaPath, '');
+    extractions.count = 0;
+
+    db.execute('INSERT INTO projects (id, name) VALUES (?, ?)', ['p1', 'Test']);
+    db.execute(
+      `INSERT INTO media_library (id, project_id, file_name, clean_name, file_path, media_type, fps, duration)
+       VALUES (?, ?, ?, ?, ?, 'DIALOGUE', 25, 10)`,
+      ['m1', 'p1', 'interview.wav', 'Interview', mediaPath]
+    );
+  });
+
+  afterEach(() => {
+    setTranscriptionEngine(null);
+    // Skips close()'s final backup, which would outlive the connection
+    db.getDatabase().close();
+  });
+
+  afterAll(() => {
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('stores the engine words as the transcript', async () => {
+    setTranscriptionEngine(createFixedWordsEngine(WORDS));
+    const progress: number[] = [];
+
+    await expect(transcribeAsset(db, 'm1', percent => progress.push(percent))).resolves.toEqual({
+      assetId: 'm1',
+      wordCount: 2,
+    });
+
+    const transcript = db.query('SELECT source_type, raw_text FROM transcripts WHERE media_id = ?', ['m1'])[0];
+    expect(transcript).toEqual({ source_type: 'FIXED', raw_text: 'Hello there' });
+    expect(progress).toEqual([10, 100]);
+  });
+
+  it('refuses to replace an edited transcript before decoding any audio', async () => {
+    saveTranscript(db, 'm1', 'EDITED', WORDS);
+    setTranscriptionEngine(createFixedWordsEngine(WORDS));
+
+    await expect(transcribeAsset(db, 'm1', () => {})).rejects.toBeInstanceOf(PermanentJobError);
+    expect(extractions.count).toBe(0);
+  });
+
+  it('fails without retry when no engine is configured', async () => {
+    await expect(transcribeAsset(db, 'm1', () => {})).rejects.toBeInstanceOf(PermanentJobError);
+    expect(extractions.count).toBe(0);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Transcription Service
+ * Word-level transcripts for DIALOGUE assets from a local speech-to-text engine
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * Engines are pluggable behind TranscriptionEngine. The default runs a
+ * whisper.cpp binary (whisper-cli) configured per project; nothing leaves the
+ * machine. setTranscriptionEngine() swaps in any other implementation, e.g.
+ * createFixedWordsEngine(), which returns fixed words without a model.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, WordToken } from '../../shared/types';
+import { parseWordJSON } from './transcriptParsers';
+import { saveTranscript, EDITED_SOURCE_TYPE } from './transcriptService';
+import { PermanentJobError } from './jobService';
+
+export interface TranscriptionRequest {
+  audioPath: string; // 16 kHz mono WAV
+  language?: string; // ISO code, undefined = auto-detect
+  signal?: AbortSignal;
+  onProgress?: (percent: number) => void;
+}
+
+export interface TranscriptionEngine {
+  sourceType: string; // Stored as transcripts.source_type
+  transcribe: (request: TranscriptionRequest) => Promise<WordToken[]>;
+}
+
+export interface WhisperCppConfig {
+  binaryPath: string;
+  modelPath: string;
+  threads?: number;
+}
+
+// Engine replacing the configured one for every project (null = use settings)
+let engineOverride: TranscriptionEngine | null = null;
+
+export const setTranscriptionEngine = (engine: TranscriptionEngine | null) => {
+  engineOverride = engine;
+};
+
+/**
+ * Deterministic engine that returns the same words for any audio
+ * For tests and for exercising the transcript pipeline without a model.
+ */
+export const createFixedWordsEngine = (words: WordToken[], sourceType = 'FIXED'): TranscriptionEngine => ({
+  sourceType,
+  transcribe: async ({ signal, onProgress }) => {
+    if (signal?.aborted) throw new Error('Cancelled');
+    onProgress?.(100);
+    return words.map(word => ({ ...word }));
+  },
+});
+
+// ============================================================================
+// WHISPER.CPP ENGINE
+// ============================================================================
+
+/**
+ * whisper.cpp command-line engine
+ * Runs at max segment length 1 with split-on-word, so each JSON segment is one
+ * word with millisecond offsets; progress comes from the -pp lines on stderr.
+ */
+export const createWhisperCppEngine = (config: WhisperCppConfig): TranscriptionEngine => ({
+  sourceType: 'WHISPER_CPP',
+  transcribe: ({ audioPath, language, signal, onProgress }) =>
+    new Promise((resolve, reject) => {
+      const outputBase = audioPath.replace(/\.wav$/i, '');
+      const args = [
+        '-m', config.modelPath,
+        '-f', audioPath,
+        '-l', language || 'auto',
+        '-t', String(config.threads || Math.max(1, os.cpus().length - 1)),
+        '-ml', '1',
+        '-sow',
+        '-oj',
+        '-of', outputBase,
+        '-pp',
+      ];
+
+      const child = spawn(config.binaryPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderrTail = '';
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        stderrTail = (stderrTail + text).slice(-2000);
+        for (const match of text.matchAll(/progress\s*=\s*(\d+)%/g)) {
+          onProgress?.(Math.min(99, Number(match[1])));
+        }
+      });
+
+      signal?.addEventListener('abort', () => child.kill('SIGKILL'), { once: true });
+
+      child.on('error', (err: Error) => reject(new Error(`Could not start transcription engine: ${err.message}`)));
+      child.on('close', code => {
+        if (signal?.aborted) return reject(new Error('Cancelled'));
+        if (code !== 0) {
+          return reject(new Error(`Transcription engine exited with code ${code}: ${stderrTail.trim().split('\n').pop() || ''}`));
+        }
+        try {
+          resolve(parseWordJSON(fs.readFileSync(`${outputBase}.json`, 'utf-8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    }),
+});
+
+/**
+ * Engine for a project: the override if set, else whisper.cpp from project settings
+ * @throws When no engine is configured or its files are missing
+ */
+export const getTranscriptionEngine = (db: StoryGraphDatabase, projectId: string): TranscriptionEngine => {
+  if (engineOverride) return engineOverride;
+
+  const settings = db.query(
+    'SELECT transcription_engine_path, transcription_model_path FROM project_settings WHERE project_id = ?',
+    [projectId]
+  )[0];
+  if (!settings?.transcription_engine_path || !settings?.transcription_model_path) {
+    throw new PermanentJobError('No transcription engine configured for this project');
+  }
+  for (const filePath of [settings.transcription_engine_path, settings.transcription_model_path]) {
+    if (!fs.existsSync(filePath)) {
+      throw new PermanentJobError(`Transcription engine file not found: ${filePath}`);
+    }
+  }
+
+  return createWhisperCppEngine({
+    binaryPath: settings.transcription_engine_path,
+    modelPath: settings.transcription_model_path,
+  });
+};
+
+// ============================================================================
+// JOB ENTRY POINT
+// ============================================================================
+
+/**
+ * Decode the first audio stream to the 16 kHz mono WAV speech engines expect
+ */
+const extractSpeechAudio = (asset: MediaAsset, outputPath: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const command = ffmpeg(asset.file_path)
+      .noVideo()
+      .outputOptions(['-map 0:a:0'])
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('pcm_s16le')
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(signal?.aborted ? new Error('Cancelled') : err));
+
+    signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+    command.run();
+  });
+
+/**
+ * Transcribe a DIALOGUE asset and store its word map
+ * Runs as a 'transcript' job; audio extraction counts for the first 10%.
+ * Everything that would make the result unsavable is checked before any
+ * decoding, and fails the job without retries.
+ */
+export const transcribeAsset = async (
+  db: StoryGraphDatabase,
+  assetId: string,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<{ assetId: string; wordCount: number }> => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+  if (!asset) {
+    throw new PermanentJobError(`Asset not found: ${assetId}`);
+  }
+  if (asset.media_type !== 'DIALOGUE') {
+    throw new PermanentJobError(`Only DIALOGUE assets are transcribed (${asset.clean_name} is ${asset.media_type})`);
+  }
+  if (!fs.existsSync(asset.file_path)) {
+    throw new PermanentJobError(`File not found: ${asset.file_path}`);
+  }
+  const existing = db.query('SELECT source_type FROM transcripts WHERE media_id = ?', [assetId])[0];
+  if (existing?.source_type === EDITED_SOURCE_TYPE) {
+    throw new PermanentJobError('This transcript has manual corrections; replacing it would discard them');
+  }
+
+  const engine = getTranscriptionEngine(db, asset.project_id);
+  const language = db.query('SELECT transcription_language FROM project_settings WHERE project_id = ?', [
+    asset.project_id,
+  ])[0]?.transcription_language;
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storygraph-transcribe-'));
+  try {
+    const audioPath = path.join(workDir, 'speech.wav');
+    await extractSpeechAudio(asset, audioPath, signal);
+    onProgress(10);
+
+    const words = await engine.transcribe({
+      audioPath,
+      language: language || undefined,
+      signal,
+      onProgress: percent => onProgress(10 + Math.round(percent * 0.9)),
+    });
+    if (words.length === 0) {
+      throw new Error('Transcription produced no words');
+    }
+
+    saveTranscript(db, asset.id, engine.sourceType, words);
+    console.log(`[Transcription] ✓ ${asset.clean_name || asset.file_name} (${words.length} words, ${engine.sourceType})`);
+    return { assetId: asset.id, wordCount: words.length };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { StoryNode } from '../../shared/types';
+import { findAnchorCycles } from './validationService';
+
+const graph = (anchors: Record<string, string | undefined>): Map<string, StoryNode> =>
+  new Map(Object.entries(anchors).map(([id, anchor_id]) => [id, { id, anchor_id } as StoryNode]));
+
+describe('findAnchorCycles', () => {
+  it('reports each loop once, without the chains leading into it', () => {
+    const nodes = graph({ spine: undefined, a: 'b', b: 'c', c: 'a', tail: 'a', self: 'self' });
+
+    expect(findAnchorCycles(nodes)).toEqual([['a', 'b', 'c'], ['self']]);
+  });
+
+  it('ignores anchors that point outside the node set', () => {
+    expect(findAnchorCycles(graph({ spine: undefined, orphan: 'missing', child: 'orphan' }))).toEqual([]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Validation Service
+ * Pre-export checks on the anchor graph and its flattened timeline
+ * Phase 9: Export & Flattening
+ *
+ * The flattener skips anything it cannot reach from the origin spine, so
+ * anchor cycles, orphaned anchors and spine chains detached from the origin
+ * are flagged on the graph: those clips would silently drop out of every export. Media and timing checks only look
+ * at placed clips; bucket nodes are never exported and never checked.
+ *
+ * Errors (cycles, orphaned anchors, missing media) make an export wrong or
+ * impossible; warnings (detached chains, trims past media end, overlaps,
+ * container spill) are reported but can be exported anyway.
+ */
+
+import fs from 'fs/promises';
+import StoryGraphDatabase from '../database/schema';
+import {
+  StoryNode,
+  MediaAsset,
+  FlattenedClip,
+  FractalContainer,
+  ValidationIssue,
+  ValidationReport,
+} from '../../shared/types';
+import { loadCanvasTimeline, getContainerRange, findRootSpines } from './flattenService';
+
+// Trims within half a frame of the media end are rounding, not errors
+const DURATION_TOLERANCE_FRAMES = 0.5;
+
+const nodeLabel = (node: StoryNode, assets: Map<string, MediaAsset>): string => {
+  const asset = node.asset_id ? assets.get(node.asset_id) : undefined;
+  return asset?.clean_name || asset?.file_name || `${node.subtype} ${node.id.slice(0, 8)}`;
+};
+
+/**
+ * Find every anchor cycle in a set of nodes
+ * Each cycle is reported once, as the list of node IDs that form the loop.
+ */
+export const findAnchorCycles = (nodes: Map<string, StoryNode>): string[][] => {
+  const cycles: string[][] = [];
+  const settled = new Set<string>();
+
+  nodes.forEach(start => {
+    const path: string[] = [];
+    const onPath = new Map<string, number>();
+    let currentId: string | undefined = start.id;
+
+    while (currentId && nodes.has(currentId) && !settled.has(currentId)) {
+      if (onPath.has(currentId)) {
+        cycles.push(path.slice(onPath.get(currentId)));
+        break;
+      }
+      onPath.set(currentId, path.length);
+      path.push(currentId);
+      currentId = nodes.get(currentId)!.anchor_id;
+    }
+
+    path.forEach(id => settled.add(id));
+  });
+
+  return cycles;
+};
+
+/**
+ * Detect ghost tails: members that run past the end (or start before the
+ * start) of a container whose bounds are pinned by its anchors
+ */
+export const detectGhostTails = (
+  container: FractalContainer,
+  clips: FlattenedClip[],
+  nodes: StoryNode[]
+): Array<{ nodeId: string; overlapAmount: number }> => {
+  if (!container.ANCHOR_START_ID && !container.ANCHOR_END_ID) return [];
+
+  const range = getContainerRange(container, clips, nodes);
+  if (!range) return [];
+
+  const memberIds = new Set(
+    nodes.filter(n => n.act_id === container.id || n.scene_id === container.id).map(n => n.id)
+  );
+
+  return clips
+    .filter(clip => memberIds.has(clip.nodeId))
+    .map(clip => ({
+      nodeId: clip.nodeId,
+      overlapAmount: Math.max(
+        container.ANCHOR_END_ID ? clip.endFrame - range.out : 0,
+        container.ANCHOR_START_ID ? range.in - clip.startFrame : 0
+      ),
+    }))
+    .filter(tail => tail.overlapAmount > 0);
+};
+
+/**
+ * Validate a canvas before export
+ */
+export const validateGraphForExport = async (
+  db: StoryGraphDatabase,
+  canvasId: string
+): Promise<ValidationReport> => {
+  const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+  const fps = canvas.FPS;
+  const issues: ValidationIssue[] = [];
+  const label = (nodeId: string) => nodeLabel(nodes.get(nodeId)!, assets);
+
+  const placed = Array.from(new Set(clips.map(clip => clip.nodeId))).map(id => nodes.get(id)!);
+  const onCanvas = new Map(Array.from(nodes.values()).filter(n => !n.is_global).map(n => [n.id, n]));
+
+  // 1. Anchor cycles (paradoxes)
+  findAnchorCycles(onCanvas).forEach(cycle => {
+    issues.push({
+      type: 'ANCHOR_CYCLE',
+      severity: 'error',
+      message: `Anchor cycle: ${cycle.map(label).join(' → ')} → ${label(cycle[0])}`,
+      nodeId: cycle[0],
+      relatedNodeIds: cycle,
+    });
+  });
+
+  // 2. Orphaned anchors: the parent is gone or sits in the bucket
+  onCanvas.forEach(node => {
+    if (node.anchor_id && !onCanvas.has(node.anchor_id)) {
+      issues.push({
+        type: 'ORPHAN_ANCHOR',
+        severity: 'error',
+        message: nodes.has(node.anchor_id)
+          ? `${label(node.id)} is anchored to a node in the bucket`
+          : `${label(node.id)} is anchored to a node that no longer exists`,
+        nodeId: node.id,
+      });
+    }
+  });
+
+  // Spine chains with no anchor to the origin: only the first root is exported
+  const [origin, ...detached] = findRootSpines(Array.from(onCanvas.values()));
+  detached.forEach(root => {
+    issues.push({
+      type: 'DETACHED_CHAIN',
+      severity: 'warning',
+      message: `${label(root.id)} starts a chain that is not connected to ${label(origin.id)} and will not be exported`,
+      nodeId: root.id,
+    });
+  });
+
+  // 3. Trims past the end of the media
+  placed.forEach(node => {
+    const asset = node.asset_id ? assets.get(node.asset_id) : undefined;
+    if (!asset?.duration || node.clip_out == null) return;
+
+    const overrunFrames = (node.clip_out - asset.duration) * fps;
+    if (overrunFrames > DURATION_TOLERANCE_FRAMES) {
+      issues.push({
+        type: 'CLIP_OUT_OF_RANGE',
+        severity: 'warning',
+        message: `${label(node.id)} ends ${Math.round(overrunFrames)} frame(s) past the end of its media`,
+        nodeId: node.id,
+      });
+    }
+  });
+
+  // 4. Missing media on disk (one issue per file, pointing at its first clip)
+  const checked = new Set<string>();
+  for (const node of placed) {
+    const asset = node.asset_id ? assets.get(node.asset_id) : undefined;
+    if (!asset || !asset.file_path || checked.has(asset.id)) continue;
+    checked.add(asset.id);
+
+    try {
+      await fs.access(asset.file_path);
+    } catch {
+      const users = placed.filter(n => n.asset_id === asset.id).map(n => n.id);
+      issues.push({
+        type: 'MISSING_MEDIA',
+        severity: 'error',
+        message: `Media file not found: ${asset.file_path}`,
+        nodeId: node.id,
+        relatedNodeIds: users,
+      });
+    }
+  }
+
+  // 5. Overlaps on the same computed track
+  const byTrack = new Map<number, FlattenedClip[]>();
+  clips.forEach(clip => {
+    const trackClips = byTrack.get(clip.track) || [];
+    trackClips.push(clip);
+    byTrack.set(clip.track, trackClips);
+  });
+  byTrack.forEach((trackClips, track) => {
+    const sorted = [...trackClips].sort((a, b) => a.startFrame - b.startFrame);
+    let previous: FlattenedClip | null = null;
+    sorted.forEach(clip => {
+      if (previous && clip.startFrame < previous.endFrame && clip.endFrame > clip.startFrame) {
+        issues.push({
+          type: 'TRACK_OVERLAP',
+          severity: 'warning',
+          message: `${label(clip.nodeId)} overlaps ${label(previous.nodeId)} by ${Math.min(previous.endFrame, clip.endFrame) - clip.startFrame} frame(s) on track ${track >= 0 ? `V${track + 1}` : `below ${-track}`}`,
+          nodeId: clip.nodeId,
+          relatedNodeIds: [previous.nodeId, clip.nodeId],
+        });
+      }
+      if (!previous || clip.endFrame > previous.endFrame) previous = clip;
+    });
+  });
+
+  // 6. Container spill: timeline ghost tails and canvas bounds
+  const containers: FractalContainer[] = db.query('SELECT * FROM fractal_containers WHERE canvas_id = ?', [canvasId]);
+  const nodeList = Array.from(nodes.values());
+  containers.forEach(container => {
+    const spilled = new Set<string>();
+
+    detectGhostTails(container, clips, nodeList).forEach(tail => {
+      spilled.add(tail.nodeId);
+      issues.push({
+        type: 'CONTAINER_SPILL',
+        severity: 'warning',
+        message: `${label(tail.nodeId)} runs ${tail.overlapAmount} frame(s) past ${container.type} "${container.name}"`,
+        nodeId: tail.nodeId,
+        containerId: container.id,
+      });
+    });
+
+    placed
+      .filter(n => (n.act_id === container.id || n.scene_id === container.id) && !spilled.has(n.id))
+      .forEach(node => {
+        const outside =
+          node.x < container.x ||
+          node.y < container.y ||
+          node.x + (node.width || 0) > container.x + container.width ||
+          node.y + (node.height || 0) > container.y + container.height;
+        if (outside) {
+          issues.push({
+            type: 'CONTAINER_SPILL',
+            severity: 'warning',
+            message: `${label(node.id)} sits outside the bounds of ${container.type} "${container.name}"`,
+            nodeId: node.id,
+            containerId: container.id,
+          });
+        }
+      });
+  });
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  console.log(`[Validation] Canvas ${canvasId}: ${errorCount} error(s), ${issues.length - errorCount} warning(s)`);
+
+  return { isValid: errorCount === 0, issues };
+};
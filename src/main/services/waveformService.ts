@@ -0,0 +1,113 @@
+/**
+ * Waveform Service
+ * Audio peak envelopes for timeline clips and MUSIC/DIALOGUE nodes
+ * Phase 2: Media Ingestion
+ *
+ * ffmpeg decodes the first audio stream to mono 16-bit PCM at a low sample
+ * rate; the stream is folded into one absolute peak per bucket as it arrives,
+ * so hour-long files never sit in memory. Peaks are cached as raw bytes
+ * (0-255, PEAKS_PER_SECOND per second) in cache/waveforms/<assetId>.peaks.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, WaveformData } from '../../shared/types';
+
+const SAMPLE_RATE = 8000;
+export const PEAKS_PER_SECOND = 50;
+const SAMPLES_PER_PEAK = SAMPLE_RATE / PEAKS_PER_SECOND;
+
+const getWaveformPath = (db: StoryGraphDatabase, assetId: string): string =>
+  path.join(db.getCacheDir('waveforms'), `${assetId}.peaks`);
+
+/**
+ * Load cached peaks, or null if they have not been extracted yet
+ */
+export const readWaveform = (db: StoryGraphDatabase, assetId: string): WaveformData | null => {
+  const peaksPath = getWaveformPath(db, assetId);
+  if (!fs.existsSync(peaksPath)) return null;
+
+  return {
+    assetId,
+    peaksPerSecond: PEAKS_PER_SECOND,
+    peaks: Array.from(fs.readFileSync(peaksPath)),
+  };
+};
+
+/**
+ * Decode an asset's audio and cache its peaks
+ * Runs as a 'waveform' job.
+ */
+export const extractWaveform = async (
+  db: StoryGraphDatabase,
+  assetId: string,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<{ assetId: string; peakCount: number }> => {
+  const asset: MediaAsset | undefined = db.query('SELECT * FROM media_library WHERE id = ?', [assetId])[0];
+  if (!asset) {
+    throw new Error(`Asset not found: ${assetId}`);
+  }
+  if (!fs.existsSync(asset.file_path)) {
+    throw new Error(`File not found: ${asset.file_path}`);
+  }
+
+  const peaks: number[] = [];
+  let bucketPeak = 0;
+  let bucketCount = 0;
+  let carry: Buffer | null = null; // Odd trailing byte between chunks
+
+  const expectedPeaks = Math.max(1, (asset.duration || 0) * PEAKS_PER_SECOND);
+  let lastPercent = -1;
+
+  const consume = (chunk: Buffer) => {
+    const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+    const usable = data.length - (data.length % 2);
+    carry = usable < data.length ? data.subarray(usable) : null;
+
+    for (let offset = 0; offset < usable; offset += 2) {
+      const sample = Math.abs(data.readInt16LE(offset));
+      if (sample > bucketPeak) bucketPeak = sample;
+      if (++bucketCount === SAMPLES_PER_PEAK) {
+        peaks.push(Math.min(255, Math.round((bucketPeak / 32768) * 255)));
+        bucketPeak = 0;
+        bucketCount = 0;
+      }
+    }
+
+    const percent = Math.min(99, Math.floor((peaks.length / expectedPeaks) * 100));
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      onProgress(percent);
+    }
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const command = ffmpeg(asset.file_path)
+      .noVideo()
+      .outputOptions(['-map 0:a:0'])
+      .audioChannels(1)
+      .audioFrequency(SAMPLE_RATE)
+      .format('s16le')
+      .on('error', (err: Error) => reject(signal?.aborted ? new Error('Cancelled') : err))
+      // The pipe can end before ffmpeg has exited, and a killed decode can
+      // still exit cleanly: only a finished, uncancelled run writes peaks
+      .on('end', () => (signal?.aborted ? reject(new Error('Cancelled')) : resolve()));
+
+    if (signal?.aborted) return reject(new Error('Cancelled'));
+    signal?.addEventListener('abort', () => command.kill('SIGKILL'), { once: true });
+
+    command.pipe().on('data', consume);
+  });
+
+  if (bucketCount > 0) {
+    peaks.push(Math.min(255, Math.round((bucketPeak / 32768) * 255)));
+  }
+
+  fs.writeFileSync(getWaveformPath(db, assetId), Buffer.from(peaks));
+
+  console.log(`[Waveform] ✓ ${asset.clean_name || asset.file_name} (${peaks.length} peaks)`);
+  return { assetId, peakCount: peaks.length };
+};
@@ -0,0 +1,98 @@
+/**
+ * Word Map Service
+ * Frame timing for transcript words
+ * Phase 7: Transcript & Word Highlighter
+ *
+ * Transcripts arrive timed in seconds. Stored word maps also carry frames at
+ * the source asset's rate, so a word lands on the same frame the picture
+ * shows it. Canvases at another rate convert those frames through exact
+ * rational time, and a per-transcript sync offset (in source frames) lines up
+ * audio from a separate recorder.
+ */
+
+import StoryGraphDatabase from '../database/schema';
+import { WordToken } from '../../shared/types';
+import { FrameRate, toFrameRate, convertFrameRange, framesToSeconds, secondsToFrameRange } from '../../shared/timecode';
+import { applySpeakerNames, getSpeakerNames } from './speakerService';
+
+/**
+ * Give every word frame_in / frame_out at the source rate
+ * In is the frame the word starts in; out (exclusive) the first frame after
+ * it ends, so even the shortest word covers a frame.
+ */
+export const generateWordMap = (words: WordToken[], rate: FrameRate): WordToken[] =>
+  words.map(word => {
+    const [frameIn, frameOut] = secondsToFrameRange(word.start, word.end, rate);
+    return { ...word, frame_in: frameIn, frame_out: frameOut };
+  });
+
+/**
+ * Re-express a word map's frames at another rate (e.g. a 23.976 interview on a
+ * 24 or 25 canvas). Times in seconds are unchanged; frames cover the same
+ * real time at the target rate.
+ */
+export const convertWordMapFPS = (words: WordToken[], sourceRate: FrameRate, targetRate: FrameRate): WordToken[] =>
+  words.map(word => {
+    const [sourceIn, sourceOut] =
+      word.frame_in !== undefined && word.frame_out !== undefined
+        ? [word.frame_in, word.frame_out]
+        : secondsToFrameRange(word.start, word.end, sourceRate);
+    const [frameIn, frameOut] = convertFrameRange(sourceIn, sourceOut, sourceRate, targetRate);
+    return { ...word, frame_in: frameIn, frame_out: frameOut };
+  });
+
+/**
+ * Move a word map by a whole number of source frames
+ * Words pushed before the start of the media are clamped to frame 0 rather
+ * than dropped, so word ids and indexes stay valid.
+ */
+export const applySyncOffset = (words: WordToken[], offsetFrames: number, rate: FrameRate): WordToken[] => {
+  const framed = generateWordMap(words, rate);
+  if (!offsetFrames) return framed;
+
+  const offsetSeconds = framesToSeconds(offsetFrames, rate);
+  return framed.map(word => ({
+    ...word,
+    start: Math.max(0, word.start + offsetSeconds),
+    end: Math.max(0, word.end + offsetSeconds),
+    frame_in: Math.max(0, word.frame_in! + offsetFrames),
+    frame_out: Math.max(1, word.frame_out! + offsetFrames),
+  }));
+};
+
+/**
+ * Frame rate a word map is timed at: the asset's own rate, or the project
+ * default for media without one (audio from a separate recorder)
+ */
+export const getWordMapRate = (db: StoryGraphDatabase, mediaId: string): FrameRate => {
+  const row = db.query(
+    `SELECT COALESCE(m.fps, p.defaultFps) AS fps
+     FROM media_library m LEFT JOIN projects p ON p.id = m.project_id
+     WHERE m.id = ?`,
+    [mediaId]
+  )[0];
+  return toFrameRate(row?.fps || 24);
+};
+
+/**
+ * An asset's word map as it plays against the picture: framed at the asset's
+ * rate with the transcript's sync offset applied, speakers under their
+ * project names
+ */
+export const loadWordMap = (
+  db: StoryGraphDatabase,
+  mediaId: string
+): { words: WordToken[]; rate: FrameRate; syncOffsetFrames: number } | null => {
+  const row = db.query(
+    `SELECT t.word_map_json, t.sync_offset_frames, m.project_id
+     FROM transcripts t JOIN media_library m ON m.id = t.media_id
+     WHERE t.media_id = ?`,
+    [mediaId]
+  )[0];
+  if (!row) return null;
+
+  const rate = getWordMapRate(db, mediaId);
+  const syncOffsetFrames: number = row.sync_offset_frames || 0;
+  const words = applySyncOffset(JSON.parse(row.word_map_json), syncOffsetFrames, rate);
+  return { words: applySpeakerNames(words, getSpeakerNames(db, row.project_id)), rate, syncOffsetFrames };
+};
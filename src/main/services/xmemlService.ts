@@ -0,0 +1,225 @@
+/**
+ * XMEML Service
+ * Final Cut Pro 7 XML (xmeml v5) export for Premiere Pro / DaVinci Resolve round-trips
+ * Phase 9: Export & Flattening
+ *
+ * Every flattened track with picture becomes a video track; clips with sound
+ * get a matching audio track, and audio-only media (music) gets its own.
+ * ACT/SCENE containers are written as sequence markers.
+ */
+
+import { create } from 'xmlbuilder2';
+import type { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
+import fs from 'fs/promises';
+import { pathToFileURL } from 'url';
+import StoryGraphDatabase from '../database/schema';
+import { MediaAsset, FlattenedClip, FractalContainer } from '../../shared/types';
+import { loadCanvasTimeline, getContainerRange } from './flattenService';
+import {
+  FrameRate,
+  toFrameRate,
+  timecodeToFrames,
+  framesToTimecode,
+  secondsToFrames,
+  convertFrameRange,
+  supportsDropFrame,
+  isDropFrameTimecode,
+} from '../../shared/timecode';
+import { parseResolution, parseMediaFlags } from './exportService';
+
+const appendRate = (parent: XMLBuilder, rate: FrameRate) => {
+  const rateEl = parent.ele('rate');
+  rateEl.ele('timebase').txt(String(rate.nominal));
+  rateEl.ele('ntsc').txt(rate.ntsc ? 'TRUE' : 'FALSE');
+};
+
+const appendTimecode = (parent: XMLBuilder, frames: number, rate: FrameRate, dropFrame: boolean, reelName?: string | null) => {
+  const timecode = parent.ele('timecode');
+  appendRate(timecode, rate);
+  timecode.ele('string').txt(framesToTimecode(frames, rate, dropFrame));
+  timecode.ele('frame').txt(String(frames));
+  timecode.ele('displayformat').txt(dropFrame ? 'DF' : 'NDF');
+  if (reelName) {
+    timecode.ele('reel').ele('name').txt(reelName);
+  }
+};
+
+/**
+ * Premiere expects file://localhost/ URLs; Resolve accepts either form
+ */
+const toPathUrl = (filePath: string): string =>
+  pathToFileURL(filePath).href.replace(/^file:\/\/\//, 'file://localhost/');
+
+/**
+ * Generate an xmeml v5 sequence for a canvas
+ */
+export const generateXMEML = async (
+  db: StoryGraphDatabase,
+  canvasId: string,
+  filePath: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { canvas, nodes, assets, clips } = loadCanvasTimeline(db, canvasId);
+    const rate = toFrameRate(canvas.FPS);
+    const dropFrame = canvas.Timecode_mode === 'DROP' && supportsDropFrame(rate);
+    const { width, height } = parseResolution(canvas.Resolution);
+
+    const exportable = clips.filter(clip => {
+      const assetId = nodes.get(clip.nodeId)?.asset_id;
+      return assetId && assets.has(assetId) && clip.endFrame > clip.startFrame;
+    });
+    const assetOf = (clip: FlattenedClip): MediaAsset => assets.get(nodes.get(clip.nodeId)!.asset_id!)!;
+
+    // Group clips into tracks; flattened track order is bottom-to-top
+    const videoTracks = new Map<number, FlattenedClip[]>();
+    const audioTracks = new Map<string, FlattenedClip[]>();
+    const pushTo = <K>(map: Map<K, FlattenedClip[]>, key: K, clip: FlattenedClip) => {
+      const list = map.get(key) || [];
+      list.push(clip);
+      map.set(key, list);
+    };
+
+    exportable.forEach(clip => {
+      const { hasVideo, hasAudio } = parseMediaFlags(assetOf(clip));
+      if (hasVideo) pushTo(videoTracks, clip.track, clip);
+      if (hasAudio) pushTo(audioTracks, `${hasVideo ? 'sync' : 'music'}:${clip.track}`, clip);
+    });
+
+    const totalFrames = Math.max(0, ...exportable.map(c => c.endFrame));
+
+    const xml = create({ version: '1.0', encoding: 'UTF-8' })
+      .dtd({ name: 'xmeml' })
+      .ele('xmeml', { version: '5' });
+    const sequence = xml.ele('sequence', { id: `sequence-${canvas.id}` });
+    sequence.ele('name').txt(canvas.name);
+    sequence.ele('duration').txt(String(totalFrames));
+    appendRate(sequence, rate);
+    appendTimecode(sequence, 0, rate, dropFrame);
+
+    const media = sequence.ele('media');
+    const video = media.ele('video');
+    const videoFormat = video.ele('format').ele('samplecharacteristics');
+    appendRate(videoFormat, rate);
+    videoFormat.ele('width').txt(String(width));
+    videoFormat.ele('height').txt(String(height));
+    videoFormat.ele('pixelaspectratio').txt('square');
+
+    const audio = media.ele('audio');
+    audio.ele('numOutputChannels').txt('2');
+
+    // Files are defined in full on first use, then referenced by id
+    const fileIds = new Map<string, string>();
+    let clipItemCount = 0;
+
+    const appendClipItem = (track: XMLBuilder, clip: FlattenedClip, kind: 'video' | 'audio') => {
+      const node = nodes.get(clip.nodeId)!;
+      const asset = assetOf(clip);
+      const assetRate = toFrameRate(asset.fps || canvas.FPS);
+      // Source length under the sequence <rate>; total_frames counts at the asset's own rate
+      const assetFrames = asset.total_frames
+        ? convertFrameRange(0, asset.total_frames, assetRate, rate)[1]
+        : secondsToFrames(asset.duration || 0, rate);
+      const sourceIn = secondsToFrames(node.clip_in || 0, rate);
+
+      const clipItem = track.ele('clipitem', { id: `clipitem-${++clipItemCount}` });
+      clipItem.ele('masterclipid').txt(`masterclip-${asset.id}`);
+      clipItem.ele('name').txt(asset.clean_name || asset.file_name);
+      clipItem.ele('enabled').txt('TRUE');
+      clipItem.ele('duration').txt(String(assetFrames));
+      appendRate(clipItem, rate);
+      clipItem.ele('start').txt(String(clip.startFrame));
+      clipItem.ele('end').txt(String(clip.endFrame));
+      clipItem.ele('in').txt(String(sourceIn));
+      clipItem.ele('out').txt(String(sourceIn + clip.endFrame - clip.startFrame));
+
+      const existingId = fileIds.get(asset.id);
+      if (existingId) {
+        clipItem.ele('file', { id: existingId });
+      } else {
+        const fileId = `file-${fileIds.size + 1}`;
+        fileIds.set(asset.id, fileId);
+
+        const { hasVideo, hasAudio } = parseMediaFlags(asset);
+        const file = clipItem.ele('file', { id: fileId });
+        file.ele('name').txt(asset.file_name);
+        file.ele('pathurl').txt(toPathUrl(asset.file_path));
+        appendRate(file, assetRate);
+        file.ele('duration').txt(String(asset.total_frames || secondsToFrames(asset.duration || 0, assetRate)));
+        appendTimecode(
+          file,
+          timecodeToFrames(asset.start_tc, assetRate),
+          assetRate,
+          isDropFrameTimecode(asset.start_tc),
+          asset.reel_name
+        );
+
+        const fileMedia = file.ele('media');
+        if (hasVideo) {
+          const characteristics = fileMedia.ele('video').ele('samplecharacteristics');
+          const size = parseResolution(asset.resolution);
+          characteristics.ele('width').txt(String(size.width));
+          characteristics.ele('height').txt(String(size.height));
+        }
+        if (hasAudio) {
+          const fileAudio = fileMedia.ele('audio');
+          fileAudio.ele('samplecharacteristics').ele('samplerate').txt(String(asset.audio_sample_rate || 48000));
+          fileAudio.ele('channelcount').txt(String(asset.audio_channels || 2));
+        }
+      }
+
+      if (kind === 'audio') {
+        clipItem.ele('sourcetrack').ele('mediatype').txt('audio').up().ele('trackindex').txt('1');
+      }
+    };
+
+    Array.from(videoTracks.entries())
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([, trackClips]) => {
+        const track = video.ele('track');
+        trackClips
+          .sort((a, b) => a.startFrame - b.startFrame)
+          .forEach(clip => appendClipItem(track, clip, 'video'));
+      });
+
+    // Sync sound first (matching video order), then music beds
+    Array.from(audioTracks.entries())
+      .sort(([a], [b]) => {
+        const [kindA, trackA] = a.split(':');
+        const [kindB, trackB] = b.split(':');
+        return kindA === kindB ? Number(trackA) - Number(trackB) : kindA === 'sync' ? -1 : 1;
+      })
+      .forEach(([, trackClips]) => {
+        const track = audio.ele('track');
+        trackClips
+          .sort((a, b) => a.startFrame - b.startFrame)
+          .forEach(clip => appendClipItem(track, clip, 'audio'));
+      });
+
+    // ACT/SCENE containers become sequence markers
+    const containers: FractalContainer[] = db.query(
+      'SELECT * FROM fractal_containers WHERE canvas_id = ? ORDER BY type, name',
+      [canvasId]
+    );
+    let markerCount = 0;
+    containers.forEach(container => {
+      const range = getContainerRange(container, clips, Array.from(nodes.values()));
+      if (!range) return;
+
+      const marker = sequence.ele('marker');
+      marker.ele('name').txt(container.name);
+      marker.ele('comment').txt(container.type);
+      marker.ele('in').txt(String(range.in));
+      marker.ele('out').txt(String(range.out));
+      markerCount++;
+    });
+
+    const xmlString = xml.end({ prettyPrint: true });
+    await fs.writeFile(filePath, xmlString);
+
+    console.log(`[XMEML] Exported ${clipItemCount} clip items and ${markerCount} markers to ${filePath}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[XMEML] Error generating xmeml:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
@@ -101,51 +101,6 @@ export function calculateContainerBounds(nodeIds: string[]): {
   return { x: 0, y: 0, width: 300, height: 200 };
 }
 
-/**
- * Detect ghost tail overlaps (boundary violations)
- * TO BE IMPLEMENTED IN PHASE 5
- */
-export function detectGhostTails(
-  containerId: string,
-  nodeIds: string[]
-): Array<{ nodeId: string; overlapAmount: number }> {
-  console.log('[STUB] detectGhostTails:', { containerId, nodeIds });
-  return [];
-}
-
-// ============================================================================
-// PHASE 6: Timeline Stubs
-// ============================================================================
-
-/**
- * Calculate timeline position from canvas position (bimodal sync)
- * TO BE IMPLEMENTED IN PHASE 6
- */
-export function canvasToTimeline(
-  canvasX: number,
-  fps: number,
-  zoomLevel: number
-): { frame: number; timecode: string } {
-  console.log('[STUB] canvasToTimeline:', { canvasX, fps, zoomLevel });
-  return {
-    frame: 0,
-    timecode: '00:00:00:00',
-  };
-}
-
-/**
- * Convert frame number to SMPTE timecode
- * TO BE IMPLEMENTED IN PHASE 6
- */
-export function framesToTimecode(
-  frames: number,
-  fps: number,
-  dropFrame: boolean = false
-): string {
-  console.log('[STUB] framesToTimecode:', { frames, fps, dropFrame });
-  return '00:00:00:00';
-}
-
 // ============================================================================
 // PHASE 7: Transcript & Word Highlighter Stubs
 // ============================================================================
@@ -159,32 +114,6 @@ export async function parseSRTX(filePath: string): Promise<any[]> {
   return [];
 }
 
-/**
- * Generate word_map with frame-accurate timing
- * TO BE IMPLEMENTED IN PHASE 7
- */
-export function generateWordMap(
-  transcript: string,
-  startFrame: number,
-  endFrame: number
-): Array<{ word: string; frame_in: number; frame_out: number }> {
-  console.log('[STUB] generateWordMap:', { transcript, startFrame, endFrame });
-  return [];
-}
-
-/**
- * Convert word_map to different FPS
- * TO BE IMPLEMENTED IN PHASE 7
- */
-export function convertWordMapFPS(
-  wordMap: any[],
-  sourceFPS: number,
-  targetFPS: number
-): any[] {
-  console.log('[STUB] convertWordMapFPS:', { sourceFPS, targetFPS });
-  return wordMap;
-}
-
 // ============================================================================
 // PHASE 8: Multicam Stubs
 // ============================================================================
@@ -201,78 +130,4 @@ export async function parseMulticamXML(filePath: string): Promise<any> {
   };
 }
 
-/**
- * Calculate multicam sync offset
- * TO BE IMPLEMENTED IN PHASE 8
- */
-export function calculateSyncOffset(
-  referenceTimecode: string,
-  targetTimecode: string
-): number {
-  console.log('[STUB] calculateSyncOffset:', { referenceTimecode, targetTimecode });
-  return 0;
-}
-
-// ============================================================================
-// PHASE 9: Export & Flattening Stubs
-// ============================================================================
-
-/**
- * Flatten graph to linear timeline (DFS solver)
- * TO BE IMPLEMENTED IN PHASE 9
- */
-export function flattenGraph(canvasId: string): Array<{
-  nodeId: string;
-  track: number;
-  startFrame: number;
-  endFrame: number;
-}> {
-  console.log('[STUB] flattenGraph:', canvasId);
-  return [];
-}
-
-/**
- * Generate FCPXML v1.10 export
- * TO BE IMPLEMENTED IN PHASE 9
- */
-export async function generateFCPXML(
-  canvasId: string,
-  outputPath: string
-): Promise<void> {
-  console.log('[STUB] generateFCPXML:', { canvasId, outputPath });
-  // Will generate FCPXML with incremental caching
-}
-
-/**
- * Validate graph before export (ghost tails, paradoxes)
- * TO BE IMPLEMENTED IN PHASE 9
- */
-export function validateGraphForExport(canvasId: string): {
-  isValid: boolean;
-  errors: Array<{ type: string; message: string; nodeId?: string }>;
-} {
-  console.log('[STUB] validateGraphForExport:', canvasId);
-  return {
-    isValid: true,
-    errors: [],
-  };
-}
-
-// ============================================================================
-// UTILITY STUBS
-// ============================================================================
-
-/**
- * Generate proxy video for performance
- * TO BE IMPLEMENTED IN PHASE 2
- */
-export async function generateProxy(
-  sourcePath: string,
-  outputPath: string,
-  resolution: string = '960x540'
-): Promise<void> {
-  console.log('[STUB] generateProxy:', { sourcePath, outputPath, resolution });
-  // Will use FFmpeg to generate proxy
-}
-
 console.log('Stub functions loaded - ready for incremental implementation');
@@ -5,6 +5,7 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
+import type { FlattenedClip, ValidationReport, ProjectSettings, RenderProgress, ProxyCodec, ThumbnailRequest, WaveformData, Job, TranscriptSearchHit, WordToken, TranscriptEdit, TranscriptRevision, ProjectSpeaker, PaperEditPassage, MulticamMember } from '../shared/types';
 
 // Expose protected methods that allow the renderer process to use
 // ipcRenderer without exposing the entire object
@@ -13,6 +14,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // FILE OPERATIONS
   // ===========================================================================
   selectFiles: () => ipcRenderer.invoke('select-files'),
+  selectFile: (filters?: Array<{ name: string; extensions: string[] }>) => ipcRenderer.invoke('select-file', filters),
   selectFolder: () => ipcRenderer.invoke('select-folder'),
 
   // ===========================================================================
@@ -42,6 +44,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   projectDelete: (id: string) =>
     ipcRenderer.invoke('project-delete', id),
 
+  projectSettingsGet: (projectId: string) =>
+    ipcRenderer.invoke('project-settings-get', projectId),
+
+  projectSettingsUpdate: (projectId: string, updates: Partial<ProjectSettings>) =>
+    ipcRenderer.invoke('project-settings-update', projectId, updates),
+
   // ===========================================================================
   // MEDIA OPERATIONS
   // ===========================================================================
@@ -57,6 +65,51 @@ contextBridge.exposeInMainWorld('electronAPI', {
   mediaGetMetadata: (filePath: string) =>
     ipcRenderer.invoke('media-get-metadata', filePath),
 
+  proxyGenerate: (assetIds: string[], codec?: ProxyCodec) =>
+    ipcRenderer.invoke('proxy:generate', assetIds, codec),
+
+  proxyGenerateMissing: (projectId: string, codec?: ProxyCodec) =>
+    ipcRenderer.invoke('proxy:generate-missing', projectId, codec),
+
+  thumbnailGet: (request: ThumbnailRequest) =>
+    ipcRenderer.invoke('thumbnail:get', request),
+
+  waveformGet: (assetId: string) =>
+    ipcRenderer.invoke('waveform:get', assetId),
+
+  // ===========================================================================
+  // JOB OPERATIONS
+  // ===========================================================================
+  jobList: (projectId?: string) =>
+    ipcRenderer.invoke('job:list', projectId),
+
+  jobCancel: (jobId: string) =>
+    ipcRenderer.invoke('job:cancel', jobId),
+
+  jobRetry: (jobId: string) =>
+    ipcRenderer.invoke('job:retry', jobId),
+
+  jobClearFinished: (projectId?: string) =>
+    ipcRenderer.invoke('job:clear-finished', projectId),
+
+  // Subscribe to job state changes; returns an unsubscribe function
+  onJobProgress: (callback: (job: Job) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, job: Job) => callback(job);
+    ipcRenderer.on('job:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('job:progress', listener);
+    };
+  },
+
+  // Subscribe to finished (done, failed or cancelled) jobs; returns an unsubscribe function
+  onJobDone: (callback: (job: Job) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, job: Job) => callback(job);
+    ipcRenderer.on('job:done', listener);
+    return () => {
+      ipcRenderer.removeListener('job:done', listener);
+    };
+  },
+
   // ===========================================================================
   // CANVAS OPERATIONS
   // ===========================================================================
@@ -151,29 +204,113 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // ===========================================================================
   // TRANSCRIPT OPERATIONS (Phase 7)
   // ===========================================================================
-  transcriptImport: (mediaId: string, filePath: string) =>
-    ipcRenderer.invoke('transcript:import', mediaId, filePath),
+  transcriptImport: (mediaId: string, filePath: string, overwriteEdits?: boolean) =>
+    ipcRenderer.invoke('transcript:import', mediaId, filePath, overwriteEdits),
 
   transcriptGetForNode: (nodeId: string) =>
     ipcRenderer.invoke('transcript:get-for-node', nodeId),
 
+  transcriptGetForAsset: (mediaId: string) =>
+    ipcRenderer.invoke('transcript:get-for-asset', mediaId),
+
+  transcriptEdit: (mediaId: string, edit: TranscriptEdit) =>
+    ipcRenderer.invoke('transcript:edit', mediaId, edit),
+
+  transcriptListRevisions: (mediaId: string) =>
+    ipcRenderer.invoke('transcript:list-revisions', mediaId),
+
+  transcriptRestoreRevision: (mediaId: string, revisionId: number) =>
+    ipcRenderer.invoke('transcript:restore-revision', mediaId, revisionId),
+
+  transcriptSetSyncOffset: (mediaId: string, offsetFrames: number) =>
+    ipcRenderer.invoke('transcript:set-sync-offset', mediaId, offsetFrames),
+
+  transcriptTranscribe: (projectId: string, assetIds: string[]) =>
+    ipcRenderer.invoke('transcript:transcribe', projectId, assetIds),
+
+  transcriptSearch: (projectId: string, query: string, options?: { speaker?: string; limit?: number }) =>
+    ipcRenderer.invoke('transcript:search', projectId, query, options),
+
+  transcriptListSpeakers: (projectId: string) =>
+    ipcRenderer.invoke('transcript:list-speakers', projectId),
+
+  transcriptSetSpeakerName: (projectId: string, labels: string[], name: string) =>
+    ipcRenderer.invoke('transcript:set-speaker-name', projectId, labels, name),
+
+  // ===========================================================================
+  // TIMELINE OPERATIONS (Phase 9)
+  // ===========================================================================
+  timelineFlatten: (canvasId: string) =>
+    ipcRenderer.invoke('timeline:flatten', canvasId),
+
+  // ===========================================================================
+  // RENDER OPERATIONS (Phase 9)
+  // ===========================================================================
+  renderRoughCut: (canvasId: string) =>
+    ipcRenderer.invoke('render:rough-cut', canvasId),
+
+  // Subscribe to render progress; returns an unsubscribe function
+  onRenderProgress: (callback: (progress: RenderProgress) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: RenderProgress) => callback(progress);
+    ipcRenderer.on('render:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('render:progress', listener);
+    };
+  },
+
   // ===========================================================================
   // MULTICAM OPERATIONS (Phase 8)
   // ===========================================================================
   multicamImportXml: (filePath: string) =>
     ipcRenderer.invoke('multicam:import-xml', filePath),
 
+  multicamCreate: (projectId: string, name: string, angles: Array<{ mediaId: string; label: string; syncOffset?: number }>) =>
+    ipcRenderer.invoke('multicam:create', projectId, name, angles),
+
   multicamGetMembers: (multicamMediaId: string) =>
     ipcRenderer.invoke('multicam:get-members', multicamMediaId),
 
+  multicamSync: (multicamMediaId: string) =>
+    ipcRenderer.invoke('multicam:sync', multicamMediaId),
+
+  multicamSetSyncOffset: (multicamMediaId: string, memberMediaId: string, syncOffset: number) =>
+    ipcRenderer.invoke('multicam:set-sync-offset', multicamMediaId, memberMediaId, syncOffset),
+
   nodeSetAngle: (nodeId: string, memberMediaId: string) =>
     ipcRenderer.invoke('node:set-angle', nodeId, memberMediaId),
 
   // ===========================================================================
   // EXPORT OPERATIONS (Phase 9)
   // ===========================================================================
-  exportGenerateFCPXML: (projectId: string, filePath: string) =>
-    ipcRenderer.invoke('export:generate-fcpxml', projectId, filePath),
+  exportValidate: (canvasId: string) =>
+    ipcRenderer.invoke('export:validate', canvasId),
+
+  exportGenerateFCPXML: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-fcpxml', canvasId, filePath),
+
+  exportGenerateEDL: (canvasId: string, folderPath: string) =>
+    ipcRenderer.invoke('export:generate-edl', canvasId, folderPath),
+
+  exportGenerateXMEML: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-xmeml', canvasId, filePath),
+
+  exportGenerateOTIO: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-otio', canvasId, filePath),
+
+  exportGenerateSRT: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-srt', canvasId, filePath),
+
+  exportGenerateVTT: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-vtt', canvasId, filePath),
+
+  exportGeneratePaperEdit: (canvasId: string, filePath: string) =>
+    ipcRenderer.invoke('export:generate-paper-edit', canvasId, filePath),
+
+  importOTIO: (projectId: string, filePath: string) =>
+    ipcRenderer.invoke('import:otio', projectId, filePath),
+
+  importPaperEdit: (projectId: string, filePath: string) =>
+    ipcRenderer.invoke('import:paper-edit', projectId, filePath),
 
   // ===========================================================================
   // HISTORY OPERATIONS (Phase 9)
@@ -203,6 +340,7 @@ declare global {
     electronAPI: {
       // File operations
       selectFiles: () => Promise<string[]>;
+      selectFile: (filters?: Array<{ name: string; extensions: string[] }>) => Promise<string | null>;
       selectFolder: () => Promise<string | null>;
 
       // Database operations
@@ -215,12 +353,26 @@ declare global {
       projectList: () => Promise<any[]>;
       projectUpdate: (id: string, updates: any) => Promise<void>;
       projectDelete: (id: string) => Promise<void>;
+      projectSettingsGet: (projectId: string) => Promise<ProjectSettings | null>;
+      projectSettingsUpdate: (projectId: string, updates: Partial<ProjectSettings>) => Promise<void>;
 
       // Media operations
-      mediaImport: (projectId: string, filePaths: string[]) => Promise<any[]>;
+      mediaImport: (projectId: string, filePaths: string[]) => Promise<Job[]>;
       mediaGetAll: (projectId: string) => Promise<any[]>;
       mediaDelete: (assetId: string) => Promise<void>;
       mediaGetMetadata: (filePath: string) => Promise<any>;
+      proxyGenerate: (assetIds: string[], codec?: ProxyCodec) => Promise<{ queued: number }>;
+      proxyGenerateMissing: (projectId: string, codec?: ProxyCodec) => Promise<{ queued: number }>;
+      thumbnailGet: (request: ThumbnailRequest) => Promise<{ url: string | null; jobId?: string }>;
+      waveformGet: (assetId: string) => Promise<{ waveform: WaveformData | null; jobId?: string }>;
+
+      // Job operations
+      jobList: (projectId?: string) => Promise<Job[]>;
+      jobCancel: (jobId: string) => Promise<void>;
+      jobRetry: (jobId: string) => Promise<void>;
+      jobClearFinished: (projectId?: string) => Promise<void>;
+      onJobProgress: (callback: (job: Job) => void) => () => void;
+      onJobDone: (callback: (job: Job) => void) => () => void;
 
       // Canvas operations
       canvasCreate: (projectId: string, canvas: any) => Promise<any>;
@@ -254,16 +406,44 @@ declare global {
       containerCalculateBounds: (containerId: string, containerType: 'ACT' | 'SCENE') => Promise<{ x: number; y: number; width: number; height: number } | null>;
 
       // Transcript operations (Phase 7)
-      transcriptImport: (mediaId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      transcriptImport: (mediaId: string, filePath: string, overwriteEdits?: boolean) => Promise<{ success: boolean; error?: string }>;
       transcriptGetForNode: (nodeId: string) => Promise<{ transcript: any; clip_in: number; clip_out: number } | null>;
+      transcriptGetForAsset: (mediaId: string) => Promise<{ media_id: string; source_type: string; word_map_json: WordToken[]; sync_offset_frames: number } | null>;
+      transcriptEdit: (mediaId: string, edit: TranscriptEdit) => Promise<{ success: boolean; words?: WordToken[]; error?: string }>;
+      transcriptListRevisions: (mediaId: string) => Promise<TranscriptRevision[]>;
+      transcriptRestoreRevision: (mediaId: string, revisionId: number) => Promise<{ success: boolean; words?: WordToken[]; error?: string }>;
+      transcriptSetSyncOffset: (mediaId: string, offsetFrames: number) => Promise<{ success: boolean; words?: WordToken[]; error?: string }>;
+      transcriptTranscribe: (projectId: string, assetIds: string[]) => Promise<{ queued: number; error?: string }>;
+      transcriptSearch: (projectId: string, query: string, options?: { speaker?: string; limit?: number }) => Promise<TranscriptSearchHit[]>;
+      transcriptListSpeakers: (projectId: string) => Promise<ProjectSpeaker[]>;
+      transcriptSetSpeakerName: (projectId: string, labels: string[], name: string) => Promise<{ success: boolean; error?: string }>;
+
+      // Timeline operations (Phase 9)
+      timelineFlatten: (canvasId: string) => Promise<FlattenedClip[]>;
+
+      // Render operations (Phase 9)
+      renderRoughCut: (canvasId: string) => Promise<{ success: boolean; outputPath?: string; error?: string }>;
+      onRenderProgress: (callback: (progress: RenderProgress) => void) => () => void;
 
       // Multicam operations (Phase 8)
       multicamImportXml: (filePath: string) => Promise<void>;
-      multicamGetMembers: (multicamMediaId: string) => Promise<any[]>;
+      multicamCreate: (projectId: string, name: string, angles: Array<{ mediaId: string; label: string; syncOffset?: number }>) => Promise<{ multicamId: string; jobId?: string }>;
+      multicamGetMembers: (multicamMediaId: string) => Promise<MulticamMember[]>;
+      multicamSync: (multicamMediaId: string) => Promise<Job>;
+      multicamSetSyncOffset: (multicamMediaId: string, memberMediaId: string, syncOffset: number) => Promise<{ success: boolean; error?: string }>;
       nodeSetAngle: (nodeId: string, memberMediaId: string) => Promise<void>;
 
       // Export operations (Phase 9)
-      exportGenerateFCPXML: (projectId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportValidate: (canvasId: string) => Promise<ValidationReport>;
+      exportGenerateFCPXML: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportGenerateEDL: (canvasId: string, folderPath: string) => Promise<{ success: boolean; files?: string[]; error?: string }>;
+      exportGenerateXMEML: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportGenerateOTIO: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportGenerateSRT: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportGenerateVTT: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      exportGeneratePaperEdit: (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+      importOTIO: (projectId: string, filePath: string) => Promise<{ success: boolean; canvasId?: string; nodeCount?: number; error?: string }>;
+      importPaperEdit: (projectId: string, filePath: string) => Promise<{ success: boolean; canvasId?: string; nodeCount?: number; passages?: PaperEditPassage[]; error?: string }>;
 
       // History operations (Phase 9)
       historyUndo: () => Promise<void>;
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Play, MoreVertical, Pencil, Trash2, Settings, Layers } from 'lucide-react';
-import { Canvas } from '../../../shared/types';
+import { Plus, Play, MoreVertical, Pencil, Trash2, Settings, Layers, FileUp, ScrollText } from 'lucide-react';
+import { Canvas, PaperEditPassage } from '../../../shared/types';
 import NewCanvasModal from './NewCanvasModal';
 import EditCanvasModal from './EditCanvasModal';
+import PaperEditReportModal from './PaperEditReportModal';
 
 interface CanvasManagementPanelProps {
   projectId: string;
@@ -24,6 +25,11 @@ const CanvasManagementPanel: React.FC<CanvasManagementPanelProps> = ({
   const [loading, setLoading] = useState(true);
   const [showNewCanvasModal, setShowNewCanvasModal] = useState(false);
   const [editingCanvas, setEditingCanvas] = useState<Canvas | null>(null);
+  const [paperEditReport, setPaperEditReport] = useState<{
+    fileName: string;
+    passages: PaperEditPassage[];
+    canvasId?: string;
+  } | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
     visible: false,
     x: 0,
@@ -88,6 +94,35 @@ const CanvasManagementPanel: React.FC<CanvasManagementPanelProps> = ({
     }
   };
 
+  const handleImportOTIO = async () => {
+    const filePath = await window.electronAPI.selectFile([{ name: 'OpenTimelineIO', extensions: ['otio'] }]);
+    if (!filePath) return;
+
+    const result = await window.electronAPI.importOTIO(projectId, filePath);
+    if (result.success) {
+      await loadCanvases();
+      console.log('[Canvas] OTIO imported:', result.nodeCount, 'nodes');
+    } else {
+      alert(`OTIO import failed: ${result.error}`);
+    }
+  };
+
+  const handleImportPaperEdit = async () => {
+    const filePath = await window.electronAPI.selectFile([{ name: 'Paper Edit', extensions: ['txt', 'md', 'markdown'] }]);
+    if (!filePath) return;
+
+    const result = await window.electronAPI.importPaperEdit(projectId, filePath);
+    if (result.passages) {
+      setPaperEditReport({ fileName: filePath.split(/[\\/]/).pop() || filePath, passages: result.passages, canvasId: result.canvasId });
+    } else if (!result.success) {
+      alert(`Paper edit import failed: ${result.error}`);
+    }
+    if (result.success) {
+      await loadCanvases();
+      console.log('[Canvas] Paper edit imported:', result.nodeCount, 'nodes');
+    }
+  };
+
   const handleContextMenu = (e: React.MouseEvent, canvas: Canvas) => {
     e.preventDefault();
     e.stopPropagation();
@@ -148,13 +183,31 @@ const CanvasManagementPanel: React.FC<CanvasManagementPanelProps> = ({
       <div className="px-8 py-6 border-b border-void-gray">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-text-primary">Canvases</h2>
-          <button
-            onClick={() => setShowNewCanvasModal(true)}
-            className="btn-secondary text-sm flex items-center gap-2"
-          >
-            <Plus size={16} />
-            New Canvas
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleImportOTIO}
+              className="btn-ghost text-sm flex items-center gap-2"
+              title="Create a canvas from an OpenTimelineIO file"
+            >
+              <FileUp size={16} />
+              Import OTIO
+            </button>
+            <button
+              onClick={handleImportPaperEdit}
+              className="btn-ghost text-sm flex items-center gap-2"
+              title="Create a canvas from a script of quoted soundbites (text or Markdown)"
+            >
+              <ScrollText size={16} />
+              Import Paper Edit
+            </button>
+            <button
+              onClick={() => setShowNewCanvasModal(true)}
+              className="btn-secondary text-sm flex items-center gap-2"
+            >
+              <Plus size={16} />
+              New Canvas
+            </button>
+          </div>
         </div>
         <p className="text-sm text-text-secondary">
           Manage multiple versions and narrative paths for your project
@@ -297,6 +350,20 @@ const CanvasManagementPanel: React.FC<CanvasManagementPanelProps> = ({
         />
       )}
 
+      {/* Paper Edit Report */}
+      {paperEditReport && (
+        <PaperEditReportModal
+          fileName={paperEditReport.fileName}
+          passages={paperEditReport.passages}
+          canvasId={paperEditReport.canvasId}
+          onOpenCanvas={canvasId => {
+            setPaperEditReport(null);
+            onOpenCanvas(canvasId);
+          }}
+          onClose={() => setPaperEditReport(null)}
+        />
+      )}
+
       {/* Edit Canvas Modal */}
       {editingCanvas && (
         <EditCanvasModal
@@ -13,7 +13,8 @@ import {
   useViewport,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { StoryNode as StoryNodeType, MediaAsset, ConnectionMode, FractalContainer, ReactFlowNodeData } from '../../../shared/types';
+import { StoryNode as StoryNodeType, MediaAsset, ConnectionMode, FractalContainer, ReactFlowNodeData, ValidationReport, TranscriptSearchHit } from '../../../shared/types';
+import { toFrameRate, snapRangeToFrames } from '../../../shared/timecode';
 import {
   ArrowLeft,
   Maximize2,
@@ -25,6 +26,10 @@ import {
   Layers,
   Film,
   Plus,
+  Clapperboard,
+  Zap,
+  Captions,
+  FileText,
 } from 'lucide-react';
 import SpineNode from './nodes/SpineNode';
 import SatelliteNode from './nodes/SatelliteNode';
@@ -36,7 +41,11 @@ import MediaLibraryPanel from './MediaLibraryPanel';
 import NodeContextMenu from './NodeContextMenu';
 import BucketPanel from './BucketPanel';
 import IsolationViewer from './IsolationViewer';
+import ValidationReportPanel from './ValidationReportPanel';
+import JobsPanel from './JobsPanel';
+import TranscriptSearchPanel from './TranscriptSearchPanel';
 import { computeAbsolutePositions, getAnchorEdges, calculateTreeBounds } from '../utils/topology'; 
+import { getMediaUrl } from '../utils/media';
 
 interface CanvasViewProps {
   projectId: string;
@@ -52,14 +61,14 @@ const nodeTypes = {
 };
 
 const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onBack }) => {
-  const { screenToFlowPosition, setViewport } = useReactFlow();
+  const { screenToFlowPosition, setViewport, setCenter, getNodes } = useReactFlow();
   const viewport = useViewport();
 
   const [showTimeline, setShowTimeline] = useState(true);
   const [showBucket, setShowBucket] = useState(true);
   const [showPreview, setShowPreview] = useState(true);
   const [linkToggle, setLinkToggle] = useState(false);
-  const [_proxyMode, _setProxyMode] = useState(false); // Reserved for future use
+  const [proxyMode, setProxyMode] = useState(false);
   const [_fullScreen, _setFullScreen] = useState(false); // Reserved for future use
   const [timelineFullscreen, setTimelineFullscreen] = useState(false);
   const [showMediaLibrary, setShowMediaLibrary] = useState(true);
@@ -120,6 +129,15 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
   const [containers, setContainers] = useState<FractalContainer[]>([]);
   const [showContainerMenu, setShowContainerMenu] = useState(false);
 
+  // Export (Phase 9)
+  type ExportFormat = 'fcpxml' | 'xmeml' | 'otio' | 'edl' | 'srt' | 'vtt' | 'paper-edit';
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [validation, setValidation] = useState<{ report: ValidationReport; format: ExportFormat } | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  // Asset opened from transcript search with no node on the canvas
+  const [focusedAsset, setFocusedAsset] = useState<MediaAsset | null>(null);
+  const [inspectorSeek, setInspectorSeek] = useState<{ time: number; nonce: number }>();
+
   // Context Menu
   const [contextMenu, setContextMenu] = useState<{
     show: boolean;
@@ -210,12 +228,16 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
         zIndex: -1, // Behind story nodes
       }));
 
+      // Keep the selection across reloads so the Inspector stays on its node
+      const selectedIds = new Set(getNodes().filter(n => n.selected).map(n => n.id));
+
       const flowNodes: Node[] = assemblyNodes.map((n) => {
         const asset = n.asset_id ? assetMap.get(n.asset_id) : undefined;
         return {
           id: n.id,
           type: n.type === 'SPINE' ? 'spine' : 'satellite',
           position: { x: n.x, y: n.y },
+          selected: selectedIds.has(n.id),
           data: {
             storyNode: n,
             asset: asset,
@@ -260,6 +282,152 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
     }
   }, [canvasId, projectId, containers, loadCanvasNodes]);
 
+  // Export the flattened canvas to the chosen interchange format
+  const runExport = useCallback(async (format: ExportFormat) => {
+    const folderPath = await window.electronAPI.selectFolder();
+    if (!folderPath) return;
+
+    const exporters = {
+      fcpxml: { label: 'FCPXML', run: () => window.electronAPI.exportGenerateFCPXML(canvasId, `${folderPath}/export.fcpxml`) },
+      xmeml: { label: 'FCP7 XML', run: () => window.electronAPI.exportGenerateXMEML(canvasId, `${folderPath}/export.xml`) },
+      otio: { label: 'OTIO', run: () => window.electronAPI.exportGenerateOTIO(canvasId, `${folderPath}/export.otio`) },
+      edl: { label: 'EDL', run: () => window.electronAPI.exportGenerateEDL(canvasId, folderPath) },
+      srt: { label: 'SRT', run: () => window.electronAPI.exportGenerateSRT(canvasId, `${folderPath}/captions.srt`) },
+      vtt: { label: 'WebVTT', run: () => window.electronAPI.exportGenerateVTT(canvasId, `${folderPath}/captions.vtt`) },
+      'paper-edit': { label: 'Paper edit', run: () => window.electronAPI.exportGeneratePaperEdit(canvasId, `${folderPath}/paper-edit.txt`) },
+    };
+    const { label, run } = exporters[format];
+    const result = await run();
+
+    if (result.success) {
+      alert(`${label} exported successfully!`);
+    } else {
+      alert(`${label} export failed: ${result.error}`);
+    }
+  }, [canvasId]);
+
+  // Validate first; only a clean graph exports straight away
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    setShowExportMenu(false);
+    try {
+      const report = await window.electronAPI.exportValidate(canvasId);
+      if (report.issues.length > 0) {
+        setValidation({ report, format });
+        return;
+      }
+      setValidation(null);
+      await runExport(format);
+    } catch (error) {
+      console.error('[Canvas] Export validation failed:', error);
+      alert('Export validation failed. Check console for details.');
+    }
+  }, [canvasId, runExport]);
+
+  // Proxy mode is a project setting shared by every preview surface
+  useEffect(() => {
+    window.electronAPI.projectSettingsGet(projectId).then(settings => {
+      setProxyMode(!!settings?.proxy_mode_enabled);
+    });
+  }, [projectId]);
+
+  const handleToggleProxyMode = useCallback(async () => {
+    const enabled = !proxyMode;
+    setProxyMode(enabled);
+    await window.electronAPI.projectSettingsUpdate(projectId, { proxy_mode_enabled: enabled });
+    if (enabled) {
+      await window.electronAPI.proxyGenerateMissing(projectId);
+    }
+  }, [projectId, proxyMode]);
+
+  // Rough-cut MP4 into the project's render folder (asked for once, then remembered)
+  const handleRender = useCallback(async () => {
+    const settings = await window.electronAPI.projectSettingsGet(projectId);
+    if (!settings?.render_preview_path) {
+      const folderPath = await window.electronAPI.selectFolder();
+      if (!folderPath) return;
+      await window.electronAPI.projectSettingsUpdate(projectId, { render_preview_path: folderPath });
+    }
+
+    setRenderProgress(0);
+    const unsubscribe = window.electronAPI.onRenderProgress(progress => {
+      if (progress.canvasId === canvasId) setRenderProgress(progress.percent);
+    });
+
+    try {
+      const result = await window.electronAPI.renderRoughCut(canvasId);
+      if (result.success) {
+        alert(`Rough cut rendered to ${result.outputPath}`);
+      } else {
+        alert(`Render failed: ${result.error}`);
+      }
+    } finally {
+      unsubscribe();
+      setRenderProgress(null);
+    }
+  }, [canvasId, projectId]);
+
+  const handleFocusNode = useCallback((nodeId: string) => {
+    const target = getNodes().find(n => n.id === nodeId);
+    if (!target) return;
+
+    setNodes(nds => nds.map(n => ({ ...n, selected: n.id === nodeId })));
+    setCenter(
+      target.position.x + (target.width || 300) / 2,
+      target.position.y + (target.height || 150) / 2,
+      { zoom: 1, duration: 300 }
+    );
+  }, [getNodes, setNodes, setCenter]);
+
+  /**
+   * Open a search hit in the Inspector: on the canvas node whose clip holds
+   * the hit if there is one, else on the asset alone
+   */
+  const handleOpenSearchHit = useCallback(async (hit: TranscriptSearchHit) => {
+    const storyNodes = getNodes()
+      .map(n => n.data.storyNode as StoryNodeType | undefined)
+      .filter((n): n is StoryNodeType => n?.asset_id === hit.assetId);
+    const containing = storyNodes.find(
+      n => hit.start >= (n.clip_in || 0) && (n.clip_out === undefined || n.clip_out === null || hit.start < n.clip_out)
+    );
+
+    if (containing) {
+      setFocusedAsset(null);
+      handleFocusNode(containing.id);
+    } else {
+      const assets: MediaAsset[] = await window.electronAPI.mediaGetAll(projectId);
+      const asset = assets.find(a => a.id === hit.assetId);
+      if (!asset) return;
+      setNodes(nds => nds.map(n => ({ ...n, selected: false })));
+      setFocusedAsset(asset);
+    }
+    setShowInspector(true);
+    setInspectorSeek({ time: hit.start, nonce: Date.now() });
+  }, [getNodes, setNodes, handleFocusNode, projectId]);
+
+  // The hit's passage, on whole frames, as a new Bucket node
+  const handleCreateNodeFromHit = useCallback(async (hit: TranscriptSearchHit) => {
+    const assets: MediaAsset[] = await window.electronAPI.mediaGetAll(projectId);
+    const asset = assets.find(a => a.id === hit.assetId);
+    if (!asset) return;
+
+    const [clipIn, clipOut] = snapRangeToFrames(hit.passageStart, hit.passageEnd, toFrameRate(asset.fps || 24));
+    const bucketNode: Omit<StoryNodeType, 'id'> = {
+      asset_id: asset.id,
+      type: asset.media_type === 'DIALOGUE' ? 'SPINE' : 'SATELLITE',
+      subtype: asset.media_type === 'MUSIC' ? 'MUSIC' : 'VIDEO',
+      is_global: false,
+      clip_in: clipIn,
+      clip_out: clipOut,
+      x: -1000,
+      y: 0,
+      width: 240,
+      height: 180,
+    };
+    await window.electronAPI.nodeCreate(canvasId, bucketNode);
+    await loadCanvasNodes();
+    setShowBucket(true);
+  }, [projectId, canvasId, loadCanvasNodes]);
+
   const handleDeleteContainer = useCallback(async (containerId: string) => {
     try {
       // Extract actual ID from the node ID (remove 'container-' prefix)
@@ -891,8 +1059,14 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
   const mediaLibraryWidth = showMediaLibrary ? 320 : 0;
   const inspectorWidth = showInspector ? 380 : 0;
 
-  const { getNodes } = useReactFlow();
-  const selectedNode = (getNodes().find(n => n.selected)?.data as ReactFlowNodeData | undefined)?.storyNode;
+  const selectedData = getNodes().find(n => n.selected)?.data as ReactFlowNodeData | undefined;
+  const selectedNode = selectedData?.storyNode;
+  const selectedAsset = selectedData ? selectedData.asset : focusedAsset ?? undefined;
+
+  // Picking a node closes an asset opened from search
+  useEffect(() => {
+    if (selectedNode) setFocusedAsset(null);
+  }, [selectedNode?.id]);
 
   const renderPanel = (panelType: 'media-library' | 'inspector', position: 'left' | 'right') => {
     const isVisible = panelType === 'media-library' ? showMediaLibrary : showInspector;
@@ -918,6 +1092,11 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
         ) : (
           <InspectorPanel
             selectedNode={selectedNode}
+            selectedAsset={selectedAsset}
+            canvasId={canvasId}
+            proxyMode={proxyMode}
+            onNodeUpdated={loadCanvasNodes}
+            seekTo={inspectorSeek}
             onToggleCollapse={() => setShowInspector(false)}
             position={position}
           />
@@ -947,6 +1126,14 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
             {linkToggle ? <Link size={16} /> : <Unlink size={16} />}
             {linkToggle ? 'Link ON' : 'Link OFF'}
           </button>
+          <button
+            onClick={handleToggleProxyMode}
+            className={`btn-ghost text-sm flex items-center gap-2 ${proxyMode ? 'text-accent-amber' : ''}`}
+            title="Play lightweight proxies instead of camera originals"
+          >
+            <Zap size={16} />
+            {proxyMode ? 'Proxy ON' : 'Proxy OFF'}
+          </button>
           <div className="w-px h-6 bg-void-gray" />
           {/* Container Creation (Phase 5) */}
           <div className="relative">
@@ -975,22 +1162,76 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
             )}
           </div>
           <div className="w-px h-6 bg-void-gray" />
+          <TranscriptSearchPanel
+            projectId={projectId}
+            onOpenHit={handleOpenSearchHit}
+            onCreateNode={handleCreateNodeFromHit}
+          />
+          <JobsPanel projectId={projectId} />
           <button
-            onClick={async () => {
-              const filePath = await window.electronAPI.selectFolder();
-              if (filePath) {
-                const result = await window.electronAPI.exportGenerateFCPXML(projectId, `${filePath}/export.fcpxml`);
-                if (result.success) {
-                  alert('FCPXML exported successfully!');
-                } else {
-                  alert(`FCPXML export failed: ${result.error}`);
-                }
-              }
-            }}
-            className="btn-primary text-sm flex items-center gap-2"
+            onClick={handleRender}
+            disabled={renderProgress !== null}
+            className="btn-ghost text-sm flex items-center gap-2 disabled:opacity-50"
+            title="Render a rough-cut MP4 of this canvas"
           >
-            <FileDown size={16} /> Export XML
+            <Clapperboard size={16} />
+            {renderProgress !== null ? `Rendering ${renderProgress}%` : 'Render'}
           </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="btn-primary text-sm flex items-center gap-2"
+            >
+              <FileDown size={16} /> Export
+            </button>
+            {showExportMenu && (
+              <div className="absolute top-full right-0 mt-1 bg-surface-high border border-void-gray rounded-lg shadow-lg z-50 py-1 min-w-[160px]">
+                <button
+                  onClick={() => handleExport('fcpxml')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <FileDown size={14} className="text-accent-indigo" /> FCPXML 1.10
+                </button>
+                <button
+                  onClick={() => handleExport('xmeml')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <FileDown size={14} className="text-green-500" /> FCP7 XML (Premiere)
+                </button>
+                <button
+                  onClick={() => handleExport('otio')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <FileDown size={14} className="text-text-secondary" /> OpenTimelineIO
+                </button>
+                <button
+                  onClick={() => handleExport('edl')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <FileDown size={14} className="text-accent-amber" /> CMX3600 EDL
+                </button>
+                <div className="my-1 border-t border-void-gray" />
+                <button
+                  onClick={() => handleExport('srt')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <Captions size={14} className="text-accent-cyan" /> SRT Captions
+                </button>
+                <button
+                  onClick={() => handleExport('vtt')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <Captions size={14} className="text-accent-cyan" /> WebVTT Captions
+                </button>
+                <button
+                  onClick={() => handleExport('paper-edit')}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-void-gray flex items-center gap-2"
+                >
+                  <FileText size={14} className="text-accent-purple" /> Paper Edit Script
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </header>
 
@@ -1082,7 +1323,16 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
                   <button onClick={() => setShowPreview(false)}>✕</button>
                 </div>
                 <div className="aspect-video bg-void-dark flex items-center justify-center">
-                  <span className="text-xs text-text-tertiary">Video Preview</span>
+                  {selectedNode?.asset_id ? (
+                    <video
+                      key={`${selectedNode.asset_id}-${proxyMode}`}
+                      src={getMediaUrl(selectedNode.asset_id, proxyMode)}
+                      className="w-full h-full object-contain"
+                      controls
+                    />
+                  ) : (
+                    <span className="text-xs text-text-tertiary">Video Preview</span>
+                  )}
                 </div>
               </div>
             )}
@@ -1103,6 +1353,21 @@ const CanvasViewContent: React.FC<CanvasViewProps> = ({ projectId, canvasId, onB
             />
           )}
 
+          {validation && (
+            <ValidationReportPanel
+              report={validation.report}
+              onFocusNode={handleFocusNode}
+              onRecheck={() => handleExport(validation.format)}
+              onExportAnyway={() => {
+                const { report, format } = validation;
+                if (!report.isValid) return;
+                setValidation(null);
+                runExport(format);
+              }}
+              onClose={() => setValidation(null)}
+            />
+          )}
+
           {showIsolationViewer && isolatedMulticamNode && (
             <IsolationViewer
               node={isolatedMulticamNode}
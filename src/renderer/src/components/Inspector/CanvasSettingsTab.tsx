@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Canvas, StoryNode, FlattenedClip } from '../../../../shared/types';
+import { toFrameRate, framesToTimecode, supportsDropFrame } from '../../../../shared/timecode';
+
+interface CanvasSettingsTabProps {
+  canvasId?: string;
+  onCanvasUpdated?: () => void;
+}
+
+interface CanvasStats {
+  total: number;
+  spine: number;
+  satellite: number;
+  durationFrames: number;
+}
+
+// Same choices as the New Canvas dialog
+const FPS_OPTIONS = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+const RESOLUTION_OPTIONS = [
+  '1280x720',
+  '1920x1080',
+  '2560x1440',
+  '3840x2160',
+  '4096x2160',
+  '7680x4320',
+  '1080x1920',
+  '1080x1080',
+];
+
+/**
+ * Canvas tab: editable sequence settings and live statistics for the open canvas
+ */
+const CanvasSettingsTab: React.FC<CanvasSettingsTabProps> = ({ canvasId, onCanvasUpdated }) => {
+  const [canvas, setCanvas] = useState<Canvas | null>(null);
+  const [stats, setStats] = useState<CanvasStats | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCanvas = useCallback(async () => {
+    if (!canvasId) return;
+    const [loadedCanvas, nodes, clips]: [Canvas | null, StoryNode[], FlattenedClip[]] = await Promise.all([
+      window.electronAPI.canvasGet(canvasId),
+      window.electronAPI.nodeList(canvasId),
+      window.electronAPI.timelineFlatten(canvasId),
+    ]);
+    setCanvas(loadedCanvas);
+    setStats({
+      total: nodes.length,
+      spine: nodes.filter(n => n.type === 'SPINE').length,
+      satellite: nodes.filter(n => n.type === 'SATELLITE').length,
+      durationFrames: clips.reduce((max, clip) => Math.max(max, clip.endFrame), 0),
+    });
+  }, [canvasId]);
+
+  useEffect(() => {
+    loadCanvas();
+  }, [loadCanvas]);
+
+  const updateCanvas = async (updates: Partial<Canvas>) => {
+    if (!canvasId || !canvas) return;
+    setIsSaving(true);
+    try {
+      await window.electronAPI.canvasUpdate(canvasId, updates);
+      await loadCanvas();
+      onCanvasUpdated?.();
+    } catch (error) {
+      console.error('Failed to update canvas:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFpsChange = (fps: number) => {
+    // Leaving an NTSC rate drops back to non-drop counting
+    const updates: Partial<Canvas> = { FPS: fps };
+    if (!supportsDropFrame(toFrameRate(fps)) && canvas?.Timecode_mode === 'DROP') {
+      updates.Timecode_mode = 'NON_DROP';
+    }
+    updateCanvas(updates);
+  };
+
+  if (!canvasId || !canvas) {
+    return (
+      <div className="p-4 text-center text-text-tertiary">
+        <p>No canvas open.</p>
+      </div>
+    );
+  }
+
+  const fps = canvas.FPS || 24;
+  const rate = toFrameRate(fps);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div>
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+          Canvas Settings
+        </h4>
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-text-secondary shrink-0">FPS</span>
+            <select
+              value={fps}
+              onChange={(e) => handleFpsChange(Number(e.target.value))}
+              disabled={isSaving}
+              className="input py-1 w-36 timecode"
+            >
+              {!FPS_OPTIONS.includes(fps) && <option value={fps}>{fps}</option>}
+              {FPS_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-text-secondary shrink-0">Resolution</span>
+            <select
+              value={canvas.Resolution}
+              onChange={(e) => updateCanvas({ Resolution: e.target.value })}
+              disabled={isSaving}
+              className="input py-1 w-36 coordinate"
+            >
+              {!RESOLUTION_OPTIONS.includes(canvas.Resolution) && (
+                <option value={canvas.Resolution}>{canvas.Resolution}</option>
+              )}
+              {RESOLUTION_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-text-secondary shrink-0">Timecode Mode</span>
+            <select
+              value={canvas.Timecode_mode}
+              onChange={(e) => updateCanvas({ Timecode_mode: e.target.value as Canvas['Timecode_mode'] })}
+              disabled={isSaving}
+              className="input py-1 w-36"
+            >
+              <option value="NON_DROP">Non-Drop</option>
+              <option value="DROP" disabled={!supportsDropFrame(rate)}>Drop Frame</option>
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="border-t border-void-gray pt-4">
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+          Statistics
+        </h4>
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-text-secondary">Total Nodes</span>
+            <span className="text-text-primary">{stats?.total ?? '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-text-secondary">Spine Nodes</span>
+            <span className="text-accent-purple">{stats?.spine ?? '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-text-secondary">Satellite Nodes</span>
+            <span className="text-accent-cyan">{stats?.satellite ?? '—'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-text-secondary">Total Duration</span>
+            <span className="text-text-primary timecode">
+              {stats ? framesToTimecode(stats.durationFrames, rate, canvas.Timecode_mode === 'DROP') : '—'}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CanvasSettingsTab;
@@ -0,0 +1,406 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Undo2 } from 'lucide-react';
+import { StoryNode, MediaAsset, Canvas, FlattenedClip } from '../../../../shared/types';
+import { getMediaUrl } from '../../utils/media';
+import {
+  toFrameRate,
+  frameRateToFps,
+  framesToTimecode,
+  timecodeToFrames,
+  secondsToTimecode,
+  isDropFrameTimecode,
+  withTimecodeNotation,
+} from '../../../../shared/timecode';
+
+interface ForensicPlayerProps {
+  node?: StoryNode;
+  asset?: MediaAsset;
+  canvasId?: string;
+  proxyMode: boolean;
+  onNodeUpdated?: () => void; // Called after in/out changes or undo so the canvas reloads
+  seekRequest?: { time: number; nonce: number }; // External seek, e.g. a transcript word click
+}
+
+// Shuttle speeds for repeated J / L presses
+const SHUTTLE_RATES = [1, 2, 4, 8];
+
+// Record timecode starts at 01:00:00:00, as in the exported EDLs
+const RECORD_START_TC = '01:00:00:00';
+
+/**
+ * Phase 6: Forensic Player
+ *
+ * Plays the selected node's asset (or its proxy). The scrub bar spans the
+ * whole asset with clip_in/clip_out marked on it, so trims can be extended
+ * as well as tightened. Playback started inside the trim stops at the out
+ * point; started outside it, it runs to the end of the asset. Source TC follows
+ * the asset's embedded start timecode, record TC follows the node's position
+ * in the flattened timeline.
+ *
+ * Keys (player focused): Space play/pause · J/K/L shuttle · ←/→ frame step ·
+ * I/O set in/out · ⌘/Ctrl+Z undo
+ */
+const ForensicPlayer: React.FC<ForensicPlayerProps> = ({
+  node,
+  asset,
+  canvasId,
+  proxyMode,
+  onNodeUpdated,
+  seekRequest,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const scrubRef = useRef<HTMLDivElement>(null);
+  const rateRef = useRef(0); // Signed shuttle rate, 0 = stopped
+  const frameRef = useRef<number | null>(null);
+  const playEndRef = useRef(0); // Where forward playback stops: the out point if it started inside the trim
+  const pendingSeekRef = useRef<number | null>(null); // Seek requested before the media loaded
+
+  const [currentTime, setCurrentTime] = useState(0);
+  const [shuttleRate, setShuttleRate] = useState(0);
+  const [canvas, setCanvas] = useState<Canvas | null>(null);
+  const [recordClip, setRecordClip] = useState<FlattenedClip | null>(null);
+
+  const assetRate = toFrameRate(asset?.fps || canvas?.FPS || 24);
+  const assetFps = frameRateToFps(assetRate);
+  const frameDuration = 1 / assetFps;
+  const clipIn = node?.clip_in || 0;
+  const clipOut = node?.clip_out ?? asset?.duration ?? 0;
+  const mediaDuration = Math.max(asset?.duration || 0, clipOut, frameDuration);
+
+  // Canvas rate and the node's record position come from the flattened timeline
+  useEffect(() => {
+    if (!canvasId || !node) {
+      setRecordClip(null);
+      return;
+    }
+    let active = true;
+    Promise.all([window.electronAPI.canvasGet(canvasId), window.electronAPI.timelineFlatten(canvasId)]).then(
+      ([loadedCanvas, clips]: [Canvas | null, FlattenedClip[]]) => {
+        if (!active) return;
+        setCanvas(loadedCanvas);
+        setRecordClip(clips.find(c => c.nodeId === node.id) || null);
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [canvasId, node?.id, node?.clip_in, node?.clip_out]);
+
+  const stopShuttle = useCallback(() => {
+    rateRef.current = 0;
+    setShuttleRate(0);
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    videoRef.current?.pause();
+  }, []);
+
+  const seek = useCallback(
+    (time: number) => {
+      const video = videoRef.current;
+      const clamped = Math.min(Math.max(time, 0), mediaDuration);
+      if (video) video.currentTime = clamped;
+      setCurrentTime(clamped);
+    },
+    [mediaDuration]
+  );
+
+  // New clip, new range or proxy toggle: park on the in point
+  useEffect(() => {
+    stopShuttle();
+    pendingSeekRef.current = null;
+    seek(clipIn);
+  }, [asset?.id, clipIn, clipOut, proxyMode, stopShuttle, seek]);
+
+  useEffect(() => stopShuttle, [stopShuttle]);
+
+  useEffect(() => {
+    if (!seekRequest) return;
+    stopShuttle();
+    pendingSeekRef.current = seekRequest.time;
+    seek(seekRequest.time);
+  }, [seekRequest]);
+
+  const startShuttle = useCallback(
+    (rate: number) => {
+      const video = videoRef.current;
+      if (!video || rate === 0) {
+        stopShuttle();
+        return;
+      }
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      const wasForward = rateRef.current > 0;
+      rateRef.current = rate;
+      setShuttleRate(rate);
+
+      if (rate > 0) {
+        if (video.currentTime >= mediaDuration - frameDuration / 2) video.currentTime = clipIn;
+        // Speeding up keeps the stop point chosen when playback started
+        if (!wasForward) {
+          const insideTrim = video.currentTime >= clipIn - frameDuration / 2 && video.currentTime < clipOut - frameDuration / 2;
+          playEndRef.current = insideTrim ? clipOut : mediaDuration;
+        }
+        video.playbackRate = rate;
+        video.play().catch(() => stopShuttle());
+      } else {
+        // Media elements cannot play backwards; step the playhead by hand
+        video.pause();
+      }
+
+      let last = performance.now();
+      const tick = (now: number) => {
+        const elapsed = (now - last) / 1000;
+        last = now;
+        if (rateRef.current < 0) {
+          video.currentTime = Math.max(0, video.currentTime + rateRef.current * elapsed);
+        }
+        setCurrentTime(video.currentTime);
+
+        if (rateRef.current > 0 && video.currentTime >= playEndRef.current) {
+          stopShuttle();
+          seek(playEndRef.current);
+          return;
+        }
+        if (rateRef.current < 0 && video.currentTime <= 0) {
+          stopShuttle();
+          return;
+        }
+        frameRef.current = requestAnimationFrame(tick);
+      };
+      frameRef.current = requestAnimationFrame(tick);
+    },
+    [clipIn, clipOut, mediaDuration, frameDuration, stopShuttle, seek]
+  );
+
+  const shuttle = (direction: 1 | -1) => {
+    const current = rateRef.current;
+    if (Math.sign(current) !== direction) {
+      startShuttle(direction * SHUTTLE_RATES[0]);
+      return;
+    }
+    const index = SHUTTLE_RATES.indexOf(Math.abs(current));
+    startShuttle(direction * SHUTTLE_RATES[Math.min(index + 1, SHUTTLE_RATES.length - 1)]);
+  };
+
+  const stepFrames = (count: number) => {
+    stopShuttle();
+    seek(currentTime + count * frameDuration);
+  };
+
+  const togglePlayback = () => {
+    if (rateRef.current !== 0) {
+      stopShuttle();
+    } else {
+      startShuttle(1);
+    }
+  };
+
+  // Trim points snap to the asset's frame grid
+  const snap = (time: number) => Math.round(time * assetFps) / assetFps;
+
+  const setInPoint = async () => {
+    if (!node) return;
+    const time = snap(currentTime);
+    if (time >= clipOut) return;
+    await window.electronAPI.nodeUpdate(node.id, { clip_in: time });
+    onNodeUpdated?.();
+  };
+
+  const setOutPoint = async () => {
+    if (!node) return;
+    const time = snap(currentTime);
+    if (time <= clipIn) return;
+    await window.electronAPI.nodeUpdate(node.id, { clip_out: time });
+    onNodeUpdated?.();
+  };
+
+  const handleUndo = async () => {
+    await window.electronAPI.historyUndo();
+    onNodeUpdated?.();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      handleUndo();
+      return;
+    }
+
+    switch (event.key.toLowerCase()) {
+      case ' ':
+        togglePlayback();
+        break;
+      case 'j':
+        shuttle(-1);
+        break;
+      case 'k':
+        stopShuttle();
+        break;
+      case 'l':
+        shuttle(1);
+        break;
+      case 'arrowleft':
+        stepFrames(event.shiftKey ? -10 : -1);
+        break;
+      case 'arrowright':
+        stepFrames(event.shiftKey ? 10 : 1);
+        break;
+      case 'i':
+        setInPoint();
+        break;
+      case 'o':
+        setOutPoint();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const scrubTo = (clientX: number) => {
+    const bar = scrubRef.current;
+    if (!bar) return;
+    const rect = bar.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    seek(ratio * mediaDuration);
+  };
+
+  const handleScrubStart = (event: React.PointerEvent) => {
+    stopShuttle();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubTo(event.clientX);
+  };
+
+  // Timecodes
+  // Source TC keeps the asset's own drop/non-drop notation, record TC follows the canvas
+  const sourceDrop = isDropFrameTimecode(asset?.start_tc);
+  const sourceTimecode = (time: number) => secondsToTimecode(time, assetRate, sourceDrop, asset?.start_tc);
+  const recordRate = canvas ? toFrameRate(canvas.FPS) : assetRate;
+  const recordDrop = canvas?.Timecode_mode === 'DROP';
+  // Outside the trim the playhead is not on the timeline, so there is no record TC
+  const recordTimecode = recordClip && currentTime >= clipIn && currentTime <= clipOut
+    ? secondsToTimecode(
+        currentTime - clipIn,
+        recordRate,
+        recordDrop,
+        framesToTimecode(
+          timecodeToFrames(withTimecodeNotation(RECORD_START_TC, recordDrop), recordRate) + recordClip.startFrame,
+          recordRate,
+          recordDrop
+        )
+      )
+    : null;
+  const toPercent = (time: number) => (time / mediaDuration) * 100;
+  const progress = toPercent(currentTime);
+
+  return (
+    <div className="border-b border-void-gray outline-none focus:ring-1 focus:ring-accent-indigo" tabIndex={0} onKeyDown={handleKeyDown}>
+      {/* Video Preview */}
+      <div className="aspect-video bg-void-dark flex items-center justify-center border-b border-void-gray relative">
+        {node?.asset_id ? (
+          <video
+            ref={videoRef}
+            key={`${node.asset_id}-${proxyMode}`}
+            src={getMediaUrl(node.asset_id, proxyMode)}
+            className="w-full h-full object-contain"
+            preload="auto"
+            onLoadedMetadata={() => seek(pendingSeekRef.current ?? clipIn)}
+            onClick={togglePlayback}
+          />
+        ) : (
+          <div className="text-center text-text-tertiary">
+            <Play size={48} className="mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No preview available</p>
+          </div>
+        )}
+        {shuttleRate !== 0 && Math.abs(shuttleRate) !== 1 && (
+          <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-void-dark bg-opacity-80 text-xs font-mono text-accent-amber">
+            {shuttleRate > 0 ? '▶' : '◀'} {Math.abs(shuttleRate)}×
+          </span>
+        )}
+      </div>
+
+      {/* Playback Controls */}
+      <div className="p-3 bg-surface-low">
+        {/* Scrub Bar: spans the whole asset, the trim shaded between its in/out markers */}
+        <div className="mb-3">
+          <div
+            ref={scrubRef}
+            className="relative h-2 bg-void-dark rounded-full overflow-hidden group cursor-pointer"
+            onPointerDown={handleScrubStart}
+            onPointerMove={e => e.buttons === 1 && scrubTo(e.clientX)}
+          >
+            <div
+              className="absolute top-0 h-full bg-accent-indigo bg-opacity-20"
+              style={{ left: `${toPercent(clipIn)}%`, width: `${toPercent(clipOut - clipIn)}%` }}
+            />
+            <div className="absolute left-0 top-0 h-full bg-accent-indigo" style={{ width: `${progress}%` }} />
+            <div className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-accent-amber" style={{ left: `${toPercent(clipIn)}%` }} title="In point" />
+            <div className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-accent-amber" style={{ left: `${toPercent(clipOut)}%` }} title="Out point" />
+            <div
+              className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 bg-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+              style={{ left: `${progress}%` }}
+            />
+          </div>
+        </div>
+
+        {/* Timecode Display: source (asset) and record (timeline) */}
+        <div className="flex items-center justify-between mb-3 text-xs">
+          <span className="timecode text-text-primary font-mono" title="Source timecode">
+            SRC {sourceTimecode(currentTime)}
+          </span>
+          <span className="timecode text-text-tertiary font-mono" title="Record timecode">
+            REC {recordTimecode ?? '--:--:--:--'}
+          </span>
+        </div>
+
+        {/* Transport Controls */}
+        <div className="flex items-center justify-center gap-2">
+          <button
+            onClick={() => stepFrames(-1)}
+            disabled={!node?.asset_id}
+            className="p-2 hover:bg-void-dark rounded transition-colors text-text-secondary hover:text-text-primary disabled:opacity-50"
+            title="Previous frame (←)"
+          >
+            <SkipBack size={18} />
+          </button>
+          <button
+            onClick={togglePlayback}
+            disabled={!node?.asset_id}
+            className="p-3 bg-accent-indigo hover:bg-indigo-600 rounded-lg transition-colors text-white disabled:opacity-50"
+            title="Play / Pause (Space)"
+          >
+            {shuttleRate !== 0 ? <Pause size={20} /> : <Play size={20} />}
+          </button>
+          <button
+            onClick={() => stepFrames(1)}
+            disabled={!node?.asset_id}
+            className="p-2 hover:bg-void-dark rounded transition-colors text-text-secondary hover:text-text-primary disabled:opacity-50"
+            title="Next frame (→)"
+          >
+            <SkipForward size={18} />
+          </button>
+        </div>
+
+        {/* In / Out */}
+        {node?.asset_id && (
+          <div className="flex items-center justify-between mt-3 text-xs">
+            <button onClick={setInPoint} className="btn-ghost text-xs font-mono" title="Set in point (I)">
+              IN {sourceTimecode(clipIn)}
+            </button>
+            <button onClick={handleUndo} className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded" title="Undo (⌘/Ctrl+Z)">
+              <Undo2 size={14} />
+            </button>
+            <button onClick={setOutPoint} className="btn-ghost text-xs font-mono" title="Set out point (O)">
+              OUT {sourceTimecode(clipOut)}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForensicPlayer;
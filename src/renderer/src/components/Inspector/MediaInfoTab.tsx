@@ -0,0 +1,159 @@
+import React from 'react';
+import { MediaAsset, AudioStreamInfo } from '../../../../shared/types';
+import { parseMediaMetadata } from '../../utils/media';
+import { toFrameRate, formatFrameRate, framesToTimecode, isDropFrameTimecode } from '../../../../shared/timecode';
+
+interface MediaInfoTabProps {
+  asset?: MediaAsset;
+}
+
+const MISSING = '—';
+
+const formatSize = (bytes: number | null): string => {
+  if (!bytes) return MISSING;
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+};
+
+const parseAudioStreams = (asset: MediaAsset): AudioStreamInfo[] => {
+  try {
+    return asset.audio_streams ? JSON.parse(asset.audio_streams) : [];
+  } catch {
+    return [];
+  }
+};
+
+const formatCreationDate = (value: string | null | undefined): string => {
+  if (!value) return MISSING;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const InfoRow: React.FC<{ label: string; value: React.ReactNode; className?: string }> = ({
+  label,
+  value,
+  className = '',
+}) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-text-secondary shrink-0">{label}</span>
+    <span className={`text-text-primary text-right truncate ${className}`}>{value ?? MISSING}</span>
+  </div>
+);
+
+/**
+ * Media tab: file, video, audio and camera details of the selected node's asset
+ * Read from the media_library row; assets imported before a column existed
+ * fall back to the FFprobe fields in metadata_raw.
+ */
+const MediaInfoTab: React.FC<MediaInfoTabProps> = ({ asset }) => {
+  if (!asset) {
+    return (
+      <div className="p-4 text-center text-text-tertiary">
+        <p>Select a media node to view its file information.</p>
+      </div>
+    );
+  }
+
+  const metadata = parseMediaMetadata(asset);
+  const hasVideo = metadata.has_video ?? asset.media_type !== 'MUSIC';
+  const fps = asset.fps || 0;
+  const totalFrames = asset.total_frames ?? (fps ? Math.floor((asset.duration || 0) * fps) : null);
+  const audioStreams = parseAudioStreams(asset);
+  const audioChannels = asset.audio_channels ?? metadata.audio_channels;
+  const audioLayout = asset.audio_channel_layout ?? metadata.audio_channel_layout;
+  const sampleRate = asset.audio_sample_rate ?? metadata.audio_sample_rate;
+  const color = [asset.color_space, asset.color_transfer, asset.color_primaries].filter(Boolean);
+  const camera = [asset.camera_make, asset.camera_model].filter(Boolean).join(' ');
+
+  return (
+    <div className="p-4 space-y-4">
+      <div>
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+          File Information
+        </h4>
+        <div className="space-y-2 text-sm">
+          <InfoRow label="Name" value={<span title={asset.file_path}>{asset.file_name}</span>} />
+          <InfoRow label="Format" value={asset.format?.toUpperCase() || MISSING} />
+          <InfoRow label="Size" value={formatSize(asset.size)} />
+          <InfoRow
+            label="Duration"
+            value={
+              totalFrames !== null && fps
+                ? framesToTimecode(totalFrames, toFrameRate(fps), isDropFrameTimecode(asset.start_tc))
+                : MISSING
+            }
+            className="timecode"
+          />
+        </div>
+      </div>
+
+      {hasVideo && (
+        <div className="border-t border-void-gray pt-4">
+          <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+            Video
+          </h4>
+          <div className="space-y-2 text-sm">
+            <InfoRow label="Codec" value={asset.video_codec ?? metadata.video_codec ?? MISSING} />
+            <InfoRow label="Resolution" value={asset.resolution || MISSING} className="coordinate" />
+            <InfoRow label="Frame Rate" value={fps ? `${formatFrameRate(toFrameRate(fps))} fps` : MISSING} className="timecode" />
+            <InfoRow
+              label="Bit Depth"
+              value={
+                asset.bit_depth
+                  ? `${asset.bit_depth}-bit${asset.pixel_format ? ` (${asset.pixel_format})` : ''}`
+                  : MISSING
+              }
+            />
+            <InfoRow label="Color" value={color.length > 0 ? color.join(' / ') : MISSING} />
+            <InfoRow label="Pixel Aspect" value={asset.pixel_aspect || MISSING} className="coordinate" />
+            {!!asset.rotation && <InfoRow label="Rotation" value={`${asset.rotation}°`} />}
+            <InfoRow label="Start TC" value={asset.start_tc || MISSING} className="timecode" />
+            <InfoRow label="End TC" value={asset.end_tc || MISSING} className="timecode" />
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-void-gray pt-4">
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+          Audio
+        </h4>
+        {metadata.has_audio ? (
+          <div className="space-y-2 text-sm">
+            <InfoRow label="Codec" value={asset.audio_codec ?? metadata.audio_codec ?? MISSING} />
+            <InfoRow
+              label="Channels"
+              value={audioChannels ? `${audioChannels}${audioLayout ? ` (${audioLayout})` : ''}` : MISSING}
+            />
+            <InfoRow label="Sample Rate" value={sampleRate ? `${(sampleRate / 1000).toFixed(1)} kHz` : MISSING} />
+            {audioStreams.length > 1 &&
+              audioStreams.map((stream, index) => (
+                <InfoRow
+                  key={stream.index}
+                  label={`Track ${index + 1}`}
+                  value={`${stream.channel_layout || `${stream.channels}ch`}${stream.language ? ` · ${stream.language}` : ''}`}
+                  className="text-text-secondary"
+                />
+              ))}
+          </div>
+        ) : (
+          <p className="text-sm text-text-tertiary">No audio streams</p>
+        )}
+      </div>
+
+      {(camera || asset.reel_name || asset.creation_date) && (
+        <div className="border-t border-void-gray pt-4">
+          <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
+            Camera
+          </h4>
+          <div className="space-y-2 text-sm">
+            <InfoRow label="Camera" value={camera || MISSING} />
+            <InfoRow label="Reel" value={asset.reel_name || MISSING} className="timecode" />
+            <InfoRow label="Recorded" value={formatCreationDate(asset.creation_date)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaInfoTab;
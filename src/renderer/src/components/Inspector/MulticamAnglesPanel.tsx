@@ -1,31 +1,92 @@
-import React, { useEffect, useState } from 'react';
-import { StoryNode, MulticamMember } from '../../../../shared/types';
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { StoryNode, MulticamMember, Job } from '../../../../shared/types';
 
 interface MulticamAnglesPanelProps {
   node: StoryNode;
 }
 
+// Audio matches scoring below this are flagged for the user to check
+const REVIEW_CONFIDENCE = 0.5;
+
+const METHOD_LABELS: Record<NonNullable<MulticamMember['sync_method']>, string> = {
+  TIMECODE: 'Timecode',
+  AUDIO: 'Audio',
+  MANUAL: 'Manual',
+};
+
 const MulticamAnglesPanel: React.FC<MulticamAnglesPanelProps> = ({ node }) => {
   const [multicamMembers, setMulticamMembers] = useState<MulticamMember[]>([]);
   const [activeAngle, setActiveAngle] = useState<string | undefined>(
     node.internal_state_map?.active_angle
   );
+  const [syncProgress, setSyncProgress] = useState<number | null>(null);
+  const [offsetDrafts, setOffsetDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMulticamMembers = useCallback(async () => {
+    if (node.asset_id) {
+      const members = await window.electronAPI.multicamGetMembers(node.asset_id);
+      setMulticamMembers(members);
+    }
+  }, [node.asset_id]);
 
   useEffect(() => {
-    const fetchMulticamMembers = async () => {
-      if (node.asset_id) {
-        const members = await window.electronAPI.multicamGetMembers(node.asset_id);
-        setMulticamMembers(members);
+    fetchMulticamMembers();
+  }, [fetchMulticamMembers]);
+
+  // Sync runs as a background job; reload the offsets when it lands
+  useEffect(() => {
+    if (!node.asset_id) return;
+    setSyncProgress(null);
+
+    const trackSync = (job: Job) => {
+      if (job.type !== 'multicam-sync' || job.payload.multicamMediaId !== node.asset_id) return;
+      if (job.status === 'queued' || job.status === 'running') {
+        setSyncProgress(job.progress);
+        return;
       }
+      setSyncProgress(null);
+      setError(job.status === 'failed' ? job.error || 'Sync failed' : null);
+      if (job.status === 'done') fetchMulticamMembers();
     };
-    fetchMulticamMembers();
-  }, [node.asset_id]);
+
+    const unsubscribeProgress = window.electronAPI.onJobProgress(trackSync);
+    const unsubscribeDone = window.electronAPI.onJobDone(trackSync);
+    return () => {
+      unsubscribeProgress();
+      unsubscribeDone();
+    };
+  }, [node.asset_id, fetchMulticamMembers]);
 
   const handleAngleChange = async (memberMediaId: string) => {
     setActiveAngle(memberMediaId);
     await window.electronAPI.nodeSetAngle(node.id, memberMediaId);
   };
 
+  const handleSync = async () => {
+    if (!node.asset_id) return;
+    const job = await window.electronAPI.multicamSync(node.asset_id);
+    setSyncProgress(job.progress);
+    setError(null);
+  };
+
+  const applyOffset = async (member: MulticamMember, value: string) => {
+    const syncOffset = Number(value);
+    if (value.trim() === '' || syncOffset === member.sync_offset) {
+      setOffsetDrafts(({ [member.member_media_id]: _unchanged, ...rest }) => rest);
+      return;
+    }
+    const result = await window.electronAPI.multicamSetSyncOffset(member.multicam_media_id, member.member_media_id, syncOffset);
+    if (!result.success) {
+      setError(result.error || 'Could not set offset');
+      return;
+    }
+    setOffsetDrafts(({ [member.member_media_id]: _applied, ...rest }) => rest);
+    setError(null);
+    await fetchMulticamMembers();
+  };
+
   if (!multicamMembers.length) {
     return (
       <div className="p-4 text-center text-text-tertiary">
@@ -36,29 +97,72 @@ const MulticamAnglesPanel: React.FC<MulticamAnglesPanelProps> = ({ node }) => {
 
   return (
     <div className="p-4 space-y-4">
-      <h4 className="text-xs font-semibold text-text-tertiary uppercase mb-2">
-        Active Angle
-      </h4>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase">
+          Active Angle
+        </h4>
+        <button
+          onClick={handleSync}
+          disabled={syncProgress !== null}
+          className="btn-ghost text-xs inline-flex items-center gap-1 disabled:opacity-50"
+          title="Line up angles by timecode, or by audio where timecode is missing"
+        >
+          <RefreshCw size={12} className={syncProgress !== null ? 'animate-spin' : ''} />
+          {syncProgress !== null ? `Syncing ${Math.round(syncProgress)}%` : 'Sync angles'}
+        </button>
+      </div>
       <div className="space-y-2">
-        {multicamMembers.map((member) => (
-          <label
-            key={member.member_media_id}
-            className="flex items-center space-x-2 cursor-pointer"
-          >
-            <input
-              type="radio"
-              name="multicam-angle"
-              value={member.member_media_id}
-              checked={activeAngle === member.member_media_id}
-              onChange={() => handleAngleChange(member.member_media_id)}
-              className="w-4 h-4"
-            />
-            <span className="text-sm font-medium">
-              {member.angle_label}
-            </span>
-          </label>
-        ))}
+        {multicamMembers.map((member) => {
+          const needsReview = member.sync_method === 'AUDIO' && (member.sync_confidence ?? 0) < REVIEW_CONFIDENCE;
+
+          return (
+            <div key={member.member_media_id} className="flex items-center gap-2">
+              <label className="flex-1 min-w-0 flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="multicam-angle"
+                  value={member.member_media_id}
+                  checked={activeAngle === member.member_media_id}
+                  onChange={() => handleAngleChange(member.member_media_id)}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm font-medium truncate">
+                  {member.angle_label}
+                </span>
+              </label>
+
+              {member.sync_method ? (
+                <span
+                  className={`text-xs inline-flex items-center gap-1 shrink-0 ${needsReview ? 'text-accent-amber' : 'text-text-tertiary'}`}
+                  title={needsReview ? 'Weak audio match — check this angle' : undefined}
+                >
+                  {needsReview && <AlertTriangle size={12} />}
+                  {METHOD_LABELS[member.sync_method]}
+                  {member.sync_method === 'AUDIO' && ` ${Math.round((member.sync_confidence ?? 0) * 100)}%`}
+                </span>
+              ) : (
+                <span className="text-xs text-text-tertiary shrink-0">Not synced</span>
+              )}
+
+              <input
+                type="number"
+                min={0}
+                step={member.fps ? 1 / member.fps : 0.001}
+                value={offsetDrafts[member.member_media_id] ?? (member.sync_offset ?? 0).toFixed(3)}
+                onChange={e => setOffsetDrafts({ ...offsetDrafts, [member.member_media_id]: e.target.value })}
+                onBlur={e => applyOffset(member, e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setOffsetDrafts(({ [member.member_media_id]: _discarded, ...rest }) => rest);
+                }}
+                className="input w-20 text-xs timecode shrink-0"
+                title="Seconds after the earliest angle starts"
+              />
+            </div>
+          );
+        })}
       </div>
+      {error && <p className="text-xs text-accent-red">{error}</p>}
     </div>
   );
 };
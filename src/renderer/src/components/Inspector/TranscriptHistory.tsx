@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { TranscriptRevision, WordToken } from '../../../../shared/types';
+
+interface TranscriptHistoryProps {
+  assetId: string;
+  onRestored: (words: WordToken[], sourceType: string) => void;
+}
+
+const formatRevisionTime = (unixSeconds: number): string => new Date(unixSeconds * 1000).toLocaleString();
+
+/**
+ * Revision list for an asset's transcript
+ * Every import, transcription and correction is a revision; restoring one
+ * makes it current again as a new revision, so nothing is lost.
+ */
+const TranscriptHistory: React.FC<TranscriptHistoryProps> = ({ assetId, onRestored }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+
+  const handleToggle = async () => {
+    if (!isOpen) setRevisions(await window.electronAPI.transcriptListRevisions(assetId));
+    setIsOpen(!isOpen);
+  };
+
+  const handleRestore = async (revision: TranscriptRevision) => {
+    const result = await window.electronAPI.transcriptRestoreRevision(assetId, revision.id);
+    if (result.success && result.words) {
+      onRestored(result.words, revision.source_type);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={handleToggle} className="btn-ghost inline-flex items-center gap-1" title="Transcript revisions">
+        <History size={12} /> History
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-72 max-h-72 panel rounded-lg shadow-node z-50 overflow-y-auto py-1">
+          {revisions.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-text-tertiary text-center">No revisions yet</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="px-3 py-2 flex items-start gap-2 hover:bg-void-gray text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-text-primary font-medium">#{revision.revision}</span>
+                    <span className={revision.source_type === 'EDITED' ? 'text-accent-amber' : 'text-text-secondary'}>
+                      {revision.source_type}
+                    </span>
+                    <span className="ml-auto text-text-tertiary">{revision.word_count} words</span>
+                  </div>
+                  {revision.note && <div className="text-text-secondary truncate">{revision.note}</div>}
+                  <div className="text-text-tertiary">{formatRevisionTime(revision.created_at)}</div>
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+                    title="Restore this revision"
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptHistory;
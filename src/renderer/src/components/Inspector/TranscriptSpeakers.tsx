@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Users, Merge } from 'lucide-react';
+import { ProjectSpeaker } from '../../../../shared/types';
+import { speakerColor } from '../../utils/speakers';
+
+interface TranscriptSpeakersProps {
+  projectId: string;
+  speakers: ProjectSpeaker[];
+  onChanged: () => void;
+}
+
+/**
+ * Project speaker list: rename a speaker everywhere, or merge one into
+ * another (e.g. SPEAKER_00 and SPEAKER_02 from two interviews are the same
+ * person). Names apply across every transcript in the project.
+ */
+const TranscriptSpeakers: React.FC<TranscriptSpeakersProps> = ({ projectId, speakers, onChanged }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const names = speakers.map(s => s.name);
+
+  const applyName = async (speaker: ProjectSpeaker, name: string) => {
+    if (!name.trim() || name.trim() === speaker.name) return;
+    const result = await window.electronAPI.transcriptSetSpeakerName(projectId, speaker.labels, name);
+    if (!result.success) {
+      setError(result.error || 'Could not rename speaker');
+      return;
+    }
+    setDrafts(({ [speaker.name]: _applied, ...rest }) => rest);
+    setError(null);
+    onChanged();
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="btn-ghost inline-flex items-center gap-1" title="Project speakers">
+        <Users size={12} /> Speakers
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-80 max-h-72 panel rounded-lg shadow-node z-50 overflow-y-auto py-1">
+          {speakers.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-text-tertiary text-center">No speaker labels in this project's transcripts</p>
+          ) : (
+            speakers.map(speaker => (
+              <div key={speaker.name} className="px-3 py-2 flex items-center gap-2 hover:bg-void-gray text-xs">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: speakerColor(speaker.name, names) }} />
+                <div className="flex-1 min-w-0">
+                  <input
+                    value={drafts[speaker.name] ?? speaker.name}
+                    onChange={e => setDrafts({ ...drafts, [speaker.name]: e.target.value })}
+                    onBlur={e => applyName(speaker, e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setDrafts(({ [speaker.name]: _discarded, ...rest }) => rest);
+                    }}
+                    className="input w-full text-xs"
+                    title={`Labels: ${speaker.labels.join(', ')}`}
+                  />
+                  <div className="text-text-tertiary mt-0.5">
+                    {speaker.wordCount} words · {speaker.assetCount} asset(s)
+                  </div>
+                </div>
+                {speakers.length > 1 && (
+                  <label className="relative p-1 text-text-tertiary hover:text-text-primary transition-colors rounded cursor-pointer" title="Merge into…">
+                    <Merge size={12} />
+                    <select
+                      value=""
+                      onChange={e => applyName(speaker, e.target.value)}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                    >
+                      <option value="" disabled>
+                        Merge into…
+                      </option>
+                      {names
+                        .filter(name => name !== speaker.name)
+                        .map(name => (
+                          <option key={name} value={name}>
+                            {name}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+            ))
+          )}
+          {error && <p className="px-3 py-2 text-xs text-accent-red">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptSpeakers;
@@ -1,15 +1,43 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { WordToken, StoryNode } from '../../../../shared/types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { FileText, AudioLines, Archive, ArrowRightToLine, X, Pencil, UserRound, Check, ChevronLeft, ChevronRight } from 'lucide-react';
+import { WordToken, StoryNode, MediaAsset, Job, TranscriptEdit, ProjectSpeaker } from '../../../../shared/types';
+import { toFrameRate, secondsToTimecode, snapRangeToFrames } from '../../../../shared/timecode';
+import { COUPLER_GAP, SATELLITE_SIZE, SPINE_SIZE } from '../../../../shared/layout';
+import Waveform from '../Waveform';
+import TranscriptHistory from './TranscriptHistory';
+import TranscriptSpeakers from './TranscriptSpeakers';
+import { speakerColor } from '../../utils/speakers';
+
+// Same footprint and gap as nodes dropped from the Media Library
+const BUCKET_NODE = { x: -1000, y: 0, ...SATELLITE_SIZE };
+
+const EDITED_SOURCE_TYPE = 'EDITED';
+const SYNC_NUDGE_FRAMES = 1;
+const SYNC_NUDGE_FRAMES_COARSE = 10; // With Shift
 
 interface WordChipProps {
   word: WordToken;
   status: 'ACTIVE' | 'GHOST' | 'SELECTED';
+  focused?: boolean;
+  color?: string; // Speaker colour, as an underline
+  chipRef?: React.Ref<HTMLSpanElement>;
   onClick: () => void;
+  onDoubleClick: () => void;
   onDragStart: () => void;
   onDragEnter: () => void;
 }
 
-const WordChip: React.FC<WordChipProps> = ({ word, status, onClick, onDragStart, onDragEnter }) => {
+const WordChip: React.FC<WordChipProps> = ({
+  word,
+  status,
+  focused,
+  color,
+  chipRef,
+  onClick,
+  onDoubleClick,
+  onDragStart,
+  onDragEnter,
+}) => {
   const getStatusStyles = () => {
     switch (status) {
       case 'ACTIVE':
@@ -25,11 +53,16 @@ const WordChip: React.FC<WordChipProps> = ({ word, status, onClick, onDragStart,
 
   return (
     <span
-      className={`px-2 py-1 rounded-md text-sm font-mono cursor-pointer transition-all duration-150 ${getStatusStyles()}`}
+      ref={chipRef}
+      className={`px-2 py-1 rounded-md text-sm font-mono cursor-pointer transition-all duration-150 ${getStatusStyles()} ${
+        focused ? 'ring-2 ring-accent-amber' : ''
+      }`}
       onClick={onClick}
+      onDoubleClick={onDoubleClick}
       onMouseDown={onDragStart}
       onMouseEnter={onDragEnter}
-      title={`[${word.start.toFixed(2)} - ${word.end.toFixed(2)}]`}
+      style={color ? { boxShadow: `inset 0 -2px 0 ${color}` } : undefined}
+      title={`[${word.start.toFixed(2)} - ${word.end.toFixed(2)}]${word.speaker ? ` ${word.speaker}` : ''}`}
     >
       {word.text}
     </span>
@@ -37,35 +70,153 @@ const WordChip: React.FC<WordChipProps> = ({ word, status, onClick, onDragStart,
 };
 
 interface WordHighlighterProps {
-  node: StoryNode;
+  node?: StoryNode; // Unset when an asset is opened on its own (e.g. from search)
+  asset?: MediaAsset;
+  canvasId?: string; // Canvas for new nodes when there is no node
+  focusTime?: number; // Word to scroll to and mark, in seconds
+  onSeek?: (time: number) => void;
+  onNodeCreated?: () => void; // Canvas reload after a range becomes a node
 }
 
-const WordHighlighter: React.FC<WordHighlighterProps> = ({ node }) => {
+/**
+ * Phase 7: Word Highlighter
+ *
+ * Click a word to seek the player; drag across words to select a range, then
+ * send it to the Bucket or append it after the selected spine node as a new
+ * clip of the same asset. Selected words can also be corrected (retyped,
+ * merged, split, deleted) or given a speaker; timing is kept word for word
+ * where the count is unchanged and shared out across the run otherwise.
+ * Words are underlined in their speaker's colour; filtering to one speaker
+ * shows only their lines.
+ */
+const WordHighlighter: React.FC<WordHighlighterProps> = ({
+  node,
+  asset,
+  canvasId,
+  focusTime,
+  onSeek,
+  onNodeCreated,
+}) => {
   const [words, setWords] = useState<WordToken[]>([]);
   const [selection, setSelection] = useState<[number, number] | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [transcribeProgress, setTranscribeProgress] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [sourceType, setSourceType] = useState<string | null>(null);
+  const [syncOffset, setSyncOffset] = useState(0); // Frames at the asset's rate
+  const [projectSpeakers, setProjectSpeakers] = useState<ProjectSpeaker[]>([]);
+  const [speakerFilter, setSpeakerFilter] = useState<string | null>(null);
+  const [editMode, setEditMode] = useState<'TEXT' | 'SPEAKER' | null>(null);
+  const [editText, setEditText] = useState('');
   const selectionStartWord = useRef<WordToken | null>(null);
+  const focusedWordRef = useRef<HTMLSpanElement | null>(null);
+  const assetId = node?.asset_id ?? asset?.id;
+  const targetCanvasId = node?.canvas_id ?? canvasId;
+  const projectId = asset?.project_id;
+
+  const fetchTranscript = useCallback(async () => {
+    if (!assetId) {
+      setWords([]);
+      return;
+    }
+    const transcript = await window.electronAPI.transcriptGetForAsset(assetId);
+    setWords(transcript ? transcript.word_map_json : []);
+    setSourceType(transcript?.source_type ?? null);
+    setSyncOffset(transcript?.sync_offset_frames ?? 0);
+  }, [assetId]);
+
+  const fetchSpeakers = useCallback(async () => {
+    setProjectSpeakers(projectId ? await window.electronAPI.transcriptListSpeakers(projectId) : []);
+  }, [projectId]);
 
   useEffect(() => {
-    const fetchTranscript = async () => {
-      if (node) {
-        const result = await window.electronAPI.transcriptGetForNode(node.id);
-        if (result) {
-          setWords(result.transcript.word_map_json);
-        } else {
-          setWords([]);
-        }
+    fetchTranscript();
+    setSelection(null);
+    setEditMode(null);
+    setSpeakerFilter(null);
+  }, [fetchTranscript]);
+
+  useEffect(() => {
+    fetchSpeakers();
+  }, [fetchSpeakers]);
+
+  useEffect(() => {
+    focusedWordRef.current?.scrollIntoView({ block: 'center' });
+  }, [focusTime, words]);
+
+  // Transcription runs as a background job; reload the word map when it lands
+  useEffect(() => {
+    if (!assetId) return;
+    setTranscribeProgress(null);
+
+    const trackTranscript = (job: Job) => {
+      if (job.type !== 'transcript' || job.payload.assetId !== assetId) return;
+      if (job.status === 'queued' || job.status === 'running') {
+        setTranscribeProgress(job.progress);
+        return;
       }
+      setTranscribeProgress(null);
+      setError(job.status === 'failed' ? job.error || 'Transcription failed' : null);
+      if (job.status === 'done') fetchTranscript();
     };
-    fetchTranscript();
-  }, [node]);
+
+    const unsubscribeProgress = window.electronAPI.onJobProgress(trackTranscript);
+    const unsubscribeDone = window.electronAPI.onJobDone(trackTranscript);
+    return () => {
+      unsubscribeProgress();
+      unsubscribeDone();
+    };
+  }, [assetId, fetchTranscript]);
+
+  // Format is detected from the file's content, not its extension
+  const handleImport = async () => {
+    if (!assetId) return;
+    const overwriteEdits =
+      sourceType === EDITED_SOURCE_TYPE &&
+      window.confirm('This transcript has corrections. Replace it with the imported file? (It stays in History.)');
+    if (sourceType === EDITED_SOURCE_TYPE && !overwriteEdits) return;
+
+    const filePath = await window.electronAPI.selectFile([
+      { name: 'Transcripts', extensions: ['srt', 'vtt', 'json'] },
+      { name: 'All Files', extensions: ['*'] },
+    ]);
+    if (!filePath) return;
+
+    const result = await window.electronAPI.transcriptImport(assetId, filePath, overwriteEdits);
+    setError(result.success ? null : result.error || 'Import failed');
+    if (result.success) await fetchTranscript();
+  };
+
+  // First use asks for the whisper.cpp binary and model, then saves them to the project
+  const handleTranscribe = async () => {
+    if (!asset) return;
+    const settings = await window.electronAPI.projectSettingsGet(asset.project_id);
+    if (!settings?.transcription_engine_path || !settings?.transcription_model_path) {
+      const enginePath = await window.electronAPI.selectFile([{ name: 'whisper.cpp (whisper-cli)', extensions: ['*'] }]);
+      if (!enginePath) return;
+      const modelPath = await window.electronAPI.selectFile([
+        { name: 'Whisper Models', extensions: ['bin'] },
+        { name: 'All Files', extensions: ['*'] },
+      ]);
+      if (!modelPath) return;
+      await window.electronAPI.projectSettingsUpdate(asset.project_id, {
+        transcription_engine_path: enginePath,
+        transcription_model_path: modelPath,
+      });
+    }
+
+    const result = await window.electronAPI.transcriptTranscribe(asset.project_id, [asset.id]);
+    setError(result.error || null);
+    if (result.queued > 0) setTranscribeProgress(0);
+  };
 
   const handleSeek = (time: number) => {
-    // Implement seek functionality if a video player is available
-    console.log(`Seek to: ${time}`);
+    onSeek?.(time);
   };
 
   const handleSelectionStart = (word: WordToken) => {
+    setEditMode(null);
     setIsDragging(true);
     selectionStartWord.current = word;
     setSelection([word.start, word.end]);
@@ -81,44 +232,353 @@ const WordHighlighter: React.FC<WordHighlighterProps> = ({ node }) => {
 
   const handleSelectionEnd = () => {
     setIsDragging(false);
-    if (selection) {
-      const [newIn, newOut] = selection;
-      // window.electron.ipcRenderer.invoke('node:update', node.id, { clip_in: newIn, clip_out: newOut });
-      console.log(`New trim for node ${node.id}: ${newIn} - ${newOut}`);
-    }
     selectionStartWord.current = null;
   };
 
+  const rate = toFrameRate(asset?.fps || 24);
+  // Whole frames: in on the first word's frame, out on the boundary after the last word
+  const range = selection ? snapRangeToFrames(selection[0], selection[1], rate) : null;
+  const canAppend = node?.type === 'SPINE' && !!node.canvas_id;
+  const selectedWords = selection ? words.filter(w => w.start >= selection[0] && w.end <= selection[1]) : [];
+  const speakerNames = projectSpeakers.map(s => s.name);
+  const speakers = Array.from(new Set([...words.map(w => w.speaker).filter(Boolean), ...speakerNames])) as string[];
+  const assetSpeakers = Array.from(new Set(words.map(w => w.speaker).filter(Boolean))) as string[];
+  // Editing applies to every word in the run, including ones the filter hides
+  const selectionHasHiddenWords = !!speakerFilter && selectedWords.some(w => w.speaker !== speakerFilter);
+
+  const startEdit = (mode: 'TEXT' | 'SPEAKER', editWords: WordToken[] = selectedWords) => {
+    if (editWords.length === 0) return;
+    setEditMode(mode);
+    setEditText(mode === 'TEXT' ? editWords.map(w => w.text).join(' ') : editWords[0].speaker || '');
+  };
+
+  const handleApplyEdit = async () => {
+    if (!assetId || !editMode || selectedWords.length === 0) return;
+    const fromId = selectedWords[0].id;
+    const toId = selectedWords[selectedWords.length - 1].id;
+    const edit: TranscriptEdit =
+      editMode === 'TEXT'
+        ? { type: 'REPLACE', fromId, toId, text: editText }
+        : { type: 'SPEAKER', fromId, toId, speaker: editText || null };
+
+    const result = await window.electronAPI.transcriptEdit(assetId, edit);
+    if (!result.success || !result.words) {
+      setError(result.error || 'Edit failed');
+      return;
+    }
+    setWords(result.words);
+    setSourceType(EDITED_SOURCE_TYPE);
+    setEditMode(null);
+    setSelection(null);
+    setError(null);
+    if (edit.type === 'SPEAKER') fetchSpeakers();
+  };
+
+  // Slide the words against the picture, for audio from a separate recorder
+  const handleSyncNudge = async (offsetFrames: number) => {
+    if (!assetId) return;
+    const result = await window.electronAPI.transcriptSetSyncOffset(assetId, offsetFrames);
+    if (!result.success || !result.words) {
+      setError(result.error || 'Could not change sync');
+      return;
+    }
+    setWords(result.words);
+    setSyncOffset(offsetFrames);
+    setSelection(null);
+    setError(null);
+  };
+
+  const handleWordDoubleClick = (word: WordToken) => {
+    setSelection([word.start, word.end]);
+    startEdit('TEXT', [word]);
+  };
+
+  /**
+   * New node for the selected range, dropped in the Bucket or coupled after
+   * this spine node. An existing APPEND child moves behind the new node, as
+   * when media is dropped on a coupler.
+   */
+  const handleCreateNode = async (target: 'BUCKET' | 'APPEND') => {
+    if (!range || !assetId || !targetCanvasId) return;
+    const [clipIn, clipOut] = range;
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const newNode: Omit<StoryNode, 'id'> = {
+        asset_id: assetId,
+        type: target === 'APPEND' || asset?.media_type === 'DIALOGUE' ? 'SPINE' : 'SATELLITE',
+        subtype: (node?.subtype ?? asset?.media_type) === 'MUSIC' ? 'MUSIC' : 'VIDEO',
+        is_global: false,
+        clip_in: clipIn,
+        clip_out: clipOut,
+        ...(target === 'BUCKET'
+          ? BUCKET_NODE
+          : { x: (node?.x || 0) + (node?.width || SPINE_SIZE.width) + COUPLER_GAP, y: node?.y || 0, ...SPINE_SIZE }),
+      };
+      const createdNode = await window.electronAPI.nodeCreate(targetCanvasId, newNode);
+
+      if (target === 'APPEND' && node) {
+        const validation = await window.electronAPI.nodeValidateAnchor(createdNode.id, node.id, 'APPEND');
+        const linkResult = validation.valid
+          ? await window.electronAPI.nodeLink(createdNode.id, node.id, 'APPEND')
+          : { success: false, error: validation.reason };
+        if (!linkResult.success) {
+          await window.electronAPI.nodeDelete(createdNode.id);
+          throw new Error(linkResult.error || 'Could not append to this node');
+        }
+        // Butt-joined: the new clip starts where this one ends
+        await window.electronAPI.nodeUpdateDrift(createdNode.id, 0, 0);
+
+        const existingNodes: StoryNode[] = await window.electronAPI.nodeList(targetCanvasId);
+        const existingChild = existingNodes.find(
+          n => n.anchor_id === node.id && n.connection_mode === 'APPEND' && n.id !== createdNode.id
+        );
+        if (existingChild) {
+          await window.electronAPI.nodeLink(existingChild.id, createdNode.id, 'APPEND');
+        }
+      }
+
+      setSelection(null);
+      onNodeCreated?.();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
   if (!words.length) {
     return (
       <div className="p-4 text-center text-text-tertiary">
-        <p>No transcript data for this node.</p>
-        <button className="mt-2 btn-secondary text-sm">Import SRT</button>
+        <p>No transcript data for this {node ? 'node' : 'asset'}.</p>
+        {assetId && (
+          <div className="mt-2 flex justify-center gap-2">
+            <button onClick={handleImport} className="btn-secondary text-sm inline-flex items-center gap-2">
+              <FileText size={14} />
+              Import Transcript
+            </button>
+            {asset?.media_type === 'DIALOGUE' && (
+              <button
+                onClick={handleTranscribe}
+                disabled={transcribeProgress !== null}
+                className="btn-secondary text-sm inline-flex items-center gap-2 disabled:opacity-50"
+              >
+                <AudioLines size={14} />
+                {transcribeProgress !== null ? `Transcribing ${transcribeProgress}%` : 'Transcribe'}
+              </button>
+            )}
+          </div>
+        )}
+        <p className="mt-1 text-xs">SRT, WebVTT or word-level JSON, or a local whisper.cpp engine</p>
+        {error && <p className="mt-2 text-xs text-accent-red">{error}</p>}
       </div>
     );
   }
 
   return (
-    <div
-      className="flex flex-wrap gap-1.5 p-4 bg-surface-high font-inter select-none"
-      onMouseUp={handleSelectionEnd}
-      onMouseLeave={handleSelectionEnd}
-    >
-      {words.map((word) => {
-        const isSelected = selection && word.start >= selection[0] && word.end <= selection[1];
-        const isActive = !isSelected && node.clip_in !== undefined && node.clip_out !== undefined && word.start >= node.clip_in && word.end <= node.clip_out;
-
-        return (
-          <WordChip
-            key={word.id}
-            word={word}
-            status={isSelected ? 'SELECTED' : isActive ? 'ACTIVE' : 'GHOST'}
-            onClick={() => handleSeek(word.start)}
-            onDragStart={() => handleSelectionStart(word)}
-            onDragEnter={() => handleSelectionExtend(word)}
+    <div className="bg-surface-high">
+      {assetId && (
+        <div className="flex items-center gap-2 px-4 pt-3 text-xs">
+          <span className={sourceType === EDITED_SOURCE_TYPE ? 'text-accent-amber' : 'text-text-tertiary'}>
+            {sourceType === EDITED_SOURCE_TYPE ? 'Corrected' : sourceType} · {words.length} words
+          </span>
+          <div className="flex-1" />
+          {assetSpeakers.length > 1 && (
+            <select
+              value={speakerFilter ?? ''}
+              onChange={e => {
+                setSpeakerFilter(e.target.value || null);
+                setSelection(null);
+                setEditMode(null);
+              }}
+              className="input text-xs py-0.5"
+              title="Show one speaker's lines"
+            >
+              <option value="">All speakers</option>
+              {assetSpeakers.map(speaker => (
+                <option key={speaker} value={speaker}>
+                  {speaker}
+                </option>
+              ))}
+            </select>
+          )}
+          {projectId && (
+            <TranscriptSpeakers
+              projectId={projectId}
+              speakers={projectSpeakers}
+              onChanged={() => {
+                fetchTranscript();
+                fetchSpeakers();
+                setSpeakerFilter(null);
+              }}
+            />
+          )}
+          <div className="flex items-center" title="Sync offset in frames (Shift: 10 frames, double-click to reset)">
+            <button
+              onClick={e => handleSyncNudge(syncOffset - (e.shiftKey ? SYNC_NUDGE_FRAMES_COARSE : SYNC_NUDGE_FRAMES))}
+              className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+              title="Words earlier"
+            >
+              <ChevronLeft size={12} />
+            </button>
+            <span
+              onDoubleClick={() => syncOffset !== 0 && handleSyncNudge(0)}
+              className={`timecode w-10 text-center ${syncOffset !== 0 ? 'text-accent-cyan' : 'text-text-tertiary'}`}
+            >
+              {syncOffset > 0 ? '+' : ''}
+              {syncOffset}f
+            </span>
+            <button
+              onClick={e => handleSyncNudge(syncOffset + (e.shiftKey ? SYNC_NUDGE_FRAMES_COARSE : SYNC_NUDGE_FRAMES))}
+              className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+              title="Words later"
+            >
+              <ChevronRight size={12} />
+            </button>
+          </div>
+          <TranscriptHistory
+            assetId={assetId}
+            onRestored={(restoredWords, restoredSourceType) => {
+              setWords(restoredWords);
+              setSourceType(restoredSourceType);
+              setSelection(null);
+              setEditMode(null);
+              fetchSpeakers();
+            }}
           />
-        );
-      })}
+          <button onClick={handleImport} className="btn-ghost inline-flex items-center gap-1" title="Replace from an SRT, WebVTT or JSON file">
+            <FileText size={12} /> Re-import
+          </button>
+        </div>
+      )}
+      {assetId && (
+        <Waveform
+          assetId={assetId}
+          clipIn={node?.clip_in || 0}
+          clipOut={node?.clip_out ?? words[words.length - 1].end}
+          color="#A855F7"
+          className="h-10 mx-4 mt-4 bg-void-dark rounded"
+        />
+      )}
+      <div
+        className="flex flex-wrap gap-1.5 p-4 bg-surface-high font-inter select-none"
+        onMouseUp={handleSelectionEnd}
+        onMouseLeave={handleSelectionEnd}
+      >
+        {words.map((word, index) => {
+          if (speakerFilter && word.speaker !== speakerFilter) return null;
+          // A filtered view starts a new turn after every hidden stretch
+          const afterHidden = !!speakerFilter && index > 0 && words[index - 1].speaker !== speakerFilter;
+          const speakerChanged = !!word.speaker && (afterHidden || word.speaker !== words[index - 1]?.speaker);
+          const isSelected = selection && word.start >= selection[0] && word.end <= selection[1];
+          const isActive =
+            !isSelected &&
+            (!node ||
+              (node.clip_in !== undefined && node.clip_out !== undefined && word.start >= node.clip_in && word.end <= node.clip_out));
+          const isFocused = focusTime !== undefined && focusTime >= word.start && focusTime < word.end;
+
+          return (
+            <React.Fragment key={word.id}>
+              {speakerChanged && (
+                <span
+                  className="basis-full mt-1 text-[10px] font-semibold uppercase tracking-wide"
+                  style={{ color: speakerColor(word.speaker!, speakerNames) }}
+                >
+                  {word.speaker}
+                  {afterHidden && <span className="ml-2 font-mono normal-case text-text-tertiary">{word.start.toFixed(1)}s</span>}
+                </span>
+              )}
+              <WordChip
+                word={word}
+                status={isSelected ? 'SELECTED' : isActive ? 'ACTIVE' : 'GHOST'}
+                focused={isFocused}
+                color={word.speaker ? speakerColor(word.speaker, speakerNames) : undefined}
+                chipRef={isFocused ? focusedWordRef : undefined}
+                onClick={() => handleSeek(word.start)}
+                onDoubleClick={() => handleWordDoubleClick(word)}
+                onDragStart={() => handleSelectionStart(word)}
+                onDragEnter={() => handleSelectionExtend(word)}
+              />
+            </React.Fragment>
+          );
+        })}
+      </div>
+      {range && !isDragging && editMode && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-void-gray text-xs">
+          {editMode === 'TEXT' ? <Pencil size={12} className="text-text-tertiary shrink-0" /> : <UserRound size={12} className="text-text-tertiary shrink-0" />}
+          <input
+            autoFocus
+            value={editText}
+            onChange={e => setEditText(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleApplyEdit();
+              if (e.key === 'Escape') setEditMode(null);
+            }}
+            list={editMode === 'SPEAKER' ? 'transcript-speakers' : undefined}
+            placeholder={editMode === 'TEXT' ? 'Corrected words (empty deletes them)' : 'Speaker (empty clears it)'}
+            className="input flex-1 text-xs"
+          />
+          <datalist id="transcript-speakers">
+            {speakers.map(speaker => (
+              <option key={speaker} value={speaker} />
+            ))}
+          </datalist>
+          <button onClick={handleApplyEdit} className="btn-ghost" title="Apply (Enter)">
+            <Check size={12} />
+          </button>
+          <button onClick={() => setEditMode(null)} className="btn-ghost" title="Cancel (Esc)">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+      {range && !isDragging && !editMode && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-void-gray text-xs">
+          <span className="timecode text-text-secondary">
+            {secondsToTimecode(range[0], rate, false, asset?.start_tc)} – {secondsToTimecode(range[1], rate, false, asset?.start_tc)}
+          </span>
+          <span className="text-text-tertiary">{(range[1] - range[0]).toFixed(2)}s</span>
+          <div className="flex-1" />
+          <button
+            onClick={() => startEdit('TEXT')}
+            disabled={selectionHasHiddenWords}
+            className="btn-ghost disabled:opacity-50"
+            title={selectionHasHiddenWords ? 'The selection includes hidden speakers' : 'Correct the selected words (or double-click a word)'}
+          >
+            <Pencil size={12} />
+          </button>
+          <button
+            onClick={() => startEdit('SPEAKER')}
+            disabled={selectionHasHiddenWords}
+            className="btn-ghost disabled:opacity-50"
+            title={selectionHasHiddenWords ? 'The selection includes hidden speakers' : 'Set the speaker of the selected words'}
+          >
+            <UserRound size={12} />
+          </button>
+          <button
+            onClick={() => handleCreateNode('BUCKET')}
+            disabled={isCreating}
+            className="btn-ghost inline-flex items-center gap-1 disabled:opacity-50"
+            title="New node from the selected words, in the Bucket"
+          >
+            <Archive size={12} /> To Bucket
+          </button>
+          {canAppend && (
+            <button
+              onClick={() => handleCreateNode('APPEND')}
+              disabled={isCreating}
+              className="btn-ghost inline-flex items-center gap-1 disabled:opacity-50"
+              title="New node from the selected words, appended after this spine node"
+            >
+              <ArrowRightToLine size={12} /> Append
+            </button>
+          )}
+          <button onClick={() => setSelection(null)} className="btn-ghost" title="Clear selection">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+      {error && <p className="px-4 pb-2 text-xs text-accent-red">{error}</p>}
     </div>
   );
 };
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ListChecks, X, RotateCcw, Trash2, CheckCircle2, XCircle, Loader2, Clock } from 'lucide-react';
+import { Job } from '../../../shared/types';
+
+interface JobsPanelProps {
+  projectId: string;
+}
+
+const JOB_LABELS: Record<Job['type'], string> = {
+  import: 'Import',
+  probe: 'Probe',
+  proxy: 'Proxy',
+  thumbnail: 'Thumbnails',
+  waveform: 'Waveform',
+  transcript: 'Transcribe',
+  'multicam-sync': 'Multicam sync',
+};
+
+const jobSubject = (job: Job): string => {
+  const filePath: string | undefined = job.payload.filePath || job.result?.file_path;
+  if (filePath) return filePath.split(/[\\/]/).pop() || filePath;
+  const assetId = job.payload.assetId || job.payload.multicamMediaId;
+  return assetId ? String(assetId).slice(0, 8) : job.id.slice(0, 8);
+};
+
+/**
+ * Background jobs: header button with the active count and a dropdown list
+ *
+ * Mirrors the main-process queue through job:progress / job:done, so it
+ * stays current for jobs started anywhere in the app.
+ */
+const JobsPanel: React.FC<JobsPanelProps> = ({ projectId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  const loadJobs = useCallback(async () => {
+    setJobs(await window.electronAPI.jobList(projectId));
+  }, [projectId]);
+
+  useEffect(() => {
+    loadJobs();
+
+    const upsert = (job: Job) => {
+      if (job.project_id !== projectId) return;
+      setJobs(prev => {
+        const index = prev.findIndex(j => j.id === job.id);
+        if (index === -1) return [job, ...prev];
+        const next = [...prev];
+        next[index] = job;
+        return next;
+      });
+    };
+
+    const unsubscribeProgress = window.electronAPI.onJobProgress(upsert);
+    const unsubscribeDone = window.electronAPI.onJobDone(upsert);
+    return () => {
+      unsubscribeProgress();
+      unsubscribeDone();
+    };
+  }, [projectId, loadJobs]);
+
+  const activeCount = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const finishedCount = jobs.length - activeCount;
+
+  const handleClearFinished = async () => {
+    await window.electronAPI.jobClearFinished(projectId);
+    await loadJobs();
+  };
+
+  const statusIcon = (job: Job) => {
+    switch (job.status) {
+      case 'running':
+        return <Loader2 size={14} className="text-accent-indigo animate-spin shrink-0" />;
+      case 'queued':
+        return <Clock size={14} className="text-text-tertiary shrink-0" />;
+      case 'done':
+        return <CheckCircle2 size={14} className="text-accent-green shrink-0" />;
+      default:
+        return <XCircle size={14} className={`${job.status === 'failed' ? 'text-accent-red' : 'text-text-tertiary'} shrink-0`} />;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`btn-ghost text-sm flex items-center gap-2 ${activeCount > 0 ? 'text-accent-indigo' : ''}`}
+        title="Background jobs"
+      >
+        {activeCount > 0 ? <Loader2 size={16} className="animate-spin" /> : <ListChecks size={16} />}
+        Jobs{activeCount > 0 ? ` (${activeCount})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-96 max-h-96 panel rounded-lg shadow-node z-50 flex flex-col">
+          <div className="panel-header">
+            <h4 className="text-xs font-semibold">
+              Jobs — {activeCount} active, {finishedCount} finished
+            </h4>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleClearFinished}
+                disabled={finishedCount === 0}
+                className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded disabled:opacity-50"
+                title="Clear finished jobs"
+              >
+                <Trash2 size={14} />
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+                title="Close"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto py-1">
+            {jobs.length === 0 ? (
+              <p className="px-3 py-4 text-xs text-text-tertiary text-center">No background jobs</p>
+            ) : (
+              jobs.map(job => (
+                <div key={job.id} className="px-3 py-2 flex items-start gap-2 hover:bg-void-gray">
+                  <div className="mt-0.5">{statusIcon(job)}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-text-primary font-medium truncate">
+                        {JOB_LABELS[job.type]} · {jobSubject(job)}
+                      </span>
+                      {job.status === 'running' && (
+                        <span className="text-text-tertiary font-mono">{job.progress}%</span>
+                      )}
+                    </div>
+                    {job.status === 'running' && (
+                      <div className="mt-1 h-1 bg-void-dark rounded-full overflow-hidden">
+                        <div className="h-full bg-accent-indigo transition-all" style={{ width: `${job.progress}%` }} />
+                      </div>
+                    )}
+                    {(job.error || job.message) && (
+                      <div className={`text-xs break-words mt-0.5 ${job.status === 'failed' ? 'text-accent-red' : 'text-text-tertiary'}`}>
+                        {job.status === 'failed' ? job.error : job.message}
+                      </div>
+                    )}
+                  </div>
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button
+                      onClick={() => window.electronAPI.jobCancel(job.id)}
+                      className="p-1 text-text-tertiary hover:text-accent-red transition-colors rounded"
+                      title="Cancel"
+                    >
+                      <X size={12} />
+                    </button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button
+                      onClick={() => window.electronAPI.jobRetry(job.id)}
+                      className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+                      title="Retry"
+                    >
+                      <RotateCcw size={12} />
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
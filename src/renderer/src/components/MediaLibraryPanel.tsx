@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, FileVideo, FileAudio, Music, Layers, PanelLeftClose, PanelRightClose, GripVertical } from 'lucide-react';
-import { MediaAsset } from '../../../shared/types';
+import { Plus, Search, FileVideo, FileAudio, Music, Layers, PanelLeftClose, PanelRightClose, GripVertical, Zap } from 'lucide-react';
+import { MediaAsset, Job } from '../../../shared/types';
+import { useThumbnail } from '../hooks/useThumbnail';
 
 interface MediaLibraryPanelProps {
   projectId?: string;
@@ -8,11 +9,24 @@ interface MediaLibraryPanelProps {
   position?: 'left' | 'right';
 }
 
+// Poster frame for pictures; audio-only assets keep their type icon
+const AssetPoster: React.FC<{ asset: MediaAsset; fallback: React.ReactNode }> = ({ asset, fallback }) => {
+  const url = useThumbnail(asset.media_type === 'MUSIC' ? null : { assetId: asset.id, kind: 'poster' });
+
+  return (
+    <div className="w-16 aspect-video rounded bg-surface-low flex items-center justify-center overflow-hidden flex-shrink-0">
+      {url ? <img src={url} alt="" draggable={false} className="w-full h-full object-cover" /> : fallback}
+    </div>
+  );
+};
+
 const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onToggleCollapse, position = 'left' }) => {
   const [assets, setAssets] = useState<MediaAsset[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<'ALL' | 'BROLL' | 'DIALOGUE' | 'MUSIC' | 'IMAGE' | 'MULTICAM'>('ALL');
   const [loading, setLoading] = useState(false);
+  const [proxyJobs, setProxyJobs] = useState<Record<string, Job>>({});
+  const [pendingImports, setPendingImports] = useState(0);
 
   // Load media assets from database when component mounts
   useEffect(() => {
@@ -21,6 +35,42 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
     }
   }, [projectId]);
 
+  // Imports and proxies run as background jobs; fold their results into the list
+  useEffect(() => {
+    const trackProxy = (job: Job) => {
+      if (job.type === 'proxy' && job.project_id === projectId) {
+        setProxyJobs(prev => ({ ...prev, [job.payload.assetId]: job }));
+      }
+    };
+
+    const unsubscribeProgress = window.electronAPI.onJobProgress(trackProxy);
+    const unsubscribeDone = window.electronAPI.onJobDone(job => {
+      trackProxy(job);
+      if (job.project_id !== projectId) return;
+
+      if (job.type === 'import') {
+        setPendingImports(prev => Math.max(0, prev - 1));
+        if (job.status === 'done' && job.result) {
+          setAssets(prev => [job.result as MediaAsset, ...prev]);
+        }
+      } else if (job.type === 'proxy' && job.status === 'done') {
+        setAssets(prev => prev.map(a => (a.id === job.payload.assetId ? { ...a, proxy_path: job.result?.proxyPath } : a)));
+      }
+    });
+
+    return () => {
+      unsubscribeProgress();
+      unsubscribeDone();
+    };
+  }, [projectId]);
+
+  const handleGenerateProxies = async () => {
+    if (!projectId) return;
+
+    const { queued } = await window.electronAPI.proxyGenerateMissing(projectId);
+    console.log('[Media Library] Queued', queued, 'proxies');
+  };
+
   const loadMediaAssets = async () => {
     if (!projectId) return;
 
@@ -53,27 +103,23 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
       }
 
       console.log('[Media Library] Importing', filePaths.length, 'files...');
-      setLoading(true);
-
-      // Import files via IPC
-      const importedAssets = await window.electronAPI.mediaImport(projectId, filePaths);
 
-      // Update state with new assets
-      setAssets((prev) => [...importedAssets, ...prev]);
+      // Each file becomes an import job; assets appear as their jobs finish
+      const jobs = await window.electronAPI.mediaImport(projectId, filePaths);
+      setPendingImports(prev => prev + jobs.length);
 
-      console.log('[Media Library] Successfully imported', importedAssets.length, 'assets');
+      console.log('[Media Library] Queued', jobs.length, 'import jobs');
     } catch (error) {
       console.error('[Media Library] Import failed:', error);
       alert('Failed to import media files. Check console for details.');
-    } finally {
-      setLoading(false);
     }
   };
 
   const filteredAssets = assets.filter((asset) => {
-    const matchesSearch = asset.clean_name
-      .toLowerCase()
-      .includes(searchQuery.toLowerCase());
+    // Search also covers the probed codec, reel and camera columns
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = [asset.clean_name, asset.video_codec, asset.reel_name, asset.camera_model]
+      .some(value => value?.toLowerCase().includes(query));
     const matchesType = filterType === 'ALL' || asset.media_type === filterType;
     return matchesSearch && matchesType;
   });
@@ -137,14 +183,24 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
             <h3 className="text-sm font-semibold text-text-primary">Media Library</h3>
           </div>
         </div>
-        <button
-          onClick={handleImport}
-          disabled={loading || !projectId}
-          className="text-accent-indigo hover:text-indigo-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          title={loading ? 'Importing...' : 'Import Media'}
-        >
-          <Plus size={18} />
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleGenerateProxies}
+            disabled={!projectId}
+            className="text-text-tertiary hover:text-accent-amber transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Generate missing proxies"
+          >
+            <Zap size={16} />
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={loading || !projectId}
+            className="text-accent-indigo hover:text-indigo-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={loading ? 'Importing...' : 'Import Media'}
+          >
+            <Plus size={18} />
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -158,7 +214,7 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search media..."
+            placeholder="Search name, codec, reel..."
             className="w-full pl-9 pr-3 py-2 bg-void-dark border border-void-gray rounded-lg text-sm text-text-primary placeholder-text-tertiary focus:outline-none focus:ring-2 focus:ring-accent-indigo focus:border-transparent"
           />
         </div>
@@ -216,9 +272,10 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
               >
                 {/* Asset Header */}
                 <div className="flex items-start gap-2 mb-2">
-                  <div className={`mt-0.5 ${getTypeColor(asset.media_type)}`}>
-                    {getTypeIcon(asset.media_type)}
-                  </div>
+                  <AssetPoster
+                    asset={asset}
+                    fallback={<div className={getTypeColor(asset.media_type)}>{getTypeIcon(asset.media_type)}</div>}
+                  />
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-text-primary truncate group-hover:text-accent-indigo transition-colors">
                       {asset.clean_name}
@@ -260,6 +317,19 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
                       {asset.format}
                     </span>
                   )}
+                  {proxyJobs[asset.id] && ['queued', 'running'].includes(proxyJobs[asset.id].status) ? (
+                    <span className="badge bg-accent-amber bg-opacity-20 text-accent-amber text-[10px]">
+                      PROXY {proxyJobs[asset.id].progress}%
+                    </span>
+                  ) : proxyJobs[asset.id]?.status === 'failed' ? (
+                    <span className="badge bg-accent-red bg-opacity-20 text-accent-red text-[10px]" title={proxyJobs[asset.id].error || undefined}>
+                      PROXY FAILED
+                    </span>
+                  ) : asset.proxy_path ? (
+                    <span className="badge bg-accent-amber bg-opacity-20 text-accent-amber text-[10px]">
+                      PROXY
+                    </span>
+                  ) : null}
                 </div>
               </div>
             ))}
@@ -272,6 +342,7 @@ const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ projectId, onTogg
         <p className="text-xs text-text-tertiary">
           {filteredAssets.length} {filteredAssets.length === 1 ? 'asset' : 'assets'}
           {filterType !== 'ALL' && ` · ${filterType}`}
+          {pendingImports > 0 && ` · importing ${pendingImports}`}
         </p>
       </div>
     </div>
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X, CheckCircle2, AlertTriangle, XCircle, Play } from 'lucide-react';
+import { PaperEditPassage, PaperEditCandidate } from '../../../shared/types';
+
+interface PaperEditReportModalProps {
+  fileName: string;
+  passages: PaperEditPassage[];
+  canvasId?: string; // Unset when nothing matched and no canvas was created
+  onOpenCanvas: (canvasId: string) => void;
+  onClose: () => void;
+}
+
+const formatOffset = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+const STATUS_ICONS: Record<PaperEditPassage['status'], React.ReactNode> = {
+  MATCHED: <CheckCircle2 size={14} className="text-accent-green mt-0.5 shrink-0" />,
+  AMBIGUOUS: <AlertTriangle size={14} className="text-accent-amber mt-0.5 shrink-0" />,
+  UNMATCHED: <XCircle size={14} className="text-accent-red mt-0.5 shrink-0" />,
+};
+
+/**
+ * Phase 7: Paper edit import report
+ *
+ * One row per soundbite in script order. Ambiguous passages were placed with
+ * their best take; picking another take swaps the node's clip. Unmatched
+ * passages show the closest transcript text so they can be found by hand.
+ */
+const PaperEditReportModal: React.FC<PaperEditReportModalProps> = ({
+  fileName,
+  passages,
+  canvasId,
+  onOpenCanvas,
+  onClose,
+}) => {
+  // Take in use per passage (index into its candidates)
+  const [chosen, setChosen] = useState<Record<number, number>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const matched = passages.filter(p => p.status === 'MATCHED').length;
+  const ambiguous = passages.filter(p => p.status === 'AMBIGUOUS').length;
+  const unmatched = passages.filter(p => p.status === 'UNMATCHED').length;
+
+  const handleChoose = async (passageIndex: number, candidate: PaperEditCandidate, candidateIndex: number) => {
+    const nodeId = passages[passageIndex].nodeId;
+    if (!nodeId) return;
+    try {
+      await window.electronAPI.nodeUpdate(nodeId, {
+        asset_id: candidate.assetId,
+        clip_in: candidate.start,
+        clip_out: candidate.end,
+      });
+      setChosen({ ...chosen, [passageIndex]: candidateIndex });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change the take');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70">
+      <div className="panel rounded-lg w-full max-w-2xl mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="panel-header">
+          <div>
+            <h2 className="text-lg font-semibold text-text-primary">Paper Edit — {fileName}</h2>
+            <p className="text-xs text-text-secondary">
+              {matched} matched · {ambiguous} ambiguous · {unmatched} unmatched
+            </p>
+          </div>
+          <button onClick={onClose} className="text-text-tertiary hover:text-text-primary transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-1">
+          {passages.map((passage, passageIndex) => {
+            const inUse = passage.status === 'UNMATCHED' ? -1 : chosen[passageIndex] ?? 0;
+            const listed = passage.status === 'MATCHED' ? passage.candidates.slice(0, 1) : passage.candidates;
+
+            return (
+              <div key={`${passage.line}-${passageIndex}`} className="px-4 py-3 flex items-start gap-2 border-b border-void-gray">
+                {STATUS_ICONS[passage.status]}
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="flex items-center gap-2 text-text-tertiary">
+                    <span>Line {passage.line}</span>
+                    {passage.speaker && <span className="text-accent-purple">{passage.speaker}</span>}
+                  </div>
+                  <p className="text-text-primary mt-0.5">“{passage.text}”</p>
+
+                  {passage.status === 'UNMATCHED' && (
+                    <p className="text-text-tertiary mt-1">
+                      {listed.length > 0 ? 'Closest in the transcripts:' : 'No transcript shares these words'}
+                    </p>
+                  )}
+                  {listed.map((candidate, candidateIndex) => (
+                    <div
+                      key={`${candidate.assetId}-${candidate.start}`}
+                      className={`mt-1 px-2 py-1 rounded flex items-start gap-2 ${
+                        candidateIndex === inUse ? 'bg-accent-indigo bg-opacity-20' : 'bg-void-dark'
+                      }`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-text-primary font-medium truncate">{candidate.assetName}</span>
+                          {candidate.speaker && <span className="text-accent-purple shrink-0">{candidate.speaker}</span>}
+                          <span className="font-mono text-text-tertiary shrink-0">{formatOffset(candidate.start)}</span>
+                          <span className="ml-auto text-text-tertiary shrink-0">{Math.round(candidate.score * 100)}%</span>
+                        </div>
+                        <p className="text-text-secondary truncate">{candidate.text}</p>
+                      </div>
+                      {passage.status === 'AMBIGUOUS' && candidateIndex !== inUse && (
+                        <button
+                          onClick={() => handleChoose(passageIndex, candidate, candidateIndex)}
+                          className="btn-ghost text-xs shrink-0"
+                          title="Use this take for the node"
+                        >
+                          Use
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="px-4 py-2 text-xs text-accent-red">{error}</p>}
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-void-gray">
+          <button onClick={onClose} className="btn-ghost text-sm">
+            Close
+          </button>
+          {canvasId && (
+            <button onClick={() => onOpenCanvas(canvasId)} className="btn-primary text-sm flex items-center gap-2">
+              <Play size={14} /> Open Canvas
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaperEditReportModal;
@@ -1,7 +1,10 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Eye, EyeOff, Volume2, VolumeX, Magnet, Maximize2, Minimize2, Scissors, RefreshCw } from 'lucide-react';
-import { StoryNode, MediaAsset } from '../../../shared/types';
-import { computeAbsolutePositions, PIXELS_PER_SECOND } from '../utils/topology';
+import { StoryNode, MediaAsset, Canvas, FlattenedClip } from '../../../shared/types';
+import { PIXELS_PER_SECOND } from '../utils/topology';
+import { assetHasAudio } from '../utils/media';
+import { FrameRate, toFrameRate, framesToTimecode, framesToSeconds, secondsToFrames } from '../../../shared/timecode';
+import Waveform from './Waveform';
 
 interface TimelineViewProps {
   canvasId: string;
@@ -20,8 +23,14 @@ interface Clip {
   outPoint: number; // frames from original media end
   color: string;
   nodeId?: string; // Reference to story node
+  assetId?: string; // Set when the source has audio, for the waveform
+  sourceIn: number; // Seconds into the source (clip_in)
+  sourceOut: number; // Seconds into the source
 }
 
+// Ruler label spacing in seconds of timecode
+const RULER_INTERVAL_SECONDS = 5;
+
 interface Track {
   id: string;
   name: string;
@@ -41,20 +50,32 @@ const TimelineView: React.FC<TimelineViewProps> = ({ canvasId, projectId, isFull
 
   const [clips, setClips] = useState<Clip[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [timebase, setTimebase] = useState<{ rate: FrameRate; dropFrame: boolean }>({
+    rate: toFrameRate(24),
+    dropFrame: false,
+  });
+  const [totalFrames, setTotalFrames] = useState(0);
 
   const [playheadPosition, _setPlayheadPosition] = useState(0);
   const [magneticSnap, setMagneticSnap] = useState(true);
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
 
-  // Load timeline data from story graph
+  // Load timeline data from the flattened story graph
   const loadTimelineData = useCallback(async () => {
     if (!canvasId) return;
 
     setIsLoading(true);
     try {
-      // Load story nodes
-      const storyNodes: StoryNode[] = await window.electronAPI.nodeList(canvasId);
-      const computedNodes = computeAbsolutePositions(storyNodes);
+      // The main-process flattening solver is the single source of truth for placement
+      const [flattened, storyNodes, canvas]: [FlattenedClip[], StoryNode[], Canvas | null] = await Promise.all([
+        window.electronAPI.timelineFlatten(canvasId),
+        window.electronAPI.nodeList(canvasId),
+        window.electronAPI.canvasGet(canvasId),
+      ]);
+      const rate = toFrameRate(canvas?.FPS || 24);
+      setTimebase({ rate, dropFrame: canvas?.Timecode_mode === 'DROP' });
+      setTotalFrames(flattened.reduce((max, flat) => Math.max(max, flat.endFrame), 0));
+      const nodeMap = new Map(storyNodes.map(n => [n.id, n]));
 
       // Load media assets for names
       const mediaAssets: MediaAsset[] = projectId
@@ -62,68 +83,54 @@ const TimelineView: React.FC<TimelineViewProps> = ({ canvasId, projectId, isFull
         : [];
       const assetMap = new Map(mediaAssets.map(a => [a.id, a]));
 
-      // Convert story nodes to timeline clips
-      // The timeline shows a linearized view of the story graph
-      // X position in canvas = timeline position
-
-      // Find the leftmost node position to use as timeline start
-      const minX = Math.min(...computedNodes.map(n => n.x), 0);
-
-      // Group nodes by vertical track (based on drift_y or y position)
-      const nodesByTrack = new Map<number, StoryNode[]>();
-
-      computedNodes.forEach(node => {
-        // Calculate track based on node type and y position
-        let trackIndex = 0;
-        if (node.type === 'SPINE') {
-          trackIndex = 0; // Spine nodes on V1
-        } else {
-          // Satellites based on their vertical position relative to spine
-          const relativeY = node.drift_y || 0;
-          trackIndex = 1 + Math.abs(relativeY);
-        }
+      const framesToPixels = (frames: number) => framesToSeconds(frames, rate) * PIXELS_PER_SECOND;
 
-        if (!nodesByTrack.has(trackIndex)) {
-          nodesByTrack.set(trackIndex, []);
-        }
-        nodesByTrack.get(trackIndex)!.push(node);
-      });
-
-      // Create clips from nodes
-      const newClips: Clip[] = computedNodes.map(node => {
-        const asset = node.asset_id ? assetMap.get(node.asset_id) : undefined;
-        const duration = (node.clip_out || 5) - (node.clip_in || 0);
-        const durationPx = duration * PIXELS_PER_SECOND;
-
-        // Determine track
-        let trackId = 'v1';
-        if (node.type === 'SATELLITE') {
-          const relativeY = node.drift_y || 0;
-          if (relativeY === 0 || relativeY === 1) trackId = 'v2';
-          else trackId = 'v3';
-        }
+      // Convert flattened clips to timeline clips
+      // Video tracks follow the solver's track index (0 = V1 spine); music goes to A1
+      const newClips: Clip[] = flattened.map(flat => {
+        const node = nodeMap.get(flat.nodeId);
+        const asset = node?.asset_id ? assetMap.get(node.asset_id) : undefined;
+        const inFrame = secondsToFrames(node?.clip_in || 0, rate);
+        const durationFrames = flat.endFrame - flat.startFrame;
 
         return {
-          id: node.id,
-          nodeId: node.id,
-          trackId,
+          id: flat.nodeId,
+          nodeId: flat.nodeId,
+          trackId: node?.subtype === 'MUSIC' ? 'a1' : `v${flat.track + 1}`,
           name: asset?.clean_name || asset?.file_name || 'Untitled',
-          start: (node.x - minX), // Normalize to start from 0
-          duration: Math.max(durationPx, 50), // Minimum 50px width
-          inPoint: node.clip_in || 0,
-          outPoint: node.clip_out || duration,
-          color: node.type === 'SPINE' ? '#A855F7' : '#06B6D4',
+          start: framesToPixels(flat.startFrame),
+          duration: Math.max(framesToPixels(durationFrames), 50), // Minimum 50px width
+          inPoint: inFrame,
+          outPoint: inFrame + durationFrames,
+          color: node?.subtype === 'MUSIC' ? '#10B981' : node?.type === 'SPINE' ? '#A855F7' : '#06B6D4',
+          assetId: asset && assetHasAudio(asset) ? asset.id : undefined,
+          sourceIn: node?.clip_in || 0,
+          sourceOut: (node?.clip_in || 0) + framesToSeconds(durationFrames, rate),
         };
       });
 
       setClips(newClips);
 
-      // Update tracks based on used tracks
-      const usedTracks = new Set(newClips.map(c => c.trackId));
-      setTracks(prev => prev.map(track => ({
-        ...track,
-        visible: usedTracks.has(track.id) || track.id === 'v1',
-      })));
+      // Build tracks from the solver output: highest video track on top, audio last
+      const videoTracks = flattened
+        .filter(flat => nodeMap.get(flat.nodeId)?.subtype !== 'MUSIC')
+        .map(flat => flat.track);
+      const minTrack = Math.min(0, ...videoTracks);
+      const maxTrack = Math.max(0, ...videoTracks);
+
+      const newTracks: Track[] = [];
+      for (let t = maxTrack; t >= minTrack; t--) {
+        newTracks.push({
+          id: `v${t + 1}`,
+          name: t === 0 ? 'V1 (Spine)' : t > 0 ? `V${t + 1}` : `Below ${-t}`,
+          type: t === 0 ? 'spine' : 'satellite',
+          visible: true,
+          muted: false,
+          trackIndex: maxTrack - t,
+        });
+      }
+      newTracks.push({ id: 'a1', name: 'A1', type: 'audio', visible: true, muted: false, trackIndex: newTracks.length });
+      setTracks(newTracks);
 
     } catch (error) {
       console.error('[Timeline] Failed to load data:', error);
@@ -146,14 +153,13 @@ const TimelineView: React.FC<TimelineViewProps> = ({ canvasId, projectId, isFull
 
   const timelineRef = useRef<HTMLDivElement>(null);
 
-  // Generate timecode markers
+  // Timecode markers land on whole timecode seconds, so at NTSC rates they
+  // sit a hair after each 5s of wall-clock time
   const markers = Array.from({ length: 40 }, (_, i) => {
-    const seconds = i * 5;
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const frames = i * RULER_INTERVAL_SECONDS * timebase.rate.nominal;
     return {
-      position: i * 100,
-      timecode: `00:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}:00`,
+      position: framesToSeconds(frames, timebase.rate) * PIXELS_PER_SECOND,
+      timecode: framesToTimecode(frames, timebase.rate, timebase.dropFrame),
     };
   });
 
@@ -341,9 +347,9 @@ const TimelineView: React.FC<TimelineViewProps> = ({ canvasId, projectId, isFull
         <div className="flex items-center gap-2 text-xs text-text-tertiary">
           <span className="text-text-secondary">{clips.length} clips</span>
           <span className="text-void-gray">|</span>
-          <span className="timecode">00:00:00:00</span>
+          <span className="timecode">{framesToTimecode(0, timebase.rate, timebase.dropFrame)}</span>
           <span>→</span>
-          <span className="timecode">00:02:30:00</span>
+          <span className="timecode">{framesToTimecode(totalFrames, timebase.rate, timebase.dropFrame)}</span>
         </div>
       </div>
 
@@ -428,8 +434,19 @@ const TimelineView: React.FC<TimelineViewProps> = ({ canvasId, projectId, isFull
                         onMouseDown={(e) => handleClipMouseDown(e, clip.id, 'body')}
                         onClick={() => setSelectedClipId(clip.id)}
                       >
+                        {/* Waveform: full height on audio tracks, lower half under picture */}
+                        {clip.assetId && (
+                          <Waveform
+                            assetId={clip.assetId}
+                            clipIn={clip.sourceIn}
+                            clipOut={clip.sourceOut}
+                            color={track.type === 'audio' ? clip.color : `${clip.color}AA`}
+                            className={`absolute inset-x-0 bottom-0 ${track.type === 'audio' ? 'top-0' : 'h-1/2'}`}
+                          />
+                        )}
+
                         {/* Clip Content */}
-                        <div className="px-2 py-1 text-xs text-text-primary truncate pointer-events-none">
+                        <div className="relative px-2 py-1 text-xs text-text-primary truncate pointer-events-none">
                           {clip.name}
                         </div>
 
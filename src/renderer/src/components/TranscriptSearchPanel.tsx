@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, X, Plus, Loader2 } from 'lucide-react';
+import { TranscriptSearchHit, ProjectSpeaker } from '../../../shared/types';
+import { speakerColor } from '../utils/speakers';
+
+interface TranscriptSearchPanelProps {
+  projectId: string;
+  onOpenHit: (hit: TranscriptSearchHit) => void;
+  onCreateNode: (hit: TranscriptSearchHit) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const formatOffset = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
+
+/**
+ * Transcript search: header button with a dropdown of soundbites
+ *
+ * Searches every transcript in the project as you type. A result opens its
+ * asset in the Inspector at the matched word; + drops the passage around it
+ * into the Bucket as a new node. Picking a speaker keeps only their lines;
+ * with no query it lists everything they say.
+ */
+const TranscriptSearchPanel: React.FC<TranscriptSearchPanelProps> = ({ projectId, onOpenHit, onCreateNode }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<TranscriptSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [speakers, setSpeakers] = useState<ProjectSpeaker[]>([]);
+  const [speaker, setSpeaker] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const speakerNames = speakers.map(s => s.name);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    inputRef.current?.focus();
+    window.electronAPI.transcriptListSpeakers(projectId).then(setSpeakers);
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    if (!query.trim() && !speaker) {
+      setHits([]);
+      return;
+    }
+
+    let active = true;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await window.electronAPI.transcriptSearch(projectId, query, { speaker: speaker || undefined });
+        if (active) setHits(results);
+      } finally {
+        if (active) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [projectId, query, speaker]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`btn-ghost text-sm flex items-center gap-2 ${isOpen ? 'text-accent-indigo' : ''}`}
+        title="Search all transcripts"
+      >
+        <Search size={16} /> Search
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-[28rem] max-h-[32rem] panel rounded-lg shadow-node z-50 flex flex-col">
+          <div className="panel-header gap-2">
+            <input
+              ref={inputRef}
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => e.key === 'Escape' && setIsOpen(false)}
+              placeholder="Find a soundbite…"
+              className="input flex-1 text-sm"
+            />
+            {speakers.length > 0 && (
+              <select
+                value={speaker}
+                onChange={e => setSpeaker(e.target.value)}
+                className="input text-sm max-w-[9rem]"
+                title="Only this speaker's lines"
+              >
+                <option value="">Any speaker</option>
+                {speakers.map(s => (
+                  <option key={s.name} value={s.name}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {isSearching && <Loader2 size={14} className="text-accent-indigo animate-spin shrink-0" />}
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+              title="Close"
+            >
+              <X size={14} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto py-1">
+            {(query.trim() || speaker) && hits.length === 0 && !isSearching ? (
+              <p className="px-3 py-4 text-xs text-text-tertiary text-center">No matches in any transcript</p>
+            ) : (
+              hits.map(hit => (
+                <div
+                  key={`${hit.assetId}-${hit.wordIndex}`}
+                  onClick={() => {
+                    onOpenHit(hit);
+                    setIsOpen(false);
+                  }}
+                  className="px-3 py-2 flex items-start gap-2 hover:bg-void-gray cursor-pointer"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-text-primary font-medium truncate">{hit.assetName}</span>
+                      {hit.speaker && (
+                        <span className="shrink-0" style={{ color: speakerColor(hit.speaker, speakerNames) }}>
+                          {hit.speaker}
+                        </span>
+                      )}
+                      <span className="ml-auto text-text-tertiary font-mono shrink-0">{formatOffset(hit.start)}</span>
+                    </div>
+                    <p className="text-xs text-text-secondary mt-0.5 leading-relaxed">
+                      {hit.context.before && <>… {hit.context.before} </>}
+                      <mark className="bg-accent-indigo bg-opacity-30 text-text-primary rounded px-0.5">
+                        {hit.context.match}
+                      </mark>
+                      {hit.context.after && <> {hit.context.after} …</>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onCreateNode(hit);
+                    }}
+                    className="p-1 text-text-tertiary hover:text-accent-indigo transition-colors rounded shrink-0"
+                    title="New node from this passage, in the Bucket"
+                  >
+                    <Plus size={14} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptSearchPanel;
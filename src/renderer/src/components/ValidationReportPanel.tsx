@@ -0,0 +1,96 @@
+import React from 'react';
+import { AlertTriangle, XCircle, X, RefreshCw, FileDown } from 'lucide-react';
+import { ValidationReport, ValidationIssue } from '../../../shared/types';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  onFocusNode: (nodeId: string) => void;
+  onRecheck: () => void;
+  onExportAnyway: () => void;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<ValidationIssue['type'], string> = {
+  ANCHOR_CYCLE: 'Anchor cycle',
+  ORPHAN_ANCHOR: 'Orphaned anchor',
+  DETACHED_CHAIN: 'Detached chain',
+  CLIP_OUT_OF_RANGE: 'Trim past media',
+  MISSING_MEDIA: 'Missing media',
+  TRACK_OVERLAP: 'Track overlap',
+  CONTAINER_SPILL: 'Container spill',
+};
+
+/**
+ * Phase 9: Pre-export validation report
+ *
+ * Floating list of problems found by validateGraphForExport.
+ * Clicking an issue focuses its node on the canvas; errors block export,
+ * warnings can be exported anyway.
+ */
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({
+  report,
+  onFocusNode,
+  onRecheck,
+  onExportAnyway,
+  onClose,
+}) => {
+  const errors = report.issues.filter(i => i.severity === 'error');
+  const warnings = report.issues.filter(i => i.severity === 'warning');
+
+  return (
+    <div className="absolute top-4 right-4 w-96 max-h-[70%] panel rounded-lg shadow-node z-50 flex flex-col">
+      <div className="panel-header">
+        <h4 className="text-xs font-semibold">
+          Export Check — {errors.length} error{errors.length === 1 ? '' : 's'}, {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+        </h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-text-tertiary hover:text-text-primary transition-colors rounded"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {[...errors, ...warnings].map((issue, index) => (
+          <button
+            key={`${issue.type}-${issue.nodeId || issue.containerId}-${index}`}
+            onClick={() => issue.nodeId && onFocusNode(issue.nodeId)}
+            disabled={!issue.nodeId}
+            className="w-full px-3 py-2 text-left hover:bg-void-gray flex items-start gap-2 disabled:cursor-default"
+          >
+            {issue.severity === 'error' ? (
+              <XCircle size={14} className="text-accent-red mt-0.5 shrink-0" />
+            ) : (
+              <AlertTriangle size={14} className="text-accent-amber mt-0.5 shrink-0" />
+            )}
+            <div className="min-w-0">
+              <div className="text-xs font-medium text-text-primary">{ISSUE_LABELS[issue.type]}</div>
+              <div className="text-xs text-text-secondary break-words">{issue.message}</div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 px-3 py-2 border-t border-void-gray">
+        <button onClick={onRecheck} className="btn-ghost text-xs flex items-center gap-1">
+          <RefreshCw size={12} /> Re-check
+        </button>
+        {errors.length === 0 ? (
+          <button
+            onClick={onExportAnyway}
+            className="btn-primary text-xs flex items-center gap-1"
+            title="Export with warnings"
+          >
+            <FileDown size={12} /> Export Anyway
+          </button>
+        ) : (
+          <span className="text-xs text-text-tertiary">Fix errors before exporting</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
@@ -0,0 +1,72 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { useWaveform } from '../hooks/useWaveform';
+
+interface WaveformProps {
+  assetId: string;
+  clipIn: number; // Seconds into the source
+  clipOut: number; // Seconds into the source
+  color: string;
+  className?: string;
+}
+
+/**
+ * Mirrored peak envelope of an asset's clip_in → clip_out range
+ * Drawn to a canvas at the element's pixel width; one bar per pixel column.
+ */
+const Waveform: React.FC<WaveformProps> = ({ assetId, clipIn, clipOut, color, className = '' }) => {
+  const waveform = useWaveform(assetId);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !waveform || size.width === 0 || size.height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+    context.fillStyle = color;
+
+    const { peaks, peaksPerSecond } = waveform;
+    const first = Math.max(0, Math.floor(clipIn * peaksPerSecond));
+    const last = Math.min(peaks.length, Math.ceil(clipOut * peaksPerSecond));
+    if (last <= first) return;
+
+    const perColumn = (last - first) / size.width;
+    const middle = size.height / 2;
+
+    for (let x = 0; x < size.width; x++) {
+      const from = first + Math.floor(x * perColumn);
+      const to = Math.max(from + 1, first + Math.floor((x + 1) * perColumn));
+      let peak = 0;
+      for (let i = from; i < to && i < last; i++) {
+        if (peaks[i] > peak) peak = peaks[i];
+      }
+      const half = Math.max(0.5, (peak / 255) * middle);
+      context.fillRect(x, middle - half, 1, half * 2);
+    }
+  }, [waveform, size, clipIn, clipOut, color]);
+
+  return (
+    <div ref={containerRef} className={`overflow-hidden pointer-events-none ${className}`}>
+      {waveform && <canvas ref={canvasRef} style={{ width: size.width, height: size.height }} />}
+    </div>
+  );
+};
+
+export default Waveform;
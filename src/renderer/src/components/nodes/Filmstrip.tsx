@@ -0,0 +1,39 @@
+import React from 'react';
+import { MediaAsset, StoryNode } from '../../../../shared/types';
+import { useThumbnail } from '../../hooks/useThumbnail';
+
+interface FilmstripProps {
+  storyNode: StoryNode;
+  asset: MediaAsset;
+  width: number; // Elastic node width in px
+  className?: string;
+}
+
+// Roughly one frame per 80px of node width
+const FRAME_SPACING_PX = 80;
+const MAX_FRAMES = 24;
+
+/**
+ * Frames from the node's clip_in → clip_out range, spread across its width
+ */
+const Filmstrip: React.FC<FilmstripProps> = ({ storyNode, asset, width, className = '' }) => {
+  const clipIn = storyNode.clip_in || 0;
+  const clipOut = storyNode.clip_out ?? asset.duration ?? 0;
+  const frames = Math.max(2, Math.min(MAX_FRAMES, Math.round(width / FRAME_SPACING_PX)));
+
+  const url = useThumbnail(
+    clipOut > clipIn ? { assetId: asset.id, kind: 'filmstrip', clipIn, clipOut, frames } : { assetId: asset.id, kind: 'poster' }
+  );
+
+  return (
+    <div className={`bg-void-dark overflow-hidden ${className}`}>
+      {url ? (
+        <img src={url} alt="" draggable={false} className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full animate-pulse bg-void-gray bg-opacity-30" />
+      )}
+    </div>
+  );
+};
+
+export default Filmstrip;
@@ -2,6 +2,15 @@ import React from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { Video, Trash2 } from 'lucide-react';
 import { ReactFlowNodeData } from '../../../../shared/types';
+import {
+  toFrameRate,
+  formatFrameRate,
+  framesToTimecode,
+  secondsToFrames,
+  isDropFrameTimecode,
+} from '../../../../shared/timecode';
+import Filmstrip from './Filmstrip';
+import Waveform from '../Waveform';
 
 interface SatelliteNodeProps {
   data: ReactFlowNodeData;
@@ -11,12 +20,10 @@ interface SatelliteNodeProps {
 const SatelliteNode: React.FC<SatelliteNodeProps> = ({ data, selected }) => {
   const { storyNode, asset, label, onDelete } = data;
 
-  const formatDuration = (seconds: number | null | undefined) => {
-    if (!seconds) return '0:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  // Trimmed length as timecode at the asset's own rate
+  const rate = toFrameRate(asset?.fps || 24);
+  const clipSeconds = Math.max(0, (storyNode.clip_out ?? asset?.duration ?? 0) - (storyNode.clip_in || 0));
+  const clipTimecode = framesToTimecode(secondsToFrames(clipSeconds, rate), rate, isDropFrameTimecode(asset?.start_tc));
 
   // Get elastic width and attached children from computed data
   const elasticWidth = storyNode._computed?.elasticWidth || 180;
@@ -56,9 +63,21 @@ const SatelliteNode: React.FC<SatelliteNodeProps> = ({ data, selected }) => {
         )}
       </div>
 
-      {/* Thumbnail Preview - fixed height instead of aspect-video */}
-      <div className="h-20 bg-void-dark flex items-center justify-center border-b border-void-gray flex-shrink-0">
-        <Video size={24} className="text-text-tertiary opacity-50" />
+      {/* Filmstrip / Waveform Preview - fixed height instead of aspect-video */}
+      <div className="relative h-20 bg-void-dark flex items-center justify-center border-b border-void-gray flex-shrink-0">
+        {!asset && <Video size={24} className="text-text-tertiary opacity-50" />}
+        {asset && asset.media_type !== 'MUSIC' && (
+          <Filmstrip storyNode={storyNode} asset={asset} width={elasticWidth} className="absolute inset-0" />
+        )}
+        {asset && (asset.media_type === 'MUSIC' || asset.media_type === 'DIALOGUE') && (
+          <Waveform
+            assetId={asset.id}
+            clipIn={storyNode.clip_in || 0}
+            clipOut={storyNode.clip_out ?? asset.duration ?? 0}
+            color={asset.media_type === 'MUSIC' ? '#10B981' : '#06B6D4CC'}
+            className={asset.media_type === 'MUSIC' ? 'absolute inset-x-0 inset-y-2' : 'absolute inset-x-0 bottom-0 h-1/2'}
+          />
+        )}
       </div>
 
       {/* Content */}
@@ -69,11 +88,11 @@ const SatelliteNode: React.FC<SatelliteNodeProps> = ({ data, selected }) => {
         {asset && (
           <div className="flex items-center gap-2 text-[10px]">
             <span className="timecode text-text-tertiary">
-              {formatDuration(asset.duration)}
+              {clipTimecode}
             </span>
             {asset.fps && (
               <span className="timecode text-text-tertiary">
-                {asset.fps.toFixed(0)}fps
+                {formatFrameRate(rate)}fps
               </span>
             )}
           </div>
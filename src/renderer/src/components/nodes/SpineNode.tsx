@@ -2,6 +2,15 @@ import React from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { Film, Trash2 } from 'lucide-react';
 import { ReactFlowNodeData } from '../../../../shared/types';
+import {
+  toFrameRate,
+  formatFrameRate,
+  framesToTimecode,
+  secondsToFrames,
+  isDropFrameTimecode,
+} from '../../../../shared/timecode';
+import Filmstrip from './Filmstrip';
+import Waveform from '../Waveform';
 
 interface SpineNodeProps {
   data: ReactFlowNodeData;
@@ -11,12 +20,10 @@ interface SpineNodeProps {
 const SpineNode: React.FC<SpineNodeProps> = ({ data, selected }) => {
   const { storyNode, asset, label, onDelete } = data;
 
-  const formatDuration = (seconds: number | null | undefined) => {
-    if (!seconds) return '0:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  // Trimmed length as timecode at the asset's own rate
+  const rate = toFrameRate(asset?.fps || 24);
+  const clipSeconds = Math.max(0, (storyNode.clip_out ?? asset?.duration ?? 0) - (storyNode.clip_in || 0));
+  const clipTimecode = framesToTimecode(secondsToFrames(clipSeconds, rate), rate, isDropFrameTimecode(asset?.start_tc));
 
   // Get elastic width and attached children from computed data
   const elasticWidth = storyNode._computed?.elasticWidth || 200;
@@ -64,27 +71,27 @@ const SpineNode: React.FC<SpineNodeProps> = ({ data, selected }) => {
 
         {asset && (
           <>
-            <div className="h-10 bg-void-dark rounded mb-1 flex items-center justify-center">
-              <div className="flex gap-0.5 h-6">
-                {[...Array(16)].map((_, i) => (
-                  <div
-                    key={i}
-                    className="w-1 bg-accent-purple rounded"
-                    style={{
-                      height: `${Math.random() * 100}%`,
-                      opacity: 0.6,
-                    }}
-                  />
-                ))}
-              </div>
+            <div className="relative h-10 bg-void-dark rounded mb-1 overflow-hidden">
+              {asset.media_type !== 'MUSIC' && (
+                <Filmstrip storyNode={storyNode} asset={asset} width={elasticWidth} className="absolute inset-0" />
+              )}
+              {(asset.media_type === 'MUSIC' || asset.media_type === 'DIALOGUE') && (
+                <Waveform
+                  assetId={asset.id}
+                  clipIn={storyNode.clip_in || 0}
+                  clipOut={storyNode.clip_out ?? asset.duration ?? 0}
+                  color={asset.media_type === 'MUSIC' ? '#10B981' : '#A855F7CC'}
+                  className={asset.media_type === 'MUSIC' ? 'absolute inset-0' : 'absolute inset-x-0 bottom-0 h-1/2'}
+                />
+              )}
             </div>
             <div className="flex items-center gap-2 text-[10px]">
               <span className="timecode text-text-tertiary">
-                {formatDuration(asset.duration)}
+                {clipTimecode}
               </span>
               {asset.fps && (
                 <span className="timecode text-text-tertiary">
-                  {asset.fps.toFixed(0)}fps
+                  {formatFrameRate(rate)}fps
                 </span>
               )}
             </div>
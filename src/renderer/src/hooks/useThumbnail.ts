@@ -0,0 +1,59 @@
+/**
+ * Thumbnail Hook (Renderer)
+ * Resolves a poster or filmstrip URL, waiting on its job when not yet cached
+ */
+
+import { useState, useEffect } from 'react';
+import { Job, ThumbnailRequest } from '../../../shared/types';
+
+// One job:done subscription shared by every thumbnail on screen
+const waiting = new Map<string, Set<(url: string) => void>>();
+let unsubscribeJobs: (() => void) | null = null;
+
+const waitForThumbnail = (key: string, onReady: (url: string) => void) => {
+  if (!unsubscribeJobs) {
+    unsubscribeJobs = window.electronAPI.onJobDone((job: Job) => {
+      if (job.type !== 'thumbnail' || job.status !== 'done' || !job.result?.url) return;
+      waiting.get(JSON.stringify(job.payload))?.forEach(callback => callback(job.result.url));
+    });
+  }
+
+  const callbacks = waiting.get(key) || new Set();
+  callbacks.add(onReady);
+  waiting.set(key, callbacks);
+
+  return () => {
+    callbacks.delete(onReady);
+    if (callbacks.size === 0) waiting.delete(key);
+  };
+};
+
+/**
+ * URL of a cached thumbnail, or null while it is being extracted
+ * Pass null to render nothing (e.g. a node without an asset).
+ */
+export const useThumbnail = (request: ThumbnailRequest | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  const key = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    setUrl(null);
+    if (!key) return;
+
+    let active = true;
+    const stopWaiting = waitForThumbnail(key, readyUrl => {
+      if (active) setUrl(readyUrl);
+    });
+
+    window.electronAPI.thumbnailGet(JSON.parse(key)).then(result => {
+      if (active && result.url) setUrl(result.url);
+    });
+
+    return () => {
+      active = false;
+      stopWaiting();
+    };
+  }, [key]);
+
+  return url;
+};
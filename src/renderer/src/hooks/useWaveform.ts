@@ -0,0 +1,83 @@
+/**
+ * Waveform Hook (Renderer)
+ * Loads an asset's peak envelope once and shares it between every clip and
+ * node that shows the same asset
+ */
+
+import { useState, useEffect } from 'react';
+import { Job, WaveformData } from '../../../shared/types';
+
+const loaded = new Map<string, WaveformData>();
+const inFlight = new Map<string, Promise<WaveformData | null>>();
+const waiting = new Map<string, Set<(waveform: WaveformData) => void>>();
+let unsubscribeJobs: (() => void) | null = null;
+
+const fetchWaveform = (assetId: string): Promise<WaveformData | null> => {
+  if (!inFlight.has(assetId)) {
+    inFlight.set(
+      assetId,
+      window.electronAPI.waveformGet(assetId).then(({ waveform }) => {
+        inFlight.delete(assetId);
+        if (waveform) loaded.set(assetId, waveform);
+        return waveform;
+      })
+    );
+  }
+  return inFlight.get(assetId)!;
+};
+
+const waitForWaveform = (assetId: string, onReady: (waveform: WaveformData) => void) => {
+  if (!unsubscribeJobs) {
+    unsubscribeJobs = window.electronAPI.onJobDone((job: Job) => {
+      if (job.type !== 'waveform' || job.status !== 'done') return;
+      const callbacks = waiting.get(job.payload.assetId);
+      if (!callbacks) return;
+      fetchWaveform(job.payload.assetId).then(waveform => {
+        if (waveform) callbacks.forEach(callback => callback(waveform));
+      });
+    });
+  }
+
+  const callbacks = waiting.get(assetId) || new Set();
+  callbacks.add(onReady);
+  waiting.set(assetId, callbacks);
+
+  return () => {
+    callbacks.delete(onReady);
+    if (callbacks.size === 0) waiting.delete(assetId);
+  };
+};
+
+/**
+ * Peaks for an asset, or null while they are being extracted (or for
+ * assets without audio)
+ */
+export const useWaveform = (assetId: string | null | undefined): WaveformData | null => {
+  const [waveform, setWaveform] = useState<WaveformData | null>(assetId ? loaded.get(assetId) || null : null);
+
+  useEffect(() => {
+    if (!assetId) {
+      setWaveform(null);
+      return;
+    }
+
+    const cached = loaded.get(assetId);
+    setWaveform(cached || null);
+    if (cached) return;
+
+    let active = true;
+    const stopWaiting = waitForWaveform(assetId, ready => {
+      if (active) setWaveform(ready);
+    });
+    fetchWaveform(assetId).then(result => {
+      if (active && result) setWaveform(result);
+    });
+
+    return () => {
+      active = false;
+      stopWaiting();
+    };
+  }, [assetId]);
+
+  return waveform;
+};
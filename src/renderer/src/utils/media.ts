@@ -0,0 +1,33 @@
+/**
+ * Media Utilities (Renderer)
+ * URLs for the main process media:// protocol
+ */
+
+import { FFprobeMetadata } from '../../../shared/types';
+
+/**
+ * Playback URL for a library asset
+ * With proxyMode on, the main process serves the proxy when one exists and
+ * falls back to the camera original otherwise.
+ */
+export const getMediaUrl = (assetId: string, proxyMode: boolean): string =>
+  `media://asset/${encodeURIComponent(assetId)}?proxy=${proxyMode ? 1 : 0}`;
+
+/**
+ * FFprobe fields stored in metadata_raw at import
+ * Assets imported before a field existed simply lack it.
+ */
+export const parseMediaMetadata = (asset: { metadata_raw: string | null }): Partial<FFprobeMetadata> => {
+  if (!asset.metadata_raw) return {};
+  try {
+    return JSON.parse(asset.metadata_raw);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Whether FFprobe found an audio stream (metadata_raw.has_audio)
+ */
+export const assetHasAudio = (asset: { metadata_raw: string | null }): boolean =>
+  !!parseMediaMetadata(asset).has_audio;
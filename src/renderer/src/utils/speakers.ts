@@ -0,0 +1,20 @@
+/**
+ * Speaker Utilities (Renderer)
+ * Stable colours for transcript speakers
+ */
+
+// Accent palette, in the order speakers are given colours
+const SPEAKER_COLORS = ['#A855F7', '#06B6D4', '#F59E0B', '#10B981', '#6366F1', '#EF4444'];
+
+/**
+ * Colour of a speaker, by their place in the project's speaker list so the
+ * same person keeps a colour across assets. Unknown speakers get a colour from
+ * their name.
+ */
+export const speakerColor = (speaker: string, projectSpeakers: string[]): string => {
+  let index = projectSpeakers.indexOf(speaker);
+  if (index === -1) {
+    index = Array.from(speaker).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 0);
+  }
+  return SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+};
@@ -12,25 +12,36 @@
  */
 
 import { StoryNode } from '../../../shared/types';
+import {
+  BASE_WIDTH_PX,
+  PIXELS_PER_SECOND,
+  SPINE_GAP,
+  SATELLITE_GAP,
+  STACK_GAP,
+  PIXELS_PER_TRACK,
+  COUPLER_GAP,
+  SPINE_HEIGHT,
+  SATELLITE_HEIGHT,
+} from '../../../shared/layout';
 
 // =============================================================================
-// LAYOUT CONSTANTS (per Physics Spec v11.0)
+// LAYOUT CONSTANTS (defined in shared/layout, re-exported for the renderer)
 // =============================================================================
 
-export const BASE_WIDTH_PX = 200;           // Default node width if no duration set
-export const PIXELS_PER_SECOND = 20;        // Duration-based width calculation
-export const SPINE_GAP = 100;               // Gap between Spine nodes (horizontal chain)
-export const SATELLITE_GAP = 50;            // Gap between Satellite wings (PREPEND/APPEND)
-export const STACK_GAP = 50;                // Vertical gap between stacked nodes
-export const PIXELS_PER_TRACK = 120;        // Vertical spacing per track (drift_y)
+export {
+  BASE_WIDTH_PX,
+  PIXELS_PER_SECOND,
+  SPINE_GAP,
+  SATELLITE_GAP,
+  STACK_GAP,
+  PIXELS_PER_TRACK,
+  COUPLER_GAP,
+  SPINE_HEIGHT,
+  SATELLITE_HEIGHT,
+};
 
 // Legacy constants (kept for backward compatibility)
 export const HORIZONTAL_SPACING = SATELLITE_GAP;
-export const COUPLER_GAP = 10;
-
-// Fixed node heights
-export const SPINE_HEIGHT = 130;
-export const SATELLITE_HEIGHT = 180;
 
 // =============================================================================
 // UTILITY FUNCTIONS
@@ -0,0 +1,32 @@
+/**
+ * Canvas Layout
+ * Node footprints and spacing shared by the Main and Renderer processes
+ *
+ * Main-process services that place nodes themselves (OTIO import, paper
+ * edits) must land them exactly where the canvas would, so the physics
+ * constants live here rather than in the renderer's topology utilities.
+ */
+
+// ============================================================================
+// SPACING (per Physics Spec v11.0)
+// ============================================================================
+
+export const BASE_WIDTH_PX = 200;           // Default node width if no duration set
+export const PIXELS_PER_SECOND = 20;        // Duration-based width calculation
+export const SPINE_GAP = 100;               // Gap between Spine nodes (horizontal chain)
+export const SATELLITE_GAP = 50;            // Gap between Satellite wings (PREPEND/APPEND)
+export const STACK_GAP = 50;                // Vertical gap between stacked nodes
+export const PIXELS_PER_TRACK = 120;        // Vertical spacing per track (drift_y)
+export const COUPLER_GAP = 10;              // Gap between coupled spine cars
+
+// ============================================================================
+// NODE FOOTPRINTS
+// ============================================================================
+
+export const SPINE_WIDTH = 300;
+export const SPINE_HEIGHT = 130;
+export const SATELLITE_WIDTH = 240;
+export const SATELLITE_HEIGHT = 180;
+
+export const SPINE_SIZE = { width: SPINE_WIDTH, height: SPINE_HEIGHT };
+export const SATELLITE_SIZE = { width: SATELLITE_WIDTH, height: SATELLITE_HEIGHT };
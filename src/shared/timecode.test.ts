@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  toFrameRate,
+  framesToTimecode,
+  timecodeToFrames,
+  addFramesToTimecode,
+  secondsToTimecode,
+  convertFrameRange,
+  withTimecodeNotation,
+  isValidTimecode,
+} from './timecode';
+
+const NTSC_30 = toFrameRate(29.97);
+const NTSC_60 = toFrameRate('60000/1001');
+
+describe('toFrameRate', () => {
+  it('recognises NTSC rates from decimals and FFprobe fractions', () => {
+    expect(toFrameRate(23.976)).toEqual({ frameDuration: { num: 1001, den: 24000 }, nominal: 24, ntsc: true });
+    expect(toFrameRate('30000/1001')).toEqual(NTSC_30);
+    expect(toFrameRate(25)).toEqual({ frameDuration: { num: 1, den: 25 }, nominal: 25, ntsc: false });
+  });
+});
+
+describe('drop-frame timecode', () => {
+  it('skips frame numbers 00 and 01 at each minute except every tenth', () => {
+    expect(framesToTimecode(1799, NTSC_30, true)).toBe('00:00:59;29');
+    expect(framesToTimecode(1800, NTSC_30, true)).toBe('00:01:00;02');
+    expect(framesToTimecode(17982, NTSC_30, true)).toBe('00:10:00;00');
+    expect(framesToTimecode(107892, NTSC_30, true)).toBe('01:00:00;00');
+  });
+
+  it('parses drop-frame labels back to real frame counts', () => {
+    expect(timecodeToFrames('00:01:00;02', NTSC_30)).toBe(1800);
+    expect(timecodeToFrames('00:10:00;00', NTSC_30)).toBe(17982);
+    expect(timecodeToFrames('01:00:00;00', NTSC_30)).toBe(107892);
+    expect(timecodeToFrames('00:01:00;04', NTSC_60)).toBe(3600);
+  });
+
+  it('round-trips every frame across a ten-minute block', () => {
+    for (let frame = 17000; frame < 19000; frame++) {
+      expect(timecodeToFrames(framesToTimecode(frame, NTSC_30, true), NTSC_30)).toBe(frame);
+    }
+  });
+
+  it('counts ";" as non-drop at rates without drop-frame', () => {
+    expect(timecodeToFrames('01:00:00;00', toFrameRate(23.976))).toBe(86400);
+    expect(framesToTimecode(86400, toFrameRate(25), true)).toBe('00:57:36:00');
+  });
+
+  it('keeps the notation of the timecode it offsets', () => {
+    expect(addFramesToTimecode('00:00:59;29', 1, NTSC_30)).toBe('00:01:00;02');
+    expect(addFramesToTimecode('00:00:59:29', 1, NTSC_30)).toBe('00:01:00:00');
+  });
+
+  it('rewrites the frames separator without changing the label', () => {
+    expect(withTimecodeNotation('01:00:00:00', true)).toBe('01:00:00;00');
+    expect(withTimecodeNotation('01:00:00;00', false)).toBe('01:00:00:00');
+  });
+});
+
+describe('secondsToTimecode', () => {
+  it('shows the frame on screen at a time, offset from a start timecode', () => {
+    expect(secondsToTimecode(1, NTSC_30, true, '01:00:00;00')).toBe('01:00:00;29');
+    expect(secondsToTimecode(2, toFrameRate(25), false, '10:00:00:00')).toBe('10:00:02:00');
+  });
+});
+
+describe('isValidTimecode', () => {
+  it('rejects out-of-range fields', () => {
+    expect(isValidTimecode('01:00:00:00')).toBe(true);
+    expect(isValidTimecode('01:60:00:00')).toBe(false);
+    expect(isValidTimecode('01:00:00:25', toFrameRate(25))).toBe(false);
+    expect(isValidTimecode('')).toBe(false);
+  });
+});
+
+describe('convertFrameRange', () => {
+  it('covers at least the same real time at the target rate', () => {
+    expect(convertFrameRange(0, 24, toFrameRate(24), toFrameRate(23.976))).toEqual([0, 24]);
+    expect(convertFrameRange(0, 25, toFrameRate(25), NTSC_30)).toEqual([0, 30]);
+    expect(convertFrameRange(30, 60, NTSC_30, toFrameRate(25))).toEqual([25, 51]); // 1.001s → 2.002s, widened
+  });
+});
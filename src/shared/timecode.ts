@@ -0,0 +1,228 @@
+/**
+ * SMPTE Timecode
+ * Frame-accurate timecode shared by the Main and Renderer processes
+ *
+ * Frame rates are exact rationals: 23.976 is 24000/1001, never 23.976.
+ * Drop-frame (";") numbering applies to 29.97 and 59.94 only; every other
+ * rate counts non-drop (":") whatever the caller asks for.
+ */
+
+// ============================================================================
+// RATIONAL TIME
+// ============================================================================
+
+export interface Rational {
+  num: number;
+  den: number;
+}
+
+export interface FrameRate {
+  frameDuration: Rational; // Seconds per frame (1001/24000 at 23.976)
+  nominal: number; // Integer timebase used for counting (24, 25, 30...)
+  ntsc: boolean; // True for 23.976 / 29.97 / 59.94
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export const reduceRational = ({ num, den }: Rational): Rational => {
+  const divisor = gcd(num, den) || 1;
+  return { num: num / divisor, den: den / divisor };
+};
+
+export const addRational = (a: Rational, b: Rational): Rational =>
+  reduceRational({ num: a.num * b.den + b.num * a.den, den: a.den * b.den });
+
+/**
+ * Resolve a decimal fps (23.976, 29.97, 25...) or an FFprobe fraction
+ * ("24000/1001") to an exact frame rate
+ */
+export const toFrameRate = (fps: number | string): FrameRate => {
+  let value = typeof fps === 'number' ? fps : NaN;
+  if (typeof fps === 'string') {
+    const [num, den] = fps.split('/').map(Number);
+    value = den ? num / den : num;
+  }
+
+  const nominal = Math.round(value) || 24;
+  const ntsc = Math.abs(value - nominal) > 0.001;
+  return {
+    frameDuration: ntsc ? { num: 1001, den: nominal * 1000 } : { num: 1, den: nominal },
+    nominal,
+    ntsc,
+  };
+};
+
+/**
+ * Exact frames per second as a decimal (23.976023...)
+ */
+export const frameRateToFps = (rate: FrameRate): number => rate.frameDuration.den / rate.frameDuration.num;
+
+/**
+ * Display label: "23.976", "29.97", "25"
+ */
+export const formatFrameRate = (rate: FrameRate): string =>
+  rate.ntsc ? String(Math.round(frameRateToFps(rate) * 1000) / 1000) : String(rate.nominal);
+
+export const framesToTime = (frames: number, rate: FrameRate): Rational =>
+  reduceRational({ num: frames * rate.frameDuration.num, den: rate.frameDuration.den });
+
+export const framesToSeconds = (frames: number, rate: FrameRate): number =>
+  (frames * rate.frameDuration.num) / rate.frameDuration.den;
+
+/**
+ * Nearest whole frame for a time in seconds
+ */
+export const secondsToFrames = (seconds: number, rate: FrameRate): number =>
+  Math.round((seconds * rate.frameDuration.den) / rate.frameDuration.num);
+
+/**
+ * Frames covered by a time range: in is the frame `start` falls in, out
+ * (exclusive) the next frame boundary at or after `end`, never shorter than a frame
+ */
+export const secondsToFrameRange = (start: number, end: number, rate: FrameRate): [number, number] => {
+  const { num, den } = rate.frameDuration;
+  const inFrame = Math.floor((start * den) / num + 1e-6);
+  const outFrame = Math.max(inFrame + 1, Math.ceil((end * den) / num - 1e-6));
+  return [inFrame, outFrame];
+};
+
+/**
+ * Widen a time range to whole frames (see secondsToFrameRange)
+ */
+export const snapRangeToFrames = (start: number, end: number, rate: FrameRate): [number, number] => {
+  const [inFrame, outFrame] = secondsToFrameRange(start, end, rate);
+  return [framesToSeconds(inFrame, rate), framesToSeconds(outFrame, rate)];
+};
+
+/**
+ * Frame range at another rate covering the same stretch of real time
+ * Exact in rationals, so 23.976 <-> 24 and 25 <-> 29.97 never drift.
+ */
+export const convertFrameRange = (
+  inFrame: number,
+  outFrame: number,
+  from: FrameRate,
+  to: FrameRate
+): [number, number] => {
+  // Frames at `to` per frame at `from`
+  const scale = (from.frameDuration.num * to.frameDuration.den) / (from.frameDuration.den * to.frameDuration.num);
+  const convertedIn = Math.floor(inFrame * scale + 1e-6);
+  return [convertedIn, Math.max(convertedIn + 1, Math.ceil(outFrame * scale - 1e-6))];
+};
+
+// ============================================================================
+// SMPTE TIMECODE
+// ============================================================================
+
+const TIMECODE_PATTERN = /^(\d{1,2})[:;](\d{2})[:;](\d{2})[:;](\d{2})$/;
+
+export const supportsDropFrame = (rate: FrameRate): boolean => rate.ntsc && rate.nominal % 30 === 0;
+
+/**
+ * Whether a timecode string uses drop-frame notation ("01:00:00;00")
+ */
+export const isDropFrameTimecode = (timecode: string | null | undefined): boolean =>
+  !!timecode && timecode.includes(';');
+
+/**
+ * Rewrite the frames separator for a counting mode, e.g. a "01:00:00:00"
+ * record start read as drop-frame is "01:00:00;00" (the same label, not the
+ * same frame count)
+ */
+export const withTimecodeNotation = (timecode: string, dropFrame: boolean): string =>
+  dropFrame ? timecode.replace(/[:;](\d{2})$/, ';$1') : timecode.replace(/;/g, ':');
+
+export const isValidTimecode = (timecode: string | null | undefined, rate?: FrameRate): boolean => {
+  const match = timecode?.trim().match(TIMECODE_PATTERN);
+  if (!match) return false;
+  const [, , minutes, seconds, frames] = match.map(Number);
+  return minutes < 60 && seconds < 60 && (!rate || frames < rate.nominal);
+};
+
+// Frame numbers skipped at the start of each minute (except every tenth)
+const dropFramesPerMinute = (rate: FrameRate) => rate.nominal / 15;
+
+/**
+ * Parse SMPTE timecode to a frame count from 00:00:00:00
+ * ";" marks drop-frame; it is honoured only at rates that support it.
+ * Invalid or empty timecode parses as frame 0.
+ */
+export const timecodeToFrames = (timecode: string | null | undefined, rate: FrameRate): number => {
+  const match = timecode?.trim().match(TIMECODE_PATTERN);
+  if (!match) return 0;
+
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number);
+  const totalFrames = (hours * 3600 + minutes * 60 + seconds) * rate.nominal + frames;
+  if (!isDropFrameTimecode(timecode) || !supportsDropFrame(rate)) return totalFrames;
+
+  const totalMinutes = hours * 60 + minutes;
+  return totalFrames - dropFramesPerMinute(rate) * (totalMinutes - Math.floor(totalMinutes / 10));
+};
+
+/**
+ * Format a frame count as SMPTE timecode
+ * Hours wrap at 24, as on a deck. Drop-frame is ignored at rates without it.
+ */
+export const framesToTimecode = (frameCount: number, rate: FrameRate, dropFrame = false): string => {
+  const isDropFrame = dropFrame && supportsDropFrame(rate);
+  let frames = Math.max(0, Math.round(frameCount));
+
+  if (isDropFrame) {
+    const dropPerMinute = dropFramesPerMinute(rate);
+    const framesPerMinute = rate.nominal * 60 - dropPerMinute;
+    const framesPer10Minutes = framesPerMinute * 10 + dropPerMinute;
+    const tenMinuteBlocks = Math.floor(frames / framesPer10Minutes);
+    const remainder = frames % framesPer10Minutes;
+
+    frames += dropPerMinute * 9 * tenMinuteBlocks;
+    if (remainder > dropPerMinute) {
+      frames += dropPerMinute * Math.floor((remainder - dropPerMinute) / framesPerMinute);
+    }
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const ff = frames % rate.nominal;
+  const totalSeconds = Math.floor(frames / rate.nominal);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600) % 24;
+
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${isDropFrame ? ';' : ':'}${pad(ff)}`;
+};
+
+// ============================================================================
+// TIMECODE ARITHMETIC
+// ============================================================================
+
+/**
+ * Offset a timecode by a number of frames, keeping its drop/non-drop notation
+ */
+export const addFramesToTimecode = (timecode: string, frames: number, rate: FrameRate): string =>
+  framesToTimecode(timecodeToFrames(timecode, rate) + frames, rate, isDropFrameTimecode(timecode));
+
+/**
+ * a + b, in a's notation
+ */
+export const addTimecodes = (a: string, b: string, rate: FrameRate): string =>
+  addFramesToTimecode(a, timecodeToFrames(b, rate), rate);
+
+/**
+ * Frames from `from` to `to` (negative when `to` is earlier)
+ */
+export const timecodeDifference = (from: string, to: string, rate: FrameRate): number =>
+  timecodeToFrames(to, rate) - timecodeToFrames(from, rate);
+
+/**
+ * Timecode for a position in seconds from a start timecode
+ */
+export const secondsToTimecode = (
+  seconds: number,
+  rate: FrameRate,
+  dropFrame = false,
+  startTimecode?: string | null
+): string => {
+  // The frame on screen at `seconds`; the epsilon absorbs float error on exact frame boundaries
+  const frame = Math.floor((seconds * rate.frameDuration.den) / rate.frameDuration.num + 1e-6);
+  const offset = startTimecode ? timecodeToFrames(startTimecode, rate) : 0;
+  return framesToTimecode(offset + frame, rate, dropFrame);
+};
@@ -35,6 +35,25 @@ export interface MediaAsset {
   duration: number | null; // seconds
   size: number | null; // bytes
   metadata_raw: string | null; // JSON string from FFprobe
+  proxy_path?: string | null; // Proxy transcode, null until generated
+  // Technical metadata promoted from FFprobe (null on assets probed before these existed)
+  video_codec?: string | null; // e.g. "prores (HQ)"
+  pixel_format?: string | null; // e.g. "yuv422p10le"
+  bit_depth?: number | null;
+  color_space?: string | null; // e.g. "bt709"
+  color_transfer?: string | null; // e.g. "bt709", "arib-std-b67" (HLG)
+  color_primaries?: string | null;
+  pixel_aspect?: string | null; // e.g. "1:1", "4:3" for anamorphic
+  rotation?: number | null; // Degrees, from display matrix or rotate tag
+  audio_codec?: string | null;
+  audio_channels?: number | null; // Summed across all audio streams
+  audio_channel_layout?: string | null; // e.g. "stereo", "4 × mono"
+  audio_sample_rate?: number | null;
+  audio_streams?: string | null; // JSON AudioStreamInfo[]
+  creation_date?: string | null; // ISO 8601, from container or QuickTime tags
+  camera_make?: string | null;
+  camera_model?: string | null;
+  reel_name?: string | null; // Tape/reel name (QuickTime tmcd, MXF, camera tags)
   created_at: string;
 }
 
@@ -43,6 +62,7 @@ export interface TranscriptDB {
   source_type: string;
   raw_text: string;
   word_map_json: string;
+  sync_offset_frames: number; // Frames at the asset's rate; positive moves the words later
   created_at: number;
 }
 
@@ -62,7 +82,85 @@ export interface WordToken {
   text: string;
   start: number; // Seconds
   end: number; // Seconds
+  frame_in?: number; // Frame at the asset's rate (see generateWordMap)
+  frame_out?: number; // Exclusive
   confidence?: number;
+  speaker?: string; // Speaker label from the transcript source
+}
+
+export type TranscriptFormat = 'SRT' | 'VTT' | 'JSON';
+
+/**
+ * Correction to a run of words (fromId..toId, inclusive)
+ * REPLACE retypes the run: one word per whitespace-separated token, so it also
+ * merges, splits and (with empty text) deletes. SPEAKER relabels the run.
+ */
+export type TranscriptEdit =
+  | { type: 'REPLACE'; fromId: number; toId: number; text: string }
+  | { type: 'SPEAKER'; fromId: number; toId: number; speaker: string | null };
+
+/**
+ * A speaker as named in a project: every transcript label shown under `name`
+ */
+export interface ProjectSpeaker {
+  name: string;
+  labels: string[]; // Raw labels from transcripts (e.g. SPEAKER_00, an SRT name)
+  wordCount: number;
+  assetCount: number;
+}
+
+export interface TranscriptRevision {
+  id: number;
+  media_id: string;
+  revision: number; // 1 = first version stored
+  source_type: string; // 'EDITED' for manual corrections
+  note: string | null;
+  word_count: number;
+  created_at: number;
+}
+
+/**
+ * Project-wide transcript search result
+ * start/end cover the matched words; the passage is the surrounding run of
+ * words from one speaker, used when a hit becomes a node.
+ */
+export interface TranscriptSearchHit {
+  assetId: string;
+  assetName: string;
+  speaker?: string;
+  wordIndex: number; // First matched word in the asset's word map
+  start: number; // Seconds from asset start
+  end: number;
+  passageStart: number;
+  passageEnd: number;
+  context: { before: string; match: string; after: string };
+}
+
+/**
+ * A transcript stretch a paper-edit passage may refer to
+ */
+export interface PaperEditCandidate {
+  assetId: string;
+  assetName: string;
+  speaker?: string;
+  start: number; // Seconds from asset start, snapped to frames
+  end: number;
+  score: number; // 0-1 word-level similarity to the passage
+  text: string; // Transcript words that matched
+}
+
+/**
+ * One quoted passage from a paper edit and what it was matched to
+ * MATCHED and AMBIGUOUS passages are on the new canvas (nodeId; AMBIGUOUS uses
+ * the best candidate). UNMATCHED passages list their closest candidates.
+ */
+export interface PaperEditPassage {
+  line: number; // 1-based line in the script
+  text: string;
+  speaker?: string; // Speaker named in the script, used to break ties
+  status: 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED';
+  nodeId?: string;
+  candidates: PaperEditCandidate[];
 }
 
 export interface FractalContainer {
@@ -86,6 +184,7 @@ export interface FractalContainer {
 
 export interface StoryNode {
   id: string;
+  canvas_id?: string; // FK to canvases (null for legacy nodes created before canvas scoping)
   asset_id?: string; // FK to media_library (nullable for text nodes)
   act_id?: string; // FK to fractal_containers
   scene_id?: string; // FK to fractal_containers
@@ -143,19 +242,27 @@ export interface ProjectSettings {
   render_preview_path?: string;
   proxy_mode_enabled: boolean;
   last_canvas_id?: string; // FK to canvases
+  transcription_engine_path?: string; // Local whisper.cpp binary (whisper-cli)
+  transcription_model_path?: string; // ggml model file for the engine
+  transcription_language?: string; // ISO code, unset = auto-detect
 }
 
 export interface MulticamMember {
   multicam_media_id: string; // FK to media_library (the MULTICAM container)
   member_media_id: string; // FK to media_library (the source angle file)
   angle_label: string; // Display name for the angle
-  sync_offset?: number; // Time offset in seconds
+  sync_offset?: number; // Seconds from the start of the earliest angle to this angle's first frame
+  sync_method?: MulticamSyncMethod | null; // How sync_offset was found, null = not synced
+  sync_confidence?: number | null; // 0-1; audio matches below ~0.5 need review
   audio_channel_map?: string; // Audio channel routing (JSON)
   // Additional fields from JOIN with media_library
   file_path?: string;
   clean_name?: string;
+  fps?: number | null;
 }
 
+export type MulticamSyncMethod = 'TIMECODE' | 'AUDIO' | 'MANUAL';
+
 // ============================================================================
 // ANCHOR SYSTEM TYPES
 // ============================================================================
@@ -191,6 +298,127 @@ export type ConnectionMode = 'STACK' | 'PREPEND' | 'APPEND';
  */
 export type HandleId = 'anchor-top' | 'anchor-left' | 'anchor-right' | 'anchor-bottom';
 
+// ============================================================================
+// FLATTENING TYPES
+// ============================================================================
+
+/**
+ * A single clip on the linear timeline, produced by the DFS flattening solver.
+ * This is the single source of truth for exporters and the TimelineView.
+ *
+ * track: 0 = spine (V1), positive = above the spine, negative = below
+ * startFrame / endFrame: record frames at the canvas FPS (end is exclusive)
+ */
+export interface FlattenedClip {
+  nodeId: string;
+  track: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+// ============================================================================
+// EXPORT VALIDATION TYPES
+// ============================================================================
+
+export type ValidationIssueType =
+  | 'ANCHOR_CYCLE' // Anchor chain loops back on itself
+  | 'ORPHAN_ANCHOR' // anchor_id points at a node that is not on the canvas
+  | 'DETACHED_CHAIN' // Unanchored spine besides the origin; its chain is not flattened
+  | 'CLIP_OUT_OF_RANGE' // clip_out is past the end of the media
+  | 'MISSING_MEDIA' // Source file is not on disk
+  | 'TRACK_OVERLAP' // Two clips occupy the same frames on one computed track
+  | 'CONTAINER_SPILL'; // Node extends past its SCENE/ACT bounds
+
+/**
+ * A single problem found before export
+ * Errors block export; warnings are shown but can be exported anyway.
+ */
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  nodeId?: string; // Node to focus when the issue is clicked
+  relatedNodeIds?: string[];
+  containerId?: string;
+}
+
+export interface ValidationReport {
+  isValid: boolean; // True when there are no errors
+  issues: ValidationIssue[];
+}
+
+// ============================================================================
+// PROXY TYPES
+// ============================================================================
+
+export type ProxyCodec = 'h264' | 'prores'; // H.264 540p .mp4 or ProRes 422 Proxy .mov
+
+// ============================================================================
+// THUMBNAIL TYPES
+// ============================================================================
+
+/**
+ * A cached picture of an asset: one poster frame, or a filmstrip of evenly
+ * spaced frames across a clip range (in seconds), tiled left to right
+ */
+export type ThumbnailRequest =
+  | { assetId: string; kind: 'poster' }
+  | { assetId: string; kind: 'filmstrip'; clipIn: number; clipOut: number; frames: number };
+
+// ============================================================================
+// WAVEFORM TYPES
+// ============================================================================
+
+/**
+ * Audio peak envelope of an asset, mono, from the start of the file
+ */
+export interface WaveformData {
+  assetId: string;
+  peaksPerSecond: number;
+  peaks: number[]; // 0-255 absolute peak per bucket
+}
+
+// ============================================================================
+// JOB QUEUE TYPES
+// ============================================================================
+
+export type JobType = 'import' | 'probe' | 'proxy' | 'thumbnail' | 'waveform' | 'transcript' | 'multicam-sync';
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Background media work persisted in the jobs table
+ * Pushed to the renderer on job:progress (every change) and job:done
+ * (done, failed or cancelled).
+ */
+export interface Job {
+  id: string;
+  project_id: string | null;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, any>; // Job input, e.g. { filePath } or { assetId, codec }
+  result: any | null; // Handler output once done
+  error: string | null;
+  progress: number; // 0-100
+  message: string | null; // Short status line for the jobs panel
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// RENDER TYPES
+// ============================================================================
+
+/**
+ * Progress event pushed to the renderer while a rough cut renders
+ */
+export interface RenderProgress {
+  canvasId: string;
+  percent: number; // 0-100
+  timemark: string; // ffmpeg output position ("HH:MM:SS.ss")
+}
+
 // ============================================================================
 // IPC CHANNEL DEFINITIONS
 // ============================================================================
@@ -198,6 +426,7 @@ export type HandleId = 'anchor-top' | 'anchor-left' | 'anchor-right' | 'anchor-b
 export interface IpcChannels {
   // File operations
   'select-files': () => Promise<string[]>;
+  'select-file': (filters?: Array<{ name: string; extensions: string[] }>) => Promise<string | null>;
   'select-folder': () => Promise<string | null>;
 
   // Database operations
@@ -210,9 +439,11 @@ export interface IpcChannels {
   'project-list': () => Promise<Project[]>;
   'project-update': (id: string, updates: Partial<Project>) => Promise<void>;
   'project-delete': (id: string) => Promise<void>;
+  'project-settings-get': (projectId: string) => Promise<ProjectSettings | null>;
+  'project-settings-update': (projectId: string, updates: Partial<ProjectSettings>) => Promise<void>;
 
   // Media operations
-  'media-import': (projectId: string, filePaths: string[]) => Promise<MediaAsset[]>;
+  'media-import': (projectId: string, filePaths: string[]) => Promise<Job[]>;
   'media-get-metadata': (filePath: string) => Promise<any>;
 
   // Canvas operations
@@ -230,11 +461,40 @@ export interface IpcChannels {
   'node-validate-anchor': (childId: string, parentId: string, connectionMode: ConnectionMode) => Promise<{ valid: boolean; reason?: string }>;
   'node-change-type': (nodeId: string, newType: 'SPINE' | 'SATELLITE') => Promise<{ success: boolean; error?: string }>;
 
+  // Timeline operations
+  'timeline:flatten': (canvasId: string) => Promise<FlattenedClip[]>;
+
   // Multicam operations
   'multicam:get-members': (multicamMediaId: string) => Promise<MulticamMember[]>;
+  'multicam:sync': (multicamMediaId: string) => Promise<Job>;
+  'multicam:set-sync-offset': (multicamMediaId: string, memberMediaId: string, syncOffset: number) => Promise<{ success: boolean; error?: string }>;
 
   // Export operations
-  'export:generate-fcpxml': (projectId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+  'export:validate': (canvasId: string) => Promise<ValidationReport>;
+  'export:generate-fcpxml': (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+  'export:generate-edl': (canvasId: string, folderPath: string) => Promise<{ success: boolean; files?: string[]; error?: string }>;
+  'export:generate-xmeml': (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+  'export:generate-otio': (canvasId: string, filePath: string) => Promise<{ success: boolean; error?: string }>;
+  'import:otio': (projectId: string, filePath: string) => Promise<{ success: boolean; canvasId?: string; nodeCount?: number; error?: string }>;
+
+  // Proxy operations
+  'proxy:generate': (assetIds: string[], codec?: ProxyCodec) => Promise<{ queued: number }>;
+  'proxy:generate-missing': (projectId: string, codec?: ProxyCodec) => Promise<{ queued: number }>;
+
+  // Thumbnail operations
+  'thumbnail:get': (request: ThumbnailRequest) => Promise<{ url: string | null; jobId?: string }>;
+
+  // Waveform operations
+  'waveform:get': (assetId: string) => Promise<{ waveform: WaveformData | null; jobId?: string }>;
+
+  // Job operations
+  'job:list': (projectId?: string) => Promise<Job[]>;
+  'job:cancel': (jobId: string) => Promise<void>;
+  'job:retry': (jobId: string) => Promise<void>;
+  'job:clear-finished': (projectId?: string) => Promise<void>;
+
+  // Render operations
+  'render:rough-cut': (canvasId: string) => Promise<{ success: boolean; outputPath?: string; error?: string }>;
 
   // History operations
   'history:undo': () => Promise<void>;
@@ -274,6 +534,32 @@ export interface FFprobeMetadata {
   file_size: number;
   timecode_start: string | null;
   total_frames: number | null;
+  video_codec: string | null; // e.g. "prores (HQ)", "h264 (High)"
+  pixel_format: string | null;
+  bit_depth: number | null;
+  color_space: string | null;
+  color_transfer: string | null;
+  color_primaries: string | null;
+  pixel_aspect: string | null;
+  rotation: number;
+  audio_codec: string | null;
+  audio_channels: number; // Summed across all audio streams
+  audio_channel_layout: string | null; // e.g. "stereo", or "4 × mono" for split tracks
+  audio_sample_rate: number | null;
+  audio_streams: AudioStreamInfo[];
+  creation_date: string | null;
+  camera_make: string | null;
+  camera_model: string | null;
+  reel_name: string | null;
+}
+
+export interface AudioStreamInfo {
+  index: number; // Stream index in the container
+  codec: string | null;
+  channels: number;
+  channel_layout: string | null;
+  sample_rate: number | null;
+  language: string | null;
 }
 
 export interface AnchorCalculation {
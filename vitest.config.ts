@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for main-process services and shared modules (Node environment)
+export default defineConfig({
+  css: { postcss: {} }, // Tests load no styles; skip the renderer's Tailwind setup
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});